@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Loaded with Node's own require: bundled, pdf-parse runs its debug mode and tries to read a test PDF
+  serverExternalPackages: ['pdf-parse'],
 };
 
 export default nextConfig;
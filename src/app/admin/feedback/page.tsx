@@ -0,0 +1,136 @@
+// src/app/admin/feedback/page.tsx
+// Admin review of thumbs-down answers: each exchange with the reasons and comment it got and the documents, persona
+// and model settings that produced it. Rendered on the server; only admins get past the role check.
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import { Bot as BotIcon, User as UserIcon } from 'lucide-react';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/admin';
+import { isAdmin } from '@/lib/admin';
+import {
+  isFeedbackReason,
+  listNegativeFeedback,
+  FEEDBACK_REASONS,
+  FEEDBACK_REASON_LABELS,
+  type FeedbackReason,
+  type FeedbackReviewItem,
+} from '@/lib/feedback';
+import MarkdownMessage from '@/components/MarkdownMessage';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Answer feedback · Gemini Chatbot',
+  robots: { index: false, follow: false },
+};
+
+type FeedbackReviewPageProps = { searchParams: Promise<{ reason?: string; page?: string }> };
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' });
+
+function reviewHref(reason: FeedbackReason | null, page = 1): string {
+  const params = new URLSearchParams();
+  if (reason) params.set('reason', reason);
+  if (page > 1) params.set('page', String(page));
+  const query = params.toString();
+  return `/admin/feedback${query ? `?${query}` : ''}`;
+}
+
+function ReviewItem({ item }: { item: FeedbackReviewItem }) {
+  const settings = item.generation?.settings;
+  return (
+    <article className="p-4 rounded-xl bg-slate-800 border border-slate-700 space-y-3">
+      <div className="flex flex-wrap items-center gap-1.5 text-xs">
+        <span className="text-slate-400 mr-1">Rated {formatDate(item.ratedAt)} UTC</span>
+        {item.reasons.length === 0 && <span className="text-slate-500">No reason given</span>}
+        {item.reasons.map(reason => (
+          <span key={reason} className="px-2 py-0.5 rounded-full bg-red-500/20 text-red-200">{FEEDBACK_REASON_LABELS[reason]}</span>
+        ))}
+      </div>
+      {item.comment && <blockquote className="border-l-2 border-amber-400 pl-2 text-sm italic text-slate-200 whitespace-pre-wrap">{item.comment}</blockquote>}
+      <div className="p-3 rounded-lg bg-indigo-600/30">
+        <div className="flex items-center mb-1.5 text-xs text-indigo-200">
+          <UserIcon size={14} className="mr-1.5" /> Question · {formatDate(item.askedAt)} UTC
+        </div>
+        <p className="text-sm whitespace-pre-wrap">{item.userQuery}</p>
+      </div>
+      <div className="p-3 rounded-lg bg-slate-700">
+        <div className="flex items-center mb-1.5 text-xs text-slate-300">
+          <BotIcon size={14} className="mr-1.5" /> Answer
+        </div>
+        {item.botResponse
+          ? <div className="text-sm"><MarkdownMessage text={item.botResponse} /></div>
+          : <p className="text-sm italic text-slate-400">(No reply)</p>}
+      </div>
+      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+        <dt className="text-slate-400">Documents</dt>
+        <dd>
+          {item.documents.length > 0 ? item.documents.map(document => document.name).join(', ') : 'None'}
+          {item.documents.length > 0 && (
+            <span className="text-slate-400">
+              {' · '}{item.retrievalStrategy ?? 'not used'}{' · '}{item.citationCount} citation{item.citationCount === 1 ? '' : 's'}
+            </span>
+          )}
+        </dd>
+        <dt className="text-slate-400">Persona</dt>
+        <dd>{item.generation?.persona.name ?? 'Not recorded'}</dd>
+        <dt className="text-slate-400">Model</dt>
+        <dd>
+          {settings
+            ? `${settings.model} · temperature ${settings.temperature} · top-p ${settings.topP} · max ${settings.maxOutputTokens} tokens`
+            : 'Not recorded'}
+        </dd>
+      </dl>
+      {item.generation && (
+        <details className="text-xs">
+          <summary className="cursor-pointer text-slate-400 hover:text-slate-200">System instruction</summary>
+          <pre className="mt-1.5 p-2 rounded-lg bg-slate-900 text-slate-300 whitespace-pre-wrap">{item.generation.persona.systemInstruction}</pre>
+        </details>
+      )}
+    </article>
+  );
+}
+
+export default async function FeedbackReviewPage({ searchParams }: FeedbackReviewPageProps) {
+  const supabase = createSupabaseServerClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) redirect('/login');
+  if (!isAdmin(user)) notFound();
+
+  const params = await searchParams;
+  const reason = isFeedbackReason(params.reason) ? params.reason : null;
+  const page = Math.max(1, Math.floor(Number(params.page)) || 1);
+  const review = await listNegativeFeedback(createSupabaseAdminClient(), { reason, page });
+  const pageCount = Math.max(1, Math.ceil(review.total / review.pageSize));
+
+  const filterClass = (active: boolean) =>
+    `px-2.5 py-1 rounded-full text-xs ${active ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`;
+
+  return (
+    <div>
+      <header className="p-4 sm:p-6 border-b border-slate-700 bg-slate-800/50">
+        <h1 className="text-lg sm:text-xl font-semibold">Answer feedback</h1>
+        <p className="text-xs text-slate-400 mt-1">{review.total} thumbs-down answer{review.total === 1 ? '' : 's'}{reason ? ` tagged "${FEEDBACK_REASON_LABELS[reason]}"` : ''}, most recently rated first</p>
+        <nav className="flex flex-wrap gap-1.5 mt-3">
+          <Link href={reviewHref(null)} className={filterClass(!reason)}>All</Link>
+          {FEEDBACK_REASONS.map(r => (
+            <Link key={r} href={reviewHref(r)} className={filterClass(r === reason)}>{FEEDBACK_REASON_LABELS[r]}</Link>
+          ))}
+        </nav>
+      </header>
+      <main className="max-w-4xl mx-auto p-4 sm:p-6 space-y-4">
+        {review.items.length === 0
+          ? <p className="text-sm text-slate-400 text-center">No negatively rated answers{page > 1 ? ' on this page' : ''}.</p>
+          : review.items.map(item => <ReviewItem key={item.turnId} item={item} />)}
+        {pageCount > 1 && (
+          <nav className="flex items-center justify-center gap-3 text-sm">
+            {page > 1 && <Link href={reviewHref(reason, page - 1)} className="text-indigo-300 hover:underline">‹ Newer</Link>}
+            <span className="text-slate-400">Page {page} of {pageCount}</span>
+            {page < pageCount && <Link href={reviewHref(reason, page + 1)} className="text-indigo-300 hover:underline">Older ›</Link>}
+          </nav>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+// src/app/admin/layout.tsx
+// Shell of the admin area: navigation between the admin pages. The middleware turns away sessions without the admin
+// role claim; the user record is checked again here and on each page, since the claim in a session can be stale.
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { isAdmin } from '@/lib/admin';
+
+const ADMIN_PAGES = [
+  { href: '/admin', label: 'Dashboard' },
+  { href: '/admin/users', label: 'Users' },
+  { href: '/admin/safety', label: 'Safety log' },
+  { href: '/admin/usage', label: 'Usage' },
+  { href: '/admin/feedback', label: 'Feedback' },
+];
+
+export default async function AdminLayout({ children }: { children: React.ReactNode }) {
+  const supabase = createSupabaseServerClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) redirect('/login');
+  if (!isAdmin(user)) notFound();
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100">
+      <nav className="flex flex-wrap items-center gap-1 px-4 sm:px-6 py-2 border-b border-slate-700 bg-slate-800 text-sm">
+        <span className="font-semibold mr-3">Admin</span>
+        {ADMIN_PAGES.map(page => (
+          <Link key={page.href} href={page.href} className="px-2.5 py-1 rounded-lg text-slate-300 hover:bg-slate-700 hover:text-white">
+            {page.label}
+          </Link>
+        ))}
+        <Link href="/chatbot" className="ml-auto px-2.5 py-1 rounded-lg text-indigo-300 hover:bg-slate-700">Back to chat</Link>
+      </nav>
+      {children}
+    </div>
+  );
+}
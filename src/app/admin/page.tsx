@@ -0,0 +1,139 @@
+// src/app/admin/page.tsx
+// Admin dashboard: daily traffic over the last week, month or quarter as bar charts (turns, active users, turns with
+// documents, safety blocks), the number of accounts and the latest safety blocks.
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/admin';
+import { isAdmin } from '@/lib/admin';
+import { loadDailyTraffic, trafficRange, TRAFFIC_PERIODS, type TrafficDay } from '@/lib/usage';
+import { listSafetyEvents, SAFETY_BLOCK_KIND_LABELS } from '@/lib/moderation';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Admin · Gemini Chatbot',
+  robots: { index: false, follow: false },
+};
+
+type AdminDashboardPageProps = { searchParams: Promise<{ days?: string }> };
+
+const DEFAULT_TRAFFIC_PERIOD = 30;
+const RECENT_SAFETY_EVENTS = 5;
+
+const formatNumber = (value: number) => value.toLocaleString('en-GB');
+const formatDate = (iso: string) => new Date(iso).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' });
+
+function DailyBarChart({ title, days, value, barClass }: {
+  title: string;
+  days: TrafficDay[];
+  value: (day: TrafficDay) => number;
+  barClass: string;
+}) {
+  const peak = Math.max(0, ...days.map(value));
+  const total = days.reduce((sum, day) => sum + value(day), 0);
+  return (
+    <section className="p-4 rounded-xl bg-slate-800 border border-slate-700">
+      <div className="flex items-baseline justify-between mb-3">
+        <h2 className="text-sm font-semibold">{title}</h2>
+        <span className="text-xs text-slate-400">{formatNumber(total)} in total · peak {formatNumber(peak)}</span>
+      </div>
+      <div className="flex items-end gap-px h-32" role="img" aria-label={`${title} per day, peaking at ${peak}`}>
+        {days.map(day => (
+          <div
+            key={day.day}
+            title={`${day.day}: ${formatNumber(value(day))}`}
+            className={`flex-1 rounded-t-sm ${barClass}`}
+            style={{ height: peak > 0 ? `${(value(day) / peak) * 100}%` : 0 }}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between mt-1 text-[11px] text-slate-500">
+        <span>{days[0]?.day}</span>
+        <span>{days[days.length - 1]?.day}</span>
+      </div>
+    </section>
+  );
+}
+
+export default async function AdminDashboardPage({ searchParams }: AdminDashboardPageProps) {
+  const supabase = createSupabaseServerClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) redirect('/login');
+  if (!isAdmin(user)) notFound();
+
+  const params = await searchParams;
+  const days = TRAFFIC_PERIODS.includes(Number(params.days)) ? Number(params.days) : DEFAULT_TRAFFIC_PERIOD;
+  const admin = createSupabaseAdminClient();
+  const [traffic, safetyLog, accounts] = await Promise.all([
+    loadDailyTraffic(admin, trafficRange(days)),
+    listSafetyEvents(admin, { kind: null, userId: null, page: 1, pageSize: RECENT_SAFETY_EVENTS }),
+    admin.auth.admin.listUsers({ page: 1, perPage: 1 }),
+  ]);
+  if (accounts.error) {
+    throw new Error('Failed to count users. ' + accounts.error.message);
+  }
+
+  const turns = traffic.reduce((sum, day) => sum + day.turns, 0);
+  const blocks = traffic.reduce((sum, day) => sum + day.safetyBlocks, 0);
+  const cards = [
+    { label: 'Accounts', value: formatNumber(accounts.data.total ?? 0), href: '/admin/users' },
+    { label: `Turns, last ${days} days`, value: formatNumber(turns), href: '/admin/usage' },
+    { label: 'Average turns per day', value: formatNumber(Math.round(turns / traffic.length)), href: '/admin/usage' },
+    { label: `Safety blocks, last ${days} days`, value: formatNumber(blocks), href: '/admin/safety' },
+  ];
+
+  const periodClass = (active: boolean) =>
+    `px-2.5 py-1 rounded-full text-xs ${active ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`;
+
+  return (
+    <div>
+      <header className="p-4 sm:p-6 border-b border-slate-700 bg-slate-800/50">
+        <h1 className="text-lg sm:text-xl font-semibold">Dashboard</h1>
+        <p className="text-xs text-slate-400 mt-1">Daily traffic by UTC day</p>
+        <nav className="flex flex-wrap gap-1.5 mt-3">
+          {TRAFFIC_PERIODS.map(period => (
+            <Link key={period} href={`/admin?days=${period}`} className={periodClass(period === days)}>Last {period} days</Link>
+          ))}
+        </nav>
+      </header>
+      <main className="max-w-5xl mx-auto p-4 sm:p-6 space-y-4">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          {cards.map(card => (
+            <Link key={card.label} href={card.href} className="p-3 rounded-xl bg-slate-800 border border-slate-700 hover:border-indigo-500">
+              <div className="text-xs text-slate-400">{card.label}</div>
+              <div className="text-base font-semibold mt-1">{card.value}</div>
+            </Link>
+          ))}
+        </div>
+        <div className="grid sm:grid-cols-2 gap-4">
+          <DailyBarChart title="Turns" days={traffic} value={day => day.turns} barClass="bg-indigo-500" />
+          <DailyBarChart title="Active users" days={traffic} value={day => day.activeUsers} barClass="bg-emerald-500" />
+          <DailyBarChart title="Turns with documents" days={traffic} value={day => day.documentTurns} barClass="bg-sky-500" />
+          <DailyBarChart title="Safety blocks" days={traffic} value={day => day.safetyBlocks} barClass="bg-red-500" />
+        </div>
+        <section className="rounded-xl bg-slate-800 border border-slate-700">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700">
+            <h2 className="text-sm font-semibold">Latest safety blocks</h2>
+            <Link href="/admin/safety" className="text-xs text-indigo-300 hover:underline">Full log ›</Link>
+          </div>
+          {safetyLog.items.length === 0
+            ? <p className="px-4 py-3 text-sm text-slate-400">Nothing has been blocked.</p>
+            : (
+              <ul className="divide-y divide-slate-700">
+                {safetyLog.items.map(event => (
+                  <li key={event.id} className="px-4 py-2 text-xs">
+                    <div className="text-slate-400">
+                      {formatDate(event.createdAt)} UTC · {event.email ?? 'Deleted user'} · {SAFETY_BLOCK_KIND_LABELS[event.kind]}
+                    </div>
+                    <p className="mt-0.5 text-slate-200 truncate">{event.prompt}</p>
+                  </li>
+                ))}
+              </ul>
+            )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+// src/app/admin/safety/page.tsx
+// Admin log of safety blocks: questions Gemini refused outright and replies it withheld part-way, with who asked,
+// the model and the safety ratings behind the block. Filterable by kind and by user.
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import { ShieldAlert } from 'lucide-react';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/admin';
+import { isAdmin } from '@/lib/admin';
+import {
+  isSafetyBlockKind,
+  listSafetyEvents,
+  SAFETY_BLOCK_KINDS,
+  SAFETY_BLOCK_KIND_LABELS,
+  type SafetyBlockKind,
+  type SafetyEvent,
+} from '@/lib/moderation';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Safety log · Gemini Chatbot',
+  robots: { index: false, follow: false },
+};
+
+type SafetyLogPageProps = { searchParams: Promise<{ kind?: string; user?: string; page?: string }> };
+
+const USER_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' });
+
+// "HARM_CATEGORY_DANGEROUS_CONTENT" -> "dangerous content"
+const categoryLabel = (category: string) => category.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();
+
+function logHref({ kind, userId, page = 1 }: { kind: SafetyBlockKind | null; userId: string | null; page?: number }): string {
+  const params = new URLSearchParams();
+  if (kind) params.set('kind', kind);
+  if (userId) params.set('user', userId);
+  if (page > 1) params.set('page', String(page));
+  const query = params.toString();
+  return `/admin/safety${query ? `?${query}` : ''}`;
+}
+
+function SafetyEventItem({ event }: { event: SafetyEvent }) {
+  // Ratings below MEDIUM didn't cause the block; they are left out to keep the list short
+  const ratings = event.safetyRatings.filter(rating => rating.probability === 'MEDIUM' || rating.probability === 'HIGH');
+  return (
+    <article className="p-4 rounded-xl bg-slate-800 border border-slate-700 space-y-2">
+      <div className="flex flex-wrap items-center gap-1.5 text-xs">
+        <span className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-red-500/20 text-red-200">
+          <ShieldAlert size={12} /> {SAFETY_BLOCK_KIND_LABELS[event.kind]}
+        </span>
+        <span className="text-slate-400">{formatDate(event.createdAt)} UTC · {event.model}{event.reason ? ` · ${event.reason}` : ''}</span>
+      </div>
+      <div className="text-xs">
+        <Link href={logHref({ kind: null, userId: event.userId })} className="text-indigo-300 hover:underline">
+          {event.email ?? `${event.userId} (deleted)`}
+        </Link>
+      </div>
+      <p className="p-3 rounded-lg bg-slate-900 text-sm whitespace-pre-wrap break-words">{event.prompt}</p>
+      {ratings.length > 0 && (
+        <div className="flex flex-wrap gap-1.5 text-[11px]">
+          {ratings.map(rating => (
+            <span key={rating.category} className="px-2 py-0.5 rounded-full bg-slate-700 text-slate-200">
+              {categoryLabel(rating.category)}: {rating.probability.toLowerCase()}
+            </span>
+          ))}
+        </div>
+      )}
+    </article>
+  );
+}
+
+export default async function SafetyLogPage({ searchParams }: SafetyLogPageProps) {
+  const supabase = createSupabaseServerClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) redirect('/login');
+  if (!isAdmin(user)) notFound();
+
+  const params = await searchParams;
+  const kind = isSafetyBlockKind(params.kind) ? params.kind : null;
+  const userId = params.user && USER_ID_PATTERN.test(params.user) ? params.user : null;
+  const page = Math.max(1, Math.floor(Number(params.page)) || 1);
+  const log = await listSafetyEvents(createSupabaseAdminClient(), { kind, userId, page });
+  const pageCount = Math.max(1, Math.ceil(log.total / log.pageSize));
+
+  const filterClass = (active: boolean) =>
+    `px-2.5 py-1 rounded-full text-xs ${active ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`;
+
+  return (
+    <div>
+      <header className="p-4 sm:p-6 border-b border-slate-700 bg-slate-800/50">
+        <h1 className="text-lg sm:text-xl font-semibold">Safety log</h1>
+        <p className="text-xs text-slate-400 mt-1">
+          {log.total} safety block{log.total === 1 ? '' : 's'}{userId ? ' for one user' : ''}, newest first
+          {userId && <> · <Link href={logHref({ kind, userId: null })} className="text-indigo-300 hover:underline">show all users</Link></>}
+        </p>
+        <nav className="flex flex-wrap gap-1.5 mt-3">
+          <Link href={logHref({ kind: null, userId })} className={filterClass(!kind)}>All</Link>
+          {SAFETY_BLOCK_KINDS.map(k => (
+            <Link key={k} href={logHref({ kind: k, userId })} className={filterClass(k === kind)}>{SAFETY_BLOCK_KIND_LABELS[k]}</Link>
+          ))}
+        </nav>
+      </header>
+      <main className="max-w-4xl mx-auto p-4 sm:p-6 space-y-4">
+        {log.items.length === 0
+          ? <p className="text-sm text-slate-400 text-center">Nothing has been blocked{page > 1 ? ' on this page' : ''}.</p>
+          : log.items.map(event => <SafetyEventItem key={event.id} event={event} />)}
+        {pageCount > 1 && (
+          <nav className="flex items-center justify-center gap-3 text-sm">
+            {page > 1 && <Link href={logHref({ kind, userId, page: page - 1 })} className="text-indigo-300 hover:underline">‹ Newer</Link>}
+            <span className="text-slate-400">Page {page} of {pageCount}</span>
+            {page < pageCount && <Link href={logHref({ kind, userId, page: page + 1 })} className="text-indigo-300 hover:underline">Older ›</Link>}
+          </nav>
+        )}
+      </main>
+    </div>
+  );
+}
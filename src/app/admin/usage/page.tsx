@@ -0,0 +1,156 @@
+// src/app/admin/usage/page.tsx
+// Admin usage report: turns, tokens, latency and cost per UTC day and per user over a date range, with CSV downloads
+// of either table. Costs come from the price table in src/lib/llm/pricing.ts at the time each turn was stored.
+import type { Metadata } from 'next';
+import { notFound, redirect } from 'next/navigation';
+import { Download } from 'lucide-react';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/admin';
+import { isAdmin } from '@/lib/admin';
+import { loadUsageSummary, parseUsageRange, type UsageGrouping, type UsageRange, type UsageTotals } from '@/lib/usage';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Usage · Gemini Chatbot',
+  robots: { index: false, follow: false },
+};
+
+type UsagePageProps = { searchParams: Promise<{ from?: string; to?: string }> };
+
+const formatNumber = (value: number) => value.toLocaleString('en-GB');
+const formatCost = (value: number) => `$${value.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 4 })}`;
+const formatLatency = (value: number | null) => (value === null ? '–' : `${(value / 1000).toFixed(1)} s`);
+const share = (part: number, whole: number) => (whole > 0 ? `${Math.round((part / whole) * 100)}%` : '–');
+
+function csvHref(range: UsageRange, groupBy: UsageGrouping): string {
+  const params = new URLSearchParams({ from: range.from, to: range.to, format: 'csv', groupBy });
+  return `/api/admin/usage?${params}`;
+}
+
+function TotalsCells({ totals }: { totals: UsageTotals }) {
+  return (
+    <>
+      <td className="px-3 py-2 text-right">{formatNumber(totals.turns)}</td>
+      <td className="px-3 py-2 text-right">{share(totals.retrievalTurns, totals.turns)}</td>
+      <td className="px-3 py-2 text-right">{formatNumber(totals.promptTokens)}</td>
+      <td className="px-3 py-2 text-right">{formatNumber(totals.outputTokens)}</td>
+      <td className="px-3 py-2 text-right">{formatLatency(totals.averageLatencyMs)}</td>
+      <td className="px-3 py-2 text-right">
+        {formatCost(totals.costUsd)}
+        {totals.unpricedTurns > 0 && <span className="text-amber-300" title={`${totals.unpricedTurns} turns on unpriced models`}> *</span>}
+      </td>
+    </>
+  );
+}
+
+const TOTALS_HEADINGS = ['Turns', 'With documents', 'Prompt tokens', 'Output tokens', 'Avg. latency', 'Cost'];
+
+function UsageTable({ title, firstHeading, range, groupBy, children }: {
+  title: string;
+  firstHeading: string;
+  range: UsageRange;
+  groupBy: UsageGrouping;
+  children: React.ReactNode;
+}) {
+  return (
+    <section className="rounded-xl bg-slate-800 border border-slate-700 overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-700">
+        <h2 className="text-sm font-semibold">{title}</h2>
+        <a href={csvHref(range, groupBy)} className="flex items-center gap-1.5 text-xs text-indigo-300 hover:underline">
+          <Download size={14} /> CSV
+        </a>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs">
+          <thead className="text-slate-400">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium">{firstHeading}</th>
+              {TOTALS_HEADINGS.map(heading => <th key={heading} className="px-3 py-2 text-right font-medium">{heading}</th>)}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-700">{children}</tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
+
+export default async function UsagePage({ searchParams }: UsagePageProps) {
+  const supabase = createSupabaseServerClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) redirect('/login');
+  if (!isAdmin(user)) notFound();
+
+  const params = await searchParams;
+  const parsed = parseUsageRange(new URLSearchParams({ from: params.from ?? '', to: params.to ?? '' }));
+  const rangeError = 'error' in parsed ? parsed.error : null;
+  const range = 'range' in parsed ? parsed.range : (parseUsageRange(new URLSearchParams()) as { range: UsageRange }).range;
+  const summary = await loadUsageSummary(createSupabaseAdminClient(), range);
+  const { total } = summary;
+
+  const cards = [
+    { label: 'Turns', value: formatNumber(total.turns) },
+    { label: 'Tokens (prompt / output)', value: `${formatNumber(total.promptTokens)} / ${formatNumber(total.outputTokens)}` },
+    { label: 'Cost', value: formatCost(total.costUsd) },
+    { label: 'Turns with documents', value: `${formatNumber(total.retrievalTurns)} (${share(total.retrievalTurns, total.turns)})` },
+    { label: 'Cost of turns with documents', value: formatCost(total.retrievalCostUsd) },
+    { label: 'Average latency', value: formatLatency(total.averageLatencyMs) },
+  ];
+
+  return (
+    <div>
+      <header className="p-4 sm:p-6 border-b border-slate-700 bg-slate-800/50">
+        <h1 className="text-lg sm:text-xl font-semibold">Usage</h1>
+        <p className="text-xs text-slate-400 mt-1">
+          {range.from.slice(0, 10)} to {range.to.slice(0, 10)} (UTC) · costs from the model price table when each turn was stored
+        </p>
+        <form method="get" className="flex flex-wrap items-end gap-2 mt-3 text-xs">
+          <label className="flex flex-col gap-1">
+            <span className="text-slate-400">From</span>
+            <input type="date" name="from" defaultValue={range.from.slice(0, 10)} className="px-2 py-1 rounded-lg bg-slate-800 border border-slate-700" />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-slate-400">To</span>
+            <input type="date" name="to" defaultValue={range.to.slice(0, 10)} className="px-2 py-1 rounded-lg bg-slate-800 border border-slate-700" />
+          </label>
+          <button type="submit" className="px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-700">Show</button>
+        </form>
+        {rangeError && <p className="text-xs text-red-300 mt-2">{rangeError} Showing the last 30 days instead.</p>}
+      </header>
+      <main className="max-w-5xl mx-auto p-4 sm:p-6 space-y-4">
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+          {cards.map(card => (
+            <div key={card.label} className="p-3 rounded-xl bg-slate-800 border border-slate-700">
+              <div className="text-xs text-slate-400">{card.label}</div>
+              <div className="text-base font-semibold mt-1">{card.value}</div>
+            </div>
+          ))}
+        </div>
+        {total.unpricedTurns > 0 && (
+          <p className="text-xs text-amber-300">
+            * {formatNumber(total.unpricedTurns)} turn{total.unpricedTurns === 1 ? ' was' : 's were'} on models without a price and {total.unpricedTurns === 1 ? 'is' : 'are'} not in the cost. Add them to LLM_PRICES.
+          </p>
+        )}
+        <UsageTable title="Per day" firstHeading="Day (UTC)" range={range} groupBy="day">
+          {summary.byDay.length === 0 && <tr><td colSpan={7} className="px-3 py-4 text-center text-slate-400">No turns in this range.</td></tr>}
+          {summary.byDay.map(day => (
+            <tr key={day.day}>
+              <td className="px-3 py-2">{day.day}</td>
+              <TotalsCells totals={day} />
+            </tr>
+          ))}
+        </UsageTable>
+        <UsageTable title="Per user" firstHeading="User" range={range} groupBy="user">
+          {summary.byUser.length === 0 && <tr><td colSpan={7} className="px-3 py-4 text-center text-slate-400">No turns in this range.</td></tr>}
+          {summary.byUser.map(row => (
+            <tr key={row.userId}>
+              <td className="px-3 py-2">{row.email ?? <span className="text-slate-400">{row.userId} (deleted)</span>}</td>
+              <TotalsCells totals={row} />
+            </tr>
+          ))}
+        </UsageTable>
+      </main>
+    </div>
+  );
+}
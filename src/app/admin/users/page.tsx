@@ -0,0 +1,117 @@
+// src/app/admin/users/page.tsx
+// Admin user list: every account with its message counts, today's quota use and status, with suspend and reinstate
+// buttons. Quota use comes from the same shared counters the chat route checks (see src/lib/rate-limit).
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/admin';
+import { isAdmin } from '@/lib/admin';
+import { listAdminUsers, type AdminUser } from '@/lib/admin-users';
+import SuspendUserButton from '@/components/SuspendUserButton';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Users · Gemini Chatbot',
+  robots: { index: false, follow: false },
+};
+
+type AdminUsersPageProps = { searchParams: Promise<{ page?: string }> };
+
+const formatNumber = (value: number) => value.toLocaleString('en-GB');
+const formatDate = (iso: string | null) =>
+  iso ? new Date(iso).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' }) : '–';
+
+const usersHref = (page: number) => `/admin/users${page > 1 ? `?page=${page}` : ''}`;
+
+function QuotaBar({ used, limit }: { used: number; limit: number }) {
+  const share = limit > 0 ? Math.min(1, used / limit) : 0;
+  return (
+    <div className="w-24">
+      <div className="h-1.5 rounded-full bg-slate-700 overflow-hidden">
+        <div className={`h-full ${share >= 1 ? 'bg-red-500' : share >= 0.8 ? 'bg-amber-400' : 'bg-emerald-500'}`} style={{ width: `${share * 100}%` }} />
+      </div>
+      <div className="mt-0.5 text-[11px] text-slate-400">{formatNumber(used)} / {formatNumber(limit)}</div>
+    </div>
+  );
+}
+
+function UserRow({ user, isSelf }: { user: AdminUser; isSelf: boolean }) {
+  return (
+    <tr className={user.suspendedAt ? 'bg-red-950/30' : undefined}>
+      <td className="px-3 py-2">
+        <div className="flex flex-wrap items-center gap-1.5">
+          <span className="break-all">{user.email ?? user.id}</span>
+          {user.isAdmin && <span className="px-1.5 py-0.5 rounded-full bg-indigo-500/30 text-indigo-200 text-[11px]">Admin</span>}
+          {user.suspendedAt && (
+            <span className="px-1.5 py-0.5 rounded-full bg-red-500/30 text-red-200 text-[11px]" title={`Since ${formatDate(user.suspendedAt)} UTC`}>Suspended</span>
+          )}
+        </div>
+        <div className="text-[11px] text-slate-500">Joined {formatDate(user.createdAt)} · last sign-in {formatDate(user.lastSignInAt)}</div>
+      </td>
+      <td className="px-3 py-2 text-right">{formatNumber(user.messages)}</td>
+      <td className="px-3 py-2 text-right">{formatNumber(user.messagesToday)}</td>
+      <td className="px-3 py-2">{formatDate(user.lastMessageAt)}</td>
+      <td className="px-3 py-2"><QuotaBar used={user.quota.messages.used} limit={user.quota.messages.limit} /></td>
+      <td className="px-3 py-2"><QuotaBar used={user.quota.tokens.used} limit={user.quota.tokens.limit} /></td>
+      <td className="px-3 py-2">
+        <div className="flex flex-col items-end gap-1">
+          {!user.isAdmin && !isSelf && <SuspendUserButton userId={user.id} email={user.email} suspended={!!user.suspendedAt} />}
+          <Link href={`/admin/safety?user=${user.id}`} className="text-[11px] text-indigo-300 hover:underline">Safety log</Link>
+        </div>
+      </td>
+    </tr>
+  );
+}
+
+export default async function AdminUsersPage({ searchParams }: AdminUsersPageProps) {
+  const supabase = createSupabaseServerClient();
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) redirect('/login');
+  if (!isAdmin(user)) notFound();
+
+  const params = await searchParams;
+  const page = Math.max(1, Math.floor(Number(params.page)) || 1);
+  const list = await listAdminUsers(createSupabaseAdminClient(), page);
+  const pageCount = Math.max(1, Math.ceil(list.total / list.pageSize));
+
+  return (
+    <div>
+      <header className="p-4 sm:p-6 border-b border-slate-700 bg-slate-800/50">
+        <h1 className="text-lg sm:text-xl font-semibold">Users</h1>
+        <p className="text-xs text-slate-400 mt-1">
+          {formatNumber(list.total)} account{list.total === 1 ? '' : 's'}, oldest first. Quotas are today&apos;s use and reset at midnight UTC.
+        </p>
+      </header>
+      <main className="max-w-6xl mx-auto p-4 sm:p-6 space-y-4">
+        <div className="rounded-xl bg-slate-800 border border-slate-700 overflow-x-auto">
+          <table className="w-full text-xs">
+            <thead className="text-slate-400">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">User</th>
+                <th className="px-3 py-2 text-right font-medium">Messages</th>
+                <th className="px-3 py-2 text-right font-medium">Today</th>
+                <th className="px-3 py-2 text-left font-medium">Last message (UTC)</th>
+                <th className="px-3 py-2 text-left font-medium">Message quota</th>
+                <th className="px-3 py-2 text-left font-medium">Token quota</th>
+                <th className="px-3 py-2"><span className="sr-only">Actions</span></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-700">
+              {list.users.length === 0 && <tr><td colSpan={7} className="px-3 py-4 text-center text-slate-400">No users on this page.</td></tr>}
+              {list.users.map(row => <UserRow key={row.id} user={row} isSelf={row.id === user.id} />)}
+            </tbody>
+          </table>
+        </div>
+        {pageCount > 1 && (
+          <nav className="flex items-center justify-center gap-3 text-sm">
+            {page > 1 && <Link href={usersHref(page - 1)} className="text-indigo-300 hover:underline">‹ Previous</Link>}
+            <span className="text-slate-400">Page {page} of {pageCount}</span>
+            {page < pageCount && <Link href={usersHref(page + 1)} className="text-indigo-300 hover:underline">Next ›</Link>}
+          </nav>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+// src/app/api/account-data/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+
+// "Delete my data": every conversation, message and personal document of the user, and their personas. Documents they
+// added to a workspace library stay with the workspace. The account itself stays so they can carry on using the app.
+// Personas are removed at once; the rest is hidden at once and purged, stored files included, after the retention
+// window.
+export async function DELETE() {
+  const supabase = createSupabaseServerClient();
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to delete your data.' }, { status: 401 });
+    }
+
+    const { error: dbError } = await supabase.rpc('soft_delete_my_data');
+
+    if (dbError) {
+      console.error('Error deleting account data:', dbError);
+      return NextResponse.json({ error: 'Failed to delete your data. ' + dbError.message }, { status: 500 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in account data route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
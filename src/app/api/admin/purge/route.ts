@@ -0,0 +1,30 @@
+// src/app/api/admin/purge/route.ts
+import { NextResponse } from 'next/server';
+import { timingSafeEqual } from 'crypto';
+import { createSupabaseAdminClient } from '@/lib/supabase/admin';
+import { purgeDeletedData } from '@/lib/data-deletion';
+
+function isAuthorised(request: Request): boolean {
+  const secret = process.env.PURGE_JOB_SECRET;
+  if (!secret) return false;
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const received = Buffer.from(request.headers.get('authorization') ?? '');
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+// Scheduled job: permanently removes data deleted more than DATA_RETENTION_DAYS ago. Called by a cron job with
+// `Authorization: Bearer <PURGE_JOB_SECRET>` rather than by signed-in users.
+export async function POST(request: Request) {
+  if (!isAuthorised(request)) {
+    return NextResponse.json({ error: 'Unauthorized: A valid purge job secret is required.' }, { status: 401 });
+  }
+
+  try {
+    const result = await purgeDeletedData(createSupabaseAdminClient());
+    return NextResponse.json(result);
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in purge route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+// src/app/api/admin/usage/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/admin';
+import { isAdmin } from '@/lib/admin';
+import { loadUsageSummary, parseUsageRange, usageCsv, type UsageGrouping } from '@/lib/usage';
+
+// Token, latency and cost totals per day and per user, for admins: ?from=&to=&format=json|csv&groupBy=day|user
+// (groupBy picks the CSV table; JSON has both).
+export async function GET(request: Request) {
+  const supabase = createSupabaseServerClient();
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to view usage.' }, { status: 401 });
+    }
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden: Only admins can view usage.' }, { status: 403 });
+    }
+
+    const params = new URL(request.url).searchParams;
+    const parsed = parseUsageRange(params);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const format = params.get('format') ?? 'json';
+    const groupBy = params.get('groupBy') ?? 'day';
+    if ((format !== 'json' && format !== 'csv') || (groupBy !== 'day' && groupBy !== 'user')) {
+      return NextResponse.json({ error: 'format must be json or csv and groupBy day or user.' }, { status: 400 });
+    }
+
+    const summary = await loadUsageSummary(createSupabaseAdminClient(), parsed.range);
+
+    if (format === 'json') {
+      return NextResponse.json(summary);
+    }
+    const filename = `usage-by-${groupBy}-${summary.range.from.slice(0, 10)}-${summary.range.to.slice(0, 10)}.csv`;
+    return new Response(usageCsv(summary, groupBy as UsageGrouping), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in usage route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
@@ -0,0 +1,78 @@
+// src/app/api/admin/users/[id]/suspension/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/admin';
+import { isAdmin, isSuspended } from '@/lib/admin';
+import { setUserSuspended } from '@/lib/admin-users';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Suspends a user: they are signed out when their session next refreshes and can't chat, upload or import meanwhile.
+// Admins can't be suspended (remove their role first), and nobody can suspend themselves.
+export async function POST(_request: Request, { params }: RouteContext) {
+  const supabase = createSupabaseServerClient();
+  const { id } = await params;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to suspend users.' }, { status: 401 });
+    }
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden: Only admins can suspend users.' }, { status: 403 });
+    }
+    if (id === user.id) {
+      return NextResponse.json({ error: 'You cannot suspend yourself.' }, { status: 400 });
+    }
+
+    const admin = createSupabaseAdminClient();
+    const { data: { user: target } } = await admin.auth.admin.getUserById(id);
+    if (!target) {
+      return NextResponse.json({ error: 'User not found.' }, { status: 404 });
+    }
+    if (isAdmin(target)) {
+      return NextResponse.json({ error: 'Admins cannot be suspended. Remove their admin role first.' }, { status: 400 });
+    }
+    if (isSuspended(target)) {
+      return NextResponse.json({ id, suspendedAt: target.app_metadata.suspended_at });
+    }
+
+    const suspended = await setUserSuspended(admin, id, true, user.id);
+    return NextResponse.json({ id, suspendedAt: suspended.app_metadata.suspended_at });
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in suspension route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
+
+// Lifts a suspension; the user can sign in again straight away.
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const supabase = createSupabaseServerClient();
+  const { id } = await params;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to reinstate users.' }, { status: 401 });
+    }
+    if (!isAdmin(user)) {
+      return NextResponse.json({ error: 'Forbidden: Only admins can reinstate users.' }, { status: 403 });
+    }
+
+    const admin = createSupabaseAdminClient();
+    const { data: { user: target } } = await admin.auth.admin.getUserById(id);
+    if (!target) {
+      return NextResponse.json({ error: 'User not found.' }, { status: 404 });
+    }
+
+    await setUserSuspended(admin, id, false, user.id);
+    return new NextResponse(null, { status: 204 });
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in suspension route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
@@ -0,0 +1,90 @@
+// src/app/api/chat-history/[id]/feedback/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { validateFeedbackInput, FEEDBACK_COLUMNS } from '@/lib/feedback';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Rate an answer ({ rating: 'up' | 'down', reasons?, comment? }). Rating it again replaces the earlier feedback.
+export async function POST(request: Request, { params }: RouteContext) {
+  const supabase = createSupabaseServerClient();
+  const { id } = await params;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to rate an answer.' }, { status: 401 });
+    }
+
+    const result = validateFeedbackInput(await request.json().catch(() => null));
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const { data: turn, error: turnError } = await supabase
+      .from('chat_messages')
+      .select('id')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle();
+    if (turnError) {
+      console.error('Error loading rated message:', turnError);
+      return NextResponse.json({ error: 'Failed to save feedback. ' + turnError.message }, { status: 500 });
+    }
+    if (!turn) {
+      return NextResponse.json({ error: 'Message not found.' }, { status: 404 });
+    }
+
+    const { data: feedback, error: dbError } = await supabase
+      .from('chat_feedback')
+      .upsert(
+        { chat_message_id: id, user_id: user.id, ...result.feedback, updated_at: new Date().toISOString() },
+        { onConflict: 'chat_message_id' },
+      )
+      .select(FEEDBACK_COLUMNS)
+      .single();
+
+    if (dbError) {
+      console.error('Error saving feedback:', dbError);
+      return NextResponse.json({ error: 'Failed to save feedback. ' + dbError.message }, { status: 500 });
+    }
+
+    return NextResponse.json(feedback);
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in feedback route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
+
+// Withdraw the rating of an answer.
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const supabase = createSupabaseServerClient();
+  const { id } = await params;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to remove feedback.' }, { status: 401 });
+    }
+
+    const { error: dbError } = await supabase
+      .from('chat_feedback')
+      .delete()
+      .eq('chat_message_id', id)
+      .eq('user_id', user.id);
+
+    if (dbError) {
+      console.error('Error removing feedback:', dbError);
+      return NextResponse.json({ error: 'Failed to remove feedback. ' + dbError.message }, { status: 500 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in feedback route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
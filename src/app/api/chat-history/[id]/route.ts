@@ -0,0 +1,36 @@
+// src/app/api/chat-history/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Delete one exchange (a question and its answer). Later turns in its branch move up to follow the turn before it;
+// the exchange is hidden at once and purged after the retention window.
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const supabase = createSupabaseServerClient();
+  const { id } = await params;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to delete a message.' }, { status: 401 });
+    }
+
+    const { data: deleted, error: dbError } = await supabase.rpc('soft_delete_chat_message', { target_id: id });
+
+    if (dbError) {
+      console.error('Error deleting chat message:', dbError);
+      return NextResponse.json({ error: 'Failed to delete message. ' + dbError.message }, { status: 500 });
+    }
+    if (!deleted) {
+      return NextResponse.json({ error: 'Message not found.' }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in chat message route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
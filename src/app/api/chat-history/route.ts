@@ -1,7 +1,26 @@
 // src/app/api/chat-history/route.ts
 import { NextResponse } from 'next/server';
 import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { loadConversationTree, loadTurns, activeLeaf, pathTo, siblingIds, type ConversationTree } from '@/lib/chat-branches';
+import { loadTurnFeedback } from '@/lib/feedback';
 
+const HISTORY_COLUMNS = 'id, created_at, user_query, bot_response, pdf_context_used, citations';
+
+// Turns per page; override with CHAT_HISTORY_PAGE_SIZE. A request can ask for up to MAX_HISTORY_PAGE_SIZE.
+const HISTORY_PAGE_SIZE = Number(process.env.CHAT_HISTORY_PAGE_SIZE) || 30;
+const MAX_HISTORY_PAGE_SIZE = 100;
+
+type HistoryRow = {
+  id: string;
+  created_at: string;
+  user_query: string;
+  bot_response: string | null;
+  pdf_context_used: boolean;
+  citations: unknown[] | null;
+};
+
+// Pages backwards from the newest turn: ?before=<turnId>&limit= returns the `limit` turns preceding that turn, oldest
+// first, and `nextBefore` is the cursor for the page before those (null once the first turn has been returned).
 export async function GET(request: Request) {
   const supabase = createSupabaseServerClient();
 
@@ -12,40 +31,102 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: 'Unauthorized: You must be logged in to view chat history.' }, { status: 401 });
     }
 
-    const { data: chatMessages, error: dbError } = await supabase
-      .from('chat_messages')
-      .select('id, created_at, user_query, bot_response, pdf_context_used') // Select specific columns
-      .eq('user_id', user.id)
-      .order('created_at', { ascending: true }); // Get messages in chronological order
-
-    if (dbError) {
-      console.error('Error fetching chat history:', dbError);
-      return NextResponse.json({ error: 'Failed to fetch chat history. ' + dbError.message }, { status: 500 });
+    // Optional ?conversationId= narrows the history to a single thread
+    const searchParams = new URL(request.url).searchParams;
+    const conversationId = searchParams.get('conversationId');
+    const before = searchParams.get('before');
+    const limit = searchParams.has('limit') ? Number(searchParams.get('limit')) : HISTORY_PAGE_SIZE;
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_PAGE_SIZE) {
+      return NextResponse.json({ error: `limit must be an integer between 1 and ${MAX_HISTORY_PAGE_SIZE}.` }, { status: 400 });
     }
 
-    // Transform data slightly for frontend consumption if needed, e.g., consistent message structure
-    const history = chatMessages.map(msg => ([
-      {
-        id: `${msg.id}-user`,
-        text: msg.user_query,
-        sender: 'user' as 'user' | 'bot', // Type assertion
-        timestamp: msg.created_at,
-      },
-      {
-        id: `${msg.id}-bot`,
-        text: msg.bot_response,
-        sender: 'bot' as 'user' | 'bot', // Type assertion
-        pdfContextUsed: msg.pdf_context_used,
-        timestamp: msg.created_at, // Bot response is part of the same interaction
+    let chatMessages: HistoryRow[];
+    let nextBefore: string | null;
+    let tree: ConversationTree | null = null;
+    if (conversationId) {
+      // A thread's history is the branch being shown; its alternatives are listed per turn as siblingIds
+      const { data: conversation, error: conversationError } = await supabase
+        .from('conversations')
+        .select('id, current_message_id')
+        .eq('id', conversationId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      if (conversationError) {
+        console.error('Error fetching conversation:', conversationError);
+        return NextResponse.json({ error: 'Failed to fetch chat history. ' + conversationError.message }, { status: 500 });
+      }
+      if (!conversation) {
+        return NextResponse.json({ error: 'Conversation not found.' }, { status: 404 });
+      }
+      tree = await loadConversationTree(supabase, conversation.id);
+      const path = pathTo(tree, activeLeaf(tree, conversation.current_message_id));
+      const end = before ? path.indexOf(before) : path.length;
+      if (end < 0) {
+        return NextResponse.json({ error: 'before must be a turn on the branch being shown.' }, { status: 400 });
       }
-    ])).flat(); // Flatten the array of pairs into a single array of messages
+      const start = Math.max(0, end - limit);
+      chatMessages = await loadTurns<HistoryRow>(supabase, path.slice(start, end), HISTORY_COLUMNS);
+      nextBefore = start > 0 ? path[start] : null;
+    } else {
+      let historyQuery = supabase
+        .from('chat_messages')
+        .select(HISTORY_COLUMNS) // Select specific columns
+        .eq('user_id', user.id);
+      if (before) {
+        const { data: cursor, error: cursorError } = await supabase
+          .from('chat_messages')
+          .select('id, created_at')
+          .eq('id', before)
+          .eq('user_id', user.id)
+          .maybeSingle();
+        if (cursorError || !cursor) {
+          return NextResponse.json({ error: 'before must be one of your turn ids.' }, { status: 400 });
+        }
+        // (created_at, id) is unique, so turns sent in the same instant are neither skipped nor repeated
+        historyQuery = historyQuery.or(`created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`);
+      }
+
+      const { data, error: dbError } = await historyQuery
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(limit + 1); // One extra tells whether there is an older page
+
+      if (dbError) {
+        console.error('Error fetching chat history:', dbError);
+        return NextResponse.json({ error: 'Failed to fetch chat history. ' + dbError.message }, { status: 500 });
+      }
+      chatMessages = data.slice(0, limit).reverse(); // Get messages in chronological order
+      nextBefore = data.length > limit ? chatMessages[0].id : null;
+    }
 
+    const feedback = await loadTurnFeedback(supabase, chatMessages.map(msg => msg.id));
 
-    // Simpler alternative if you don't want to split user/bot into separate objects from one row:
-    // Just return chatMessages and let the frontend map them.
-    // For this example, let's return the transformed 'history' which fits the Message interface better.
+    // Transform data slightly for frontend consumption if needed, e.g., consistent message structure
+    // Both halves of a turn carry its id (for regenerate / edit) and its alternatives, oldest first (for "2/3")
+    const history = chatMessages.map(msg => {
+      const branch = { turnId: msg.id, siblingIds: tree ? siblingIds(tree, msg.id) : [msg.id] };
+      return [
+        {
+          id: `${msg.id}-user`,
+          text: msg.user_query,
+          sender: 'user' as 'user' | 'bot', // Type assertion
+          timestamp: msg.created_at,
+          ...branch,
+        },
+        {
+          id: `${msg.id}-bot`,
+          text: msg.bot_response,
+          sender: 'bot' as 'user' | 'bot', // Type assertion
+          pdfContextUsed: msg.pdf_context_used,
+          citations: msg.citations ?? [],
+          feedback: feedback.get(msg.id) ?? null,
+          timestamp: msg.created_at, // Bot response is part of the same interaction
+          ...branch,
+        }
+      ];
+    }).flat(); // Flatten the array of pairs into a single array of messages
 
-    return NextResponse.json(history); // Or return chatMessages directly if preferred
+    return NextResponse.json({ messages: history, nextBefore });
 
   } catch (error: any) {
     console.error('Unexpected error in chat-history route:', error);
@@ -0,0 +1,73 @@
+// src/app/api/chat-search/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { parseSearchParams, searchTerms, highlightSnippet, type ChatSearchHit } from '@/lib/chat-search';
+
+type SearchRow = {
+  id: string;
+  created_at: string;
+  user_query: string;
+  bot_response: string | null;
+  pdf_context_used: boolean;
+  conversation: { id: string; title: string | null } | null;
+};
+
+// Full-text search over the user's questions and answers, newest first, with optional filters:
+// ?q=&from=&to=&conversationId=&pdfContext=true|false&documentId=&page=&pageSize=
+export async function GET(request: Request) {
+  const supabase = createSupabaseServerClient();
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to search chat history.' }, { status: 401 });
+    }
+
+    const parsed = parseSearchParams(new URL(request.url).searchParams);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { filters } = parsed;
+
+    let searchQuery = supabase
+      .from('chat_messages')
+      .select('id, created_at, user_query, bot_response, pdf_context_used, conversation:conversations(id, title)', { count: 'exact' })
+      .eq('user_id', user.id)
+      .textSearch('search_vector', filters.query, { type: 'websearch', config: 'english' });
+    if (filters.from) searchQuery = searchQuery.gte('created_at', filters.from);
+    if (filters.to) searchQuery = searchQuery.lte('created_at', filters.to);
+    if (filters.conversationId) searchQuery = searchQuery.eq('conversation_id', filters.conversationId);
+    if (filters.pdfContextUsed !== null) searchQuery = searchQuery.eq('pdf_context_used', filters.pdfContextUsed);
+    if (filters.documentId) searchQuery = searchQuery.contains('document_ids', [filters.documentId]);
+
+    const offset = (filters.page - 1) * filters.pageSize;
+    const { data, count, error: dbError } = await searchQuery
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false }) // Stable pages when timestamps tie
+      .range(offset, offset + filters.pageSize - 1);
+
+    if (dbError) {
+      console.error('Error searching chat history:', dbError);
+      return NextResponse.json({ error: 'Failed to search chat history. ' + dbError.message }, { status: 500 });
+    }
+
+    const terms = searchTerms(filters.query);
+    // Without generated DB types the embedded conversation can't be inferred
+    const results: ChatSearchHit[] = (data as unknown as SearchRow[]).map(row => ({
+      turnId: row.id,
+      conversationId: row.conversation?.id ?? null,
+      conversationTitle: row.conversation?.title ?? null,
+      createdAt: row.created_at,
+      pdfContextUsed: row.pdf_context_used,
+      query: highlightSnippet(row.user_query, terms),
+      reply: highlightSnippet(row.bot_response ?? '', terms),
+    }));
+
+    return NextResponse.json({ results, page: filters.page, pageSize: filters.pageSize, total: count ?? results.length });
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in chat-search route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
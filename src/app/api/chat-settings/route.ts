@@ -0,0 +1,23 @@
+// src/app/api/chat-settings/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { getChatSettingsOptions } from '@/lib/llm/settings';
+
+// The model allow-list, setting bounds and defaults, for the chatbot's settings panel.
+export async function GET() {
+  const supabase = createSupabaseServerClient();
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to view chat settings.' }, { status: 401 });
+    }
+
+    return NextResponse.json(getChatSettingsOptions());
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in chat settings route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
@@ -1,41 +1,154 @@
 // src/app/api/chat/route.ts
 import { NextResponse } from 'next/server';
-import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold, BlockReason, FinishReason } from '@google/generative-ai';
 import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { encodeChatStreamEvent, type ChatStreamEvent } from '@/lib/chat-stream';
+import { buildConversationHistory } from '@/lib/conversation-memory';
+import { loadConversationTree, activeLeaf } from '@/lib/chat-branches';
+import {
+  resolveConversation, touchConversation, setConversationDocuments, generateConversationTitle,
+  MAX_CONVERSATION_DOCUMENTS, type Conversation,
+} from '@/lib/conversations';
+import { loadDocument, loadDocumentPages, type StoredDocument } from '@/lib/documents';
+import { CITATION_INSTRUCTIONS, extractCitations, pagesCoveredBy, type Citation } from '@/lib/citations';
+import { documentUnit } from '@/lib/extractors/formats';
+import { retrieveDocumentChunks, formatChunksForPrompt, type RetrievalRecord } from '@/lib/retrieval';
+import { enforceRateLimits, recordTokenUsage } from '@/lib/rate-limit';
+import { resolvePersona, DEFAULT_PERSONA_ID } from '@/lib/personas';
+import type { GenerationRecord } from '@/lib/feedback';
+import { turnUsageColumns } from '@/lib/usage';
+import { safetyBlockKind, recordSafetyEvent } from '@/lib/moderation';
+import { isSuspended, ACCOUNT_SUSPENDED_MESSAGE } from '@/lib/admin';
+import {
+  getLlmProvider, validateChatSettings, resolveStoredChatSettings, isWithheld, describeEmptyResponse,
+  type ChatSettings, type LlmProvider, type LlmRequest, type LlmResult,
+} from '@/lib/llm';
+
+type ExchangeContext = {
+  supabase: ReturnType<typeof createSupabaseServerClient>;
+  llm: LlmProvider;
+  llmRequest: LlmRequest;
+  userId: string;
+  conversation: Conversation;
+  query: string;
+  wasPdfContextUsed: boolean;
+  documents: StoredDocument[];
+  retrieval: RetrievalRecord | null;
+  generation: GenerationRecord; // Saved on the turn so rated answers can be traced to their prompt and settings
+  startedAt: number; // When generation started, for the turn's latency
+  requestedSettings: ChatSettings | null; // Saved on the conversation along with the exchange
+  requestedPersonaId: string | null | undefined; // Likewise; undefined leaves the conversation's persona as it is
+  parentTurnId: string | null; // The turn this one follows; null starts the conversation (or a sibling of its first turn)
+};
 
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
-
-if (!GEMINI_API_KEY) {
-  // This will cause a build error or runtime error if not set, which is good.
-  // Consider a more graceful startup check in a real app.
-  console.error("CRITICAL: Gemini API key is not defined.");
-  // For a serverless function, throwing an error here might be okay during init.
-  // Or, return an error response if this check is done per-request (less ideal).
+// Validates the reply's [Document, p. N] markers against the documents and pages the model was actually shown.
+async function resolveCitations({ supabase, documents, retrieval }: ExchangeContext, replyText: string): Promise<Citation[]> {
+  if (documents.length === 0 || !retrieval || !/(?:pp?|pages?|sections?|sec|§)\.?\s*\d[^\[\]]*\]/i.test(replyText)) return [];
+  try {
+    const citableDocuments = [];
+    for (const document of documents) {
+      const shownChunks = retrieval.chunks.filter(chunk => chunk.document_id === document.id);
+      if (shownChunks.length === 0) continue;
+      const pages = await loadDocumentPages(supabase, document);
+      citableDocuments.push({
+        id: document.id,
+        name: document.name,
+        unit: documentUnit(document.mime_type),
+        pages,
+        citablePages: pagesCoveredBy(shownChunks),
+      });
+    }
+    return extractCitations(replyText, citableDocuments);
+  } catch (error) {
+    console.error('Error resolving citations:', error);
+    return [];
+  }
 }
 
-const genAI = new GoogleGenerativeAI(GEMINI_API_KEY!); // Added '!' assuming it will be checked/present
+// Safety blocks go to the admins' moderation log; withheld replies aren't saved as turns.
+async function logSafetyBlock({ supabase, userId, conversation, query, generation }: ExchangeContext, result: LlmResult) {
+  const kind = safetyBlockKind(result);
+  if (kind) {
+    await recordSafetyEvent(supabase, { userId, conversationId: conversation.id, prompt: query, model: generation.settings.model, kind, result });
+  }
+}
 
-const generationConfig = {
-    temperature: 0.7,
-    topK: 1,
-    topP: 1,
-    maxOutputTokens: 2048, // For gemini-pro, up to 8192 for gemini-1.5-flash
-};
+// Stores one question/answer pair, keeps the conversation row (title, documents, updated_at) in step and counts
+// the tokens against the user's daily quota. Returns the validated citations and the new turn's id (null if it couldn't
+// be saved) so they can be sent along with the reply.
+async function saveExchange(exchange: ExchangeContext, replyText: string, result?: LlmResult): Promise<{ citations: Citation[]; turnId: string | null }> {
+  const { supabase, llm, llmRequest, userId, conversation, query, wasPdfContextUsed, documents, retrieval, generation, startedAt, requestedSettings, requestedPersonaId, parentTurnId } = exchange;
+  // Providers report usage on complete replies; a stopped stream has none, so it is estimated
+  const usage = turnUsageColumns({
+    model: generation.settings.model,
+    llmRequest,
+    replyText,
+    result,
+    latencyMs: Date.now() - startedAt,
+    retrievalUsed: retrieval !== null,
+  });
+  const citations = await resolveCitations(exchange, replyText);
+
+  const { data: savedTurn, error: dbError } = await supabase
+    .from('chat_messages')
+    .insert({
+      user_id: userId,
+      conversation_id: conversation.id,
+      parent_id: parentTurnId,
+      user_query: query,
+      bot_response: replyText,
+      pdf_context_used: wasPdfContextUsed,
+      document_ids: documents.map(document => document.id),
+      retrieval,
+      generation,
+      citations,
+      ...usage,
+    })
+    .select('id')
+    .single();
+
+  if (dbError) {
+    console.error('Supabase DB Error saving chat message:', dbError);
+    // Continue to return response to user even if DB save fails
+  }
+  // The reply has been generated either way, so a quota store outage mustn't fail the turn
+  try {
+    await recordTokenUsage(userId, result?.usage?.totalTokens ?? usage.prompt_tokens + usage.output_tokens);
+  } catch (error) {
+    console.error('Error recording token usage:', error);
+  }
 
-const safetySettings = [
-    { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-    { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-    { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-    { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
-];
+  const changes: { title?: string; settings?: ChatSettings; persona_id?: string | null; current_message_id?: string } = {};
+  if (!conversation.title && replyText) {
+    changes.title = await generateConversationTitle(llm, query, replyText);
+  }
+  // The thread remembers whichever documents it was last used with
+  const documentIds = documents.map(document => document.id).sort();
+  const attachedIds = conversation.documents.map(document => document.id).sort();
+  if (documentIds.join(',') !== attachedIds.join(',')) {
+    await setConversationDocuments(supabase, userId, conversation.id, documentIds);
+  }
+  if (requestedSettings) {
+    changes.settings = requestedSettings;
+  }
+  if (requestedPersonaId !== undefined) {
+    changes.persona_id = requestedPersonaId === DEFAULT_PERSONA_ID ? null : requestedPersonaId;
+  }
+  if (savedTurn) {
+    changes.current_message_id = savedTurn.id; // The new turn is now the branch being shown
+  }
+  await touchConversation(supabase, conversation.id, changes);
+  return { citations, turnId: savedTurn?.id ?? null };
+}
 
 export async function POST(request: Request) {
   const supabase = createSupabaseServerClient();
   let userIdForDb: string | null = null;
+  let conversationIdForDb: string | null = null;
+  let parentTurnIdForDb: string | null = null;
   let originalUserQuery: string = "User query not available"; // For error logging
 
-  if (!GEMINI_API_KEY) {
-    console.error('/api/chat: Gemini API key is missing.');
+  if (!getLlmProvider()) {
+    console.error('/api/chat: LLM provider is not configured.');
     return NextResponse.json({ error: 'API configuration error. Please contact support.' }, { status: 500 });
   }
 
@@ -45,34 +158,104 @@ export async function POST(request: Request) {
     if (!user) {
       return NextResponse.json({ error: 'Unauthorized: You must be logged in to chat.' }, { status: 401 });
     }
+    if (isSuspended(user)) {
+      return NextResponse.json({ error: ACCOUNT_SUSPENDED_MESSAGE, code: 'ACCOUNT_SUSPENDED' }, { status: 403 });
+    }
     userIdForDb = user.id;
 
     const body = await request.json();
-    const { query, pdfText } = body;
+    const { query, documentIds, conversationId, stream, settings, personaId, branchFromId } = body;
     originalUserQuery = query || "User query not available in body";
 
 
     if (!query || typeof query !== 'string' || query.trim() === "") {
       return NextResponse.json({ error: 'Query is required and must be a non-empty string.' }, { status: 400 });
     }
+    if (documentIds !== undefined && documentIds !== null
+        && (!Array.isArray(documentIds) || documentIds.some((id: unknown) => typeof id !== 'string'))) {
+      return NextResponse.json({ error: 'documentIds must be an array of document ids.' }, { status: 400 });
+    }
+    const requestedDocumentIds: string[] = Array.from(new Set(documentIds ?? []));
+    if (requestedDocumentIds.length > MAX_CONVERSATION_DOCUMENTS) {
+      return NextResponse.json({ error: `You can chat with at most ${MAX_CONVERSATION_DOCUMENTS} documents at once.` }, { status: 400 });
+    }
+    if (personaId !== undefined && personaId !== null && typeof personaId !== 'string') {
+      return NextResponse.json({ error: 'personaId must be a persona id or null.' }, { status: 400 });
+    }
+    if (branchFromId !== undefined && branchFromId !== null && (typeof branchFromId !== 'string' || !conversationId)) {
+      return NextResponse.json({ error: 'branchFromId must be a turn id of the given conversation.' }, { status: 400 });
+    }
+    // Settings sent with the message apply from now on; otherwise the conversation's saved ones are used.
+    let requestedSettings: ChatSettings | null = null;
+    if (settings !== undefined && settings !== null) {
+      const result = validateChatSettings(settings);
+      if ('error' in result) {
+        return NextResponse.json({ error: result.error }, { status: 400 });
+      }
+      requestedSettings = result.settings;
+    }
+
+    // Burst limits and the daily quotas; a refused request gets a 429 with Retry-After
+    const rateLimited = await enforceRateLimits(request, userIdForDb, { dailyQuota: true });
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    // No conversationId starts a new thread; its title is generated after the first exchange.
+    const conversation = await resolveConversation(supabase, userIdForDb, conversationId);
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found.' }, { status: 404 });
+    }
+    conversationIdForDb = conversation.id;
+
+    // A new turn follows the branch being shown. Regenerating or editing turn T (branchFromId) instead adds a
+    // sibling of T: an alternative answer that follows the same earlier turns.
+    const tree = await loadConversationTree(supabase, conversation.id);
+    let parentTurnId = activeLeaf(tree, conversation.current_message_id);
+    if (branchFromId) {
+      const branchFrom = tree.byId.get(branchFromId);
+      if (!branchFrom) {
+        return NextResponse.json({ error: 'Turn not found.' }, { status: 404 });
+      }
+      parentTurnId = branchFrom.parent_id;
+    }
+    parentTurnIdForDb = parentTurnId;
+
+    // The persona supplies the system instruction and, unless the conversation has its own, the model settings.
+    const requestedPersonaId: string | null | undefined = personaId;
+    const persona = await resolvePersona(supabase, userIdForDb, requestedPersonaId !== undefined ? requestedPersonaId : conversation.persona_id);
+    if (!persona) {
+      return NextResponse.json({ error: 'Persona not found.' }, { status: 404 });
+    }
 
-    const wasPdfContextUsed = pdfText && typeof pdfText === 'string' && pdfText.trim() !== "";
+    // Only the excerpts relevant to this question are sent, rather than a truncated copy of the whole document.
+    let documentExcerpts: string | null = null;
+    let retrieval: RetrievalRecord | null = null;
+    const documents: StoredDocument[] = [];
+    for (const documentId of requestedDocumentIds) {
+      const document = await loadDocument(supabase, userIdForDb, documentId);
+      if (!document) {
+        return NextResponse.json({ error: 'Document not found.' }, { status: 404 });
+      }
+      documents.push(document);
+    }
+    if (documents.length > 0) {
+      const retrieved = await retrieveDocumentChunks(supabase, userIdForDb, documents, query);
+      documentExcerpts = formatChunksForPrompt(retrieved.chunks);
+      retrieval = retrieved.record;
+    }
+
+    const wasPdfContextUsed = !!documentExcerpts;
     let fullPrompt = "";
 
     if (wasPdfContextUsed) {
-      const MAX_PDF_TEXT_LENGTH = 70000; // Roughly 15k-17k tokens
-      const truncatedPdfText = pdfText.length > MAX_PDF_TEXT_LENGTH
-        ? pdfText.substring(0, MAX_PDF_TEXT_LENGTH) + "\n[...PDF text truncated due to length...]"
-        : pdfText;
-
       fullPrompt = `
-        Based on the following document text, please answer the user's question.
-        If the answer is not found in the document, state that explicitly.
-        Do not make up information not present in the document if the question implies it should come from the document.
+        Based on the following excerpts from ${documents.length === 1 ? 'a document' : `${documents.length} documents (${documents.map(document => `"${document.name}"`).join(', ')})`}, please answer the user's question.
+        ${CITATION_INSTRUCTIONS}
 
-        Document Text:
+        Document Excerpts:
         ---
-        ${truncatedPdfText}
+        ${documentExcerpts}
         ---
 
         User Question: ${query}
@@ -83,69 +266,53 @@ export async function POST(request: Request) {
       fullPrompt = `User Question: ${query}\nAnswer:`;
     }
 
-    const model = genAI.getGenerativeModel({
-        model: "gemini-1.5-flash-latest", // Or "gemini-pro" / "gemini-1.0-pro"
-        generationConfig,
-        safetySettings,
-    });
-
-    const result = await model.generateContent(fullPrompt);
-
-    if (!result || !result.response) {
-        console.error("Gemini API did not return a response object. Full result:", JSON.stringify(result, null, 2));
-        return NextResponse.json({ error: "Gemini API communication error. No response object." }, { status: 500 });
+    const chatSettings = requestedSettings ?? resolveStoredChatSettings(conversation.settings ?? persona.settings);
+    const { model, ...generationSettings } = chatSettings;
+    const llm = getLlmProvider(model);
+    if (!llm) {
+      return NextResponse.json({ error: 'API configuration error. Please contact support.' }, { status: 500 });
     }
 
-    const response = result.response; // Alias for convenience
-    const responseText = response.text(); // Use the helper
-
-    if (!responseText) {
-        // If text is empty, check for block reasons
-        let blockReasonMessage = "Response generation failed or was blocked.";
-        let statusCode = 400; // Default to Bad Request for blocked content
-
-        const promptFeedback = response.promptFeedback;
-        if (promptFeedback?.blockReason === BlockReason.SAFETY) {
-            console.warn("Gemini: Response blocked due to SAFETY (promptFeedback). Ratings:", promptFeedback.safetyRatings);
-            blockReasonMessage = "Your query was blocked due to safety concerns. Please rephrase.";
-        } else if (promptFeedback?.blockReason) {
-            console.warn(`Gemini: Prompt processing issue. Reason: ${promptFeedback.blockReason}`);
-            blockReasonMessage = `There was an issue with the prompt. Reason: ${promptFeedback.blockReason}.`;
-        }
+    // Replay earlier turns of this branch so follow-up questions keep their context.
+    const history = await buildConversationHistory(supabase, llm, tree, parentTurnId);
+
+    const exchange: ExchangeContext = {
+      supabase,
+      llm,
+      llmRequest: { prompt: fullPrompt, history, systemInstruction: persona.system_instruction, settings: generationSettings },
+      userId: userIdForDb,
+      conversation,
+      query,
+      wasPdfContextUsed,
+      documents: retrieval ? documents : [],
+      retrieval,
+      generation: {
+        settings: chatSettings,
+        persona: { id: persona.id, name: persona.name, systemInstruction: persona.system_instruction },
+      },
+      startedAt: Date.now(),
+      requestedSettings,
+      requestedPersonaId,
+      parentTurnId,
+    };
+
+    if (stream === true) {
+      return streamChatReply({ request, exchange });
+    }
 
-        const firstCandidate = response.candidates?.[0];
-        if (firstCandidate?.finishReason === FinishReason.SAFETY) {
-            console.warn("Gemini: Response blocked due to SAFETY (candidate finishReason). Safety Ratings:", firstCandidate.safetyRatings);
-            blockReasonMessage = "The generated response was blocked due to safety concerns. Please try a different query.";
-        } else if (firstCandidate?.finishReason && firstCandidate.finishReason !== FinishReason.STOP) { // STOP is normal
-            console.warn(`Gemini: Response generation stopped. Reason: ${firstCandidate.finishReason}`);
-            blockReasonMessage = `Response generation incomplete. Reason: ${firstCandidate.finishReason}. Try a shorter query or PDF.`;
-        }
+    const result = await llm.generate(exchange.llmRequest);
+    const responseText = result.text;
 
-        if (blockReasonMessage === "Response generation failed or was blocked.") { // If no specific reason found
-            console.warn("Gemini API returned an empty text response. Full response object:", JSON.stringify(response, null, 2));
-            blockReasonMessage = "I received an empty response from the AI. Could you try rephrasing?";
-            statusCode = 500; // Potentially an internal AI error
-        }
-        return NextResponse.json({ error: blockReasonMessage }, { status: statusCode });
+    if (!responseText || isWithheld(result)) {
+        await logSafetyBlock(exchange, result);
+        const { message, status } = describeEmptyResponse(result);
+        return NextResponse.json({ error: message }, { status });
     }
 
     // Save to DB
-    const { error: dbError } = await supabase
-      .from('chat_messages')
-      .insert({
-        user_id: userIdForDb,
-        user_query: query,
-        bot_response: responseText,
-        pdf_context_used: wasPdfContextUsed,
-      });
-
-    if (dbError) {
-      console.error('Supabase DB Error saving chat message:', dbError);
-      // Continue to return response to user even if DB save fails
-    }
+    const { citations, turnId } = await saveExchange(exchange, responseText, result);
 
-    return NextResponse.json({ reply: responseText });
+    return NextResponse.json({ reply: responseText, conversationId: conversation.id, turnId, citations });
 
   } catch (error: any) {
     console.error('Error in /api/chat route:', error);
@@ -162,6 +329,8 @@ export async function POST(request: Request) {
             .from('chat_messages')
             .insert({
                 user_id: userIdForDb,
+                conversation_id: conversationIdForDb,
+                parent_id: parentTurnIdForDb,
                 user_query: originalUserQuery,
                 bot_response: `SYSTEM ERROR: ${errorMessage}`,
                 pdf_context_used: false, // Assuming PDF context wasn't the direct cause or unknown
@@ -174,4 +343,85 @@ export async function POST(request: Request) {
 
     return NextResponse.json({ error: errorMessage }, { status: statusCode });
   }
+}
+
+type StreamChatReplyParams = {
+  request: Request;
+  exchange: ExchangeContext;
+};
+
+// Streams the reply as server-sent events (see src/lib/chat-stream.ts).
+// Whatever text was generated is saved once the stream finishes or the client stops it. A reply stopped before any
+// text arrived (or whose text was withheld) isn't saved, so the stop doesn't leave an empty turn behind.
+async function streamChatReply({ request, exchange }: StreamChatReplyParams) {
+  let cancelled = false;
+  // Also stops the model's stream, so a stopped reply isn't read to the end
+  const stop = new AbortController();
+  const cancel = () => {
+    cancelled = true;
+    stop.abort();
+  };
+  request.signal.addEventListener('abort', cancel);
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        if (!cancelled) controller.enqueue(encodeChatStreamEvent(event));
+      };
+      let replyText = '';
+      let finish: LlmResult | null = null;
+      const saveReply = () => saveExchange(exchange, replyText, finish ?? undefined);
+      const saveStoppedReply = async () => {
+        if (replyText && !(finish && isWithheld(finish))) await saveReply();
+      };
+
+      try {
+        send({ type: 'meta', conversationId: exchange.conversation.id });
+
+        for await (const event of exchange.llm.stream({ ...exchange.llmRequest, signal: stop.signal })) {
+          if (cancelled) break;
+          if (event.type === 'finish') {
+            finish = event.result;
+          } else {
+            replyText += event.text;
+            send({ type: 'chunk', text: event.text });
+          }
+        }
+
+        if (cancelled) {
+          await saveStoppedReply();
+          return;
+        }
+
+        if (finish && isWithheld(finish)) {
+          // Safety blocks discard any partial text, matching the non-streaming path.
+          await logSafetyBlock(exchange, finish);
+          send({ type: 'error', error: describeEmptyResponse(finish).message });
+        } else if (!replyText) {
+          send({ type: 'error', error: describeEmptyResponse(finish).message });
+        } else {
+          const { citations, turnId } = await saveReply();
+          send({ type: 'done', finishReason: finish?.finishReason, turnId, citations });
+        }
+      } catch (error: unknown) {
+        console.error('Error streaming /api/chat reply:', error);
+        if (cancelled) {
+          await saveStoppedReply();
+        } else {
+          send({ type: 'error', error: error instanceof Error ? error.message : 'An unexpected error occurred while streaming the reply.' });
+        }
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel,
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
 }
\ No newline at end of file
@@ -0,0 +1,120 @@
+// src/app/api/conversations/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { CONVERSATION_COLUMNS, normaliseTitle } from '@/lib/conversations';
+import { validateChatSettings, type ChatSettings } from '@/lib/llm/settings';
+import { resolvePersona, DEFAULT_PERSONA_ID } from '@/lib/personas';
+import { loadConversationTree, latestLeaf } from '@/lib/chat-branches';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Rename a conversation and/or change its model settings (`settings: null` goes back to the defaults) or persona.
+// `activeTurnId` switches to the branch through that turn, showing its newest continuation.
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const supabase = createSupabaseServerClient();
+  const { id } = await params;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to update a conversation.' }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const changes: { title?: string; settings?: ChatSettings | null; persona_id?: string | null; current_message_id?: string } = {};
+    if (body?.title !== undefined) {
+      const title = normaliseTitle(body.title);
+      if (!title) {
+        return NextResponse.json({ error: 'Title must be a non-empty string.' }, { status: 400 });
+      }
+      changes.title = title;
+    }
+    if (body?.settings !== undefined) {
+      if (body.settings === null) {
+        changes.settings = null;
+      } else {
+        const result = validateChatSettings(body.settings);
+        if ('error' in result) {
+          return NextResponse.json({ error: result.error }, { status: 400 });
+        }
+        changes.settings = result.settings;
+      }
+    }
+    if (body?.personaId !== undefined) {
+      if (body.personaId !== null && typeof body.personaId !== 'string') {
+        return NextResponse.json({ error: 'personaId must be a persona id or null.' }, { status: 400 });
+      }
+      if (!(await resolvePersona(supabase, user.id, body.personaId))) {
+        return NextResponse.json({ error: 'Persona not found.' }, { status: 404 });
+      }
+      changes.persona_id = body.personaId === DEFAULT_PERSONA_ID ? null : body.personaId;
+    }
+    if (body?.activeTurnId !== undefined) {
+      if (typeof body.activeTurnId !== 'string') {
+        return NextResponse.json({ error: 'activeTurnId must be a turn id.' }, { status: 400 });
+      }
+      // RLS limits the turns to the user's own, so someone else's conversation has none
+      const tree = await loadConversationTree(supabase, id);
+      if (!tree.byId.has(body.activeTurnId)) {
+        return NextResponse.json({ error: 'Turn not found.' }, { status: 404 });
+      }
+      changes.current_message_id = latestLeaf(tree, body.activeTurnId);
+    }
+    if (Object.keys(changes).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update: send a title, settings, personaId and/or activeTurnId.' }, { status: 400 });
+    }
+
+    const { data: conversation, error: dbError } = await supabase
+      .from('conversations')
+      .update(changes)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select(CONVERSATION_COLUMNS)
+      .maybeSingle();
+
+    if (dbError) {
+      console.error('Error updating conversation:', dbError);
+      return NextResponse.json({ error: 'Failed to update conversation. ' + dbError.message }, { status: 500 });
+    }
+    if (!conversation) {
+      return NextResponse.json({ error: 'Conversation not found.' }, { status: 404 });
+    }
+
+    return NextResponse.json(conversation);
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in conversation route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
+
+// Delete a conversation and its messages. They are hidden at once and purged after the retention window.
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const supabase = createSupabaseServerClient();
+  const { id } = await params;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to delete a conversation.' }, { status: 401 });
+    }
+
+    const { data: deleted, error: dbError } = await supabase.rpc('soft_delete_conversation', { target_id: id });
+
+    if (dbError) {
+      console.error('Error deleting conversation:', dbError);
+      return NextResponse.json({ error: 'Failed to delete conversation. ' + dbError.message }, { status: 500 });
+    }
+    if (!deleted) {
+      return NextResponse.json({ error: 'Conversation not found.' }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in conversation route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
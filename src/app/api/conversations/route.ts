@@ -0,0 +1,66 @@
+// src/app/api/conversations/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { CONVERSATION_COLUMNS, normaliseTitle } from '@/lib/conversations';
+
+export async function GET() {
+  const supabase = createSupabaseServerClient();
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to view conversations.' }, { status: 401 });
+    }
+
+    const { data: conversations, error: dbError } = await supabase
+      .from('conversations')
+      .select(CONVERSATION_COLUMNS)
+      .eq('user_id', user.id)
+      .order('updated_at', { ascending: false }); // Most recently active first
+
+    if (dbError) {
+      console.error('Error fetching conversations:', dbError);
+      return NextResponse.json({ error: 'Failed to fetch conversations. ' + dbError.message }, { status: 500 });
+    }
+
+    return NextResponse.json(conversations);
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in conversations route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const supabase = createSupabaseServerClient();
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to create a conversation.' }, { status: 401 });
+    }
+
+    // Body is optional; a conversation without a title gets one after its first exchange.
+    const body = await request.json().catch(() => ({}));
+    const title = normaliseTitle(body?.title);
+
+    const { data: conversation, error: dbError } = await supabase
+      .from('conversations')
+      .insert({ user_id: user.id, title })
+      .select(CONVERSATION_COLUMNS)
+      .single();
+
+    if (dbError) {
+      console.error('Error creating conversation:', dbError);
+      return NextResponse.json({ error: 'Failed to create conversation. ' + dbError.message }, { status: 500 });
+    }
+
+    return NextResponse.json(conversation, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in conversations route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
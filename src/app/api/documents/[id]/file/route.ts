@@ -0,0 +1,46 @@
+// src/app/api/documents/[id]/file/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { DOCUMENTS_BUCKET, loadDocument } from '@/lib/documents';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Serves the original uploaded file (used by the in-app PDF viewer) from the private storage bucket.
+export async function GET(_request: Request, { params }: RouteContext) {
+  const supabase = createSupabaseServerClient();
+  const { id } = await params;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to view documents.' }, { status: 401 });
+    }
+
+    const document = await loadDocument(supabase, user.id, id);
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found.' }, { status: 404 });
+    }
+
+    const { data: file, error: storageError } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .download(document.storage_path);
+
+    if (storageError || !file) {
+      console.error('Supabase Storage error loading document file:', storageError);
+      return NextResponse.json({ error: 'Failed to load document file.' }, { status: 500 });
+    }
+
+    return new Response(file, {
+      headers: {
+        'Content-Type': file.type || 'application/pdf',
+        'Content-Disposition': `inline; filename="${encodeURIComponent(document.name)}"`,
+        'Cache-Control': 'private, max-age=3600',
+      },
+    });
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in document file route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
@@ -0,0 +1,192 @@
+// src/app/api/documents/route.ts
+import { NextResponse } from 'next/server';
+import { createHash } from 'crypto';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { DOCUMENTS_BUCKET, DOCUMENT_SUMMARY_COLUMNS, documentStoragePath } from '@/lib/documents';
+import {
+  DOCUMENT_FORMATS, SUPPORTED_FORMATS_DESCRIPTION, UPLOAD_ERROR_STATUS, UPLOAD_LIMITS,
+  UploadRejectedError, detectExtractor, extractInWorker, fileTooLargeError,
+} from '@/lib/extractors';
+import { indexDocumentChunks } from '@/lib/retrieval';
+import { enforceRateLimits } from '@/lib/rate-limit';
+import { workspaceRole } from '@/lib/workspaces';
+import { isSuspended, ACCOUNT_SUSPENDED_MESSAGE } from '@/lib/admin';
+
+// Lists the user's own documents ("My documents"), or with ?workspaceId= that workspace's library, newest first,
+// without their extracted text.
+export async function GET(request: Request) {
+  const supabase = createSupabaseServerClient();
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to view documents.' }, { status: 401 });
+    }
+
+    const workspaceId = new URL(request.url).searchParams.get('workspaceId');
+    if (workspaceId && !(await workspaceRole(supabase, user.id, workspaceId))) {
+      return NextResponse.json({ error: 'Workspace not found.' }, { status: 404 });
+    }
+
+    let query = supabase
+      .from('documents')
+      .select(DOCUMENT_SUMMARY_COLUMNS);
+    query = workspaceId
+      ? query.eq('workspace_id', workspaceId)
+      : query.eq('user_id', user.id).is('workspace_id', null);
+
+    const { data: documents, error: dbError } = await query.order('created_at', { ascending: false });
+
+    if (dbError) {
+      console.error('Error fetching documents:', dbError);
+      return NextResponse.json({ error: 'Failed to fetch documents. ' + dbError.message }, { status: 500 });
+    }
+
+    return NextResponse.json(documents);
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in documents route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
+
+
+// Multipart framing on top of the file itself
+const FORM_OVERHEAD_BYTES = 64 * 1024;
+
+function uploadErrorResponse(error: UploadRejectedError) {
+  return NextResponse.json({ error: error.message, code: error.code }, { status: UPLOAD_ERROR_STATUS[error.code] });
+}
+
+// Uploads a document in any supported format (see src/lib/extractors) as multipart form data in the `file` field,
+// into the user's own library or, with a `workspaceId` field, into that workspace's (owners and editors only).
+// Refused uploads get a `code` alongside the error message (see UploadErrorCode).
+export async function POST(request: Request) {
+  const supabase = createSupabaseServerClient();
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to upload documents.' }, { status: 401 });
+    }
+    if (isSuspended(user)) {
+      return NextResponse.json({ error: ACCOUNT_SUSPENDED_MESSAGE, code: 'ACCOUNT_SUSPENDED' }, { status: 403 });
+    }
+
+    const rateLimited = await enforceRateLimits(request, user.id);
+    if (rateLimited) {
+      return rateLimited;
+    }
+
+    // Reject oversized bodies before reading them
+    if (Number(request.headers.get('content-length')) > UPLOAD_LIMITS.maxBytes + FORM_OVERHEAD_BYTES) {
+      return uploadErrorResponse(fileTooLargeError());
+    }
+
+    const formData = await request.formData();
+    // `pdf` is the field name used before other formats were supported
+    const file = (formData.get('file') ?? formData.get('pdf')) as File | null;
+
+    // Validate file presence
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ error: 'No file provided.' }, { status: 400 });
+    }
+
+    const workspaceField = formData.get('workspaceId');
+    const libraryWorkspaceId = typeof workspaceField === 'string' && workspaceField ? workspaceField : null;
+    if (libraryWorkspaceId) {
+      const role = await workspaceRole(supabase, user.id, libraryWorkspaceId);
+      if (!role) {
+        return NextResponse.json({ error: 'Workspace not found.' }, { status: 404 });
+      }
+      if (role === 'viewer') {
+        return NextResponse.json({ error: 'Viewers cannot add documents to the workspace library.' }, { status: 403 });
+      }
+    }
+    if (file.size > UPLOAD_LIMITS.maxBytes) {
+      return uploadErrorResponse(fileTooLargeError());
+    }
+
+    // Convert File to Buffer
+    const arrayBuffer = await file.arrayBuffer();
+    const fileBuffer = Buffer.from(arrayBuffer);
+
+    // Pick the extractor from the file's own bytes first; the declared type and name are only hints
+    const extractor = detectExtractor(fileBuffer, file.type, file.name);
+    if (!extractor) {
+      return uploadErrorResponse(new UploadRejectedError('UNSUPPORTED_FILE_TYPE', `Unsupported file type. Upload a ${SUPPORTED_FORMATS_DESCRIPTION} file.`));
+    }
+    const mimeType = DOCUMENT_FORMATS[extractor.format].mimeType;
+    const fileHash = createHash('sha256').update(fileBuffer).digest('hex');
+
+    // Re-uploading a file already in the library returns the existing document instead of storing it twice;
+    // in a workspace that includes files other members added
+    let existingQuery = supabase
+      .from('documents')
+      .select(DOCUMENT_SUMMARY_COLUMNS)
+      .eq('file_hash', fileHash);
+    existingQuery = libraryWorkspaceId
+      ? existingQuery.eq('workspace_id', libraryWorkspaceId)
+      : existingQuery.eq('user_id', user.id).is('workspace_id', null);
+    const { data: existingDocument } = await existingQuery.maybeSingle();
+    if (existingDocument) {
+      return NextResponse.json({ document: existingDocument });
+    }
+
+    // Extract text in a worker thread, keeping pages (or sections) separate for chunking and citations
+    const data = await extractInWorker(fileBuffer, extractor.format);
+
+    // Keep the original file so it can be re-processed or downloaded later
+    const storagePath = documentStoragePath(user.id, fileHash);
+    const { error: storageError } = await supabase.storage
+      .from(DOCUMENTS_BUCKET)
+      .upload(storagePath, fileBuffer, { contentType: mimeType, upsert: true });
+
+    if (storageError) {
+      console.error('Supabase Storage error saving document:', storageError);
+      return NextResponse.json({ error: 'Failed to store document. ' + storageError.message }, { status: 500 });
+    }
+
+    const { data: document, error: dbError } = await supabase
+      .from('documents')
+      .insert({
+        user_id: user.id,
+        name: file.name,
+        mime_type: mimeType,
+        size_bytes: file.size,
+        page_count: data.pageCount,
+        file_hash: fileHash,
+        storage_path: storagePath,
+        text: data.text,
+        pages: data.pages,
+        metadata: data.metadata,
+        workspace_id: libraryWorkspaceId,
+      })
+      .select(DOCUMENT_SUMMARY_COLUMNS)
+      .single();
+
+    if (dbError) {
+      console.error('Supabase DB Error saving document:', dbError);
+      return NextResponse.json({ error: 'Failed to save document. ' + dbError.message }, { status: 500 });
+    }
+
+    // Split into page-aware chunks for retrieval. Failing here isn't fatal: chunks are rebuilt on first use.
+    try {
+      await indexDocumentChunks(supabase, user.id, document.id, data.pages);
+    } catch (indexError: unknown) {
+      console.error('Error indexing document chunks:', indexError);
+    }
+
+    // The extracted text stays server-side; chat requests refer to it by document id
+    return NextResponse.json({ document }, { status: 201 });
+
+  } catch (error: unknown) {
+    if (error instanceof UploadRejectedError) {
+      return uploadErrorResponse(error);
+    }
+    console.error('Unexpected error uploading document:', error);
+    return NextResponse.json({ error: 'Failed to upload document. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
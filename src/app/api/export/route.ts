@@ -0,0 +1,66 @@
+// src/app/api/export/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { collectChatArchive, parseExportParams, ExportTooLargeError, type ChatArchive, type ExportFormat } from '@/lib/archive';
+import { archiveToMarkdown } from '@/lib/archive/markdown';
+import { archiveToPdf } from '@/lib/archive/pdf';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  markdown: 'text/markdown; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = { markdown: 'md', json: 'json', pdf: 'pdf' };
+
+// "chat-budget-review-2026-10-19.pdf"; ASCII only, so it needs no encoding in the header
+function exportFilename(archive: ChatArchive, format: ExportFormat): string {
+  const title = archive.conversations.length === 1 ? archive.conversations[0].title : null;
+  const slug = (title ?? '').toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 50);
+  return `chat-${slug ? `${slug}-` : ''}${archive.exportedAt.slice(0, 10)}.${EXTENSIONS[format]}`;
+}
+
+// Downloads a conversation (the branch being shown) or a filtered selection of the user's history:
+// ?format=markdown|json|pdf&conversationId=&from=&to=&pdfContext=true|false&documentId=
+export async function GET(request: Request) {
+  const supabase = createSupabaseServerClient();
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to export chats.' }, { status: 401 });
+    }
+
+    const parsed = parseExportParams(new URL(request.url).searchParams);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const archive = await collectChatArchive(supabase, user.id, parsed.selection);
+    if (!archive) {
+      return NextResponse.json({ error: 'Conversation not found.' }, { status: 404 });
+    }
+
+    const body = parsed.format === 'pdf'
+      ? await archiveToPdf(archive)
+      : parsed.format === 'json'
+        ? JSON.stringify(archive, null, 2)
+        : archiveToMarkdown(archive);
+
+    return new Response(body, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[parsed.format],
+        'Content-Disposition': `attachment; filename="${exportFilename(archive, parsed.format)}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+
+  } catch (error: unknown) {
+    if (error instanceof ExportTooLargeError) {
+      return NextResponse.json({ error: error.message }, { status: 413 });
+    }
+    console.error('Unexpected error in export route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+// src/app/api/import/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { enforceRateLimits } from '@/lib/rate-limit';
+import { isSuspended, ACCOUNT_SUSPENDED_MESSAGE } from '@/lib/admin';
+import { importConversations, parseImport, MAX_IMPORT_BYTES } from '@/lib/archive/import';
+
+// Imports a gemini-chat-archive export or a generic [{ role, content, timestamp }] list (optionally wrapped as
+// { title, messages }) as the user's conversations. Responds with what was created or skipped, and the records
+// that were left out with the reason.
+export async function POST(request: Request) {
+  const supabase = createSupabaseServerClient();
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to import chats.' }, { status: 401 });
+    }
+    if (isSuspended(user)) {
+      return NextResponse.json({ error: ACCOUNT_SUSPENDED_MESSAGE, code: 'ACCOUNT_SUSPENDED' }, { status: 403 });
+    }
+
+    const rateLimited = await enforceRateLimits(request, user.id);
+    if (rateLimited) return rateLimited;
+
+    if (Number(request.headers.get('content-length')) > MAX_IMPORT_BYTES) {
+      return NextResponse.json({ error: `Import files must be at most ${MAX_IMPORT_BYTES / (1024 * 1024)} MB.` }, { status: 413 });
+    }
+
+    const parsed = parseImport(await request.json().catch(() => null));
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const summary = await importConversations(supabase, user.id, parsed);
+    return NextResponse.json(summary);
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in import route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
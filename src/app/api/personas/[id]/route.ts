@@ -0,0 +1,95 @@
+// src/app/api/personas/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { loadDocument } from '@/lib/documents';
+import { validatePersonaInput, DEFAULT_PERSONA_ID, PERSONA_COLUMNS, toPersona } from '@/lib/personas';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const supabase = createSupabaseServerClient();
+  const { id } = await params;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to update a persona.' }, { status: 401 });
+    }
+    if (id === DEFAULT_PERSONA_ID) {
+      return NextResponse.json({ error: 'The built-in persona cannot be changed.' }, { status: 400 });
+    }
+
+    const result = validatePersonaInput(await request.json().catch(() => null), { partial: true });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    const { changes } = result;
+    if (Object.keys(changes).length === 0) {
+      return NextResponse.json({ error: 'Nothing to update.' }, { status: 400 });
+    }
+    if (changes.default_document_id && !(await loadDocument(supabase, user.id, changes.default_document_id))) {
+      return NextResponse.json({ error: 'Document not found.' }, { status: 404 });
+    }
+
+    const { data: persona, error: dbError } = await supabase
+      .from('personas')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select(PERSONA_COLUMNS)
+      .maybeSingle();
+
+    if (dbError) {
+      console.error('Error updating persona:', dbError);
+      return NextResponse.json({ error: 'Failed to update persona. ' + dbError.message }, { status: 500 });
+    }
+    if (!persona) {
+      return NextResponse.json({ error: 'Persona not found.' }, { status: 404 });
+    }
+
+    return NextResponse.json(toPersona(persona));
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in persona route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
+
+// Conversations using a deleted persona fall back to the built-in one (persona_id is ON DELETE SET NULL).
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const supabase = createSupabaseServerClient();
+  const { id } = await params;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to delete a persona.' }, { status: 401 });
+    }
+    if (id === DEFAULT_PERSONA_ID) {
+      return NextResponse.json({ error: 'The built-in persona cannot be deleted.' }, { status: 400 });
+    }
+
+    const { data: deleted, error: dbError } = await supabase
+      .from('personas')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select('id');
+
+    if (dbError) {
+      console.error('Error deleting persona:', dbError);
+      return NextResponse.json({ error: 'Failed to delete persona. ' + dbError.message }, { status: 500 });
+    }
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json({ error: 'Persona not found.' }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in persona route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+// src/app/api/personas/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { loadDocument } from '@/lib/documents';
+import { listPersonas, validatePersonaInput, PERSONA_COLUMNS, toPersona } from '@/lib/personas';
+
+// The built-in default persona followed by the user's own, by name.
+export async function GET() {
+  const supabase = createSupabaseServerClient();
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to view personas.' }, { status: 401 });
+    }
+
+    return NextResponse.json(await listPersonas(supabase, user.id));
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in personas route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
+
+export async function POST(request: Request) {
+  const supabase = createSupabaseServerClient();
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to create a persona.' }, { status: 401 });
+    }
+
+    const result = validatePersonaInput(await request.json().catch(() => null), { partial: false });
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    const { changes } = result;
+    if (changes.default_document_id && !(await loadDocument(supabase, user.id, changes.default_document_id))) {
+      return NextResponse.json({ error: 'Document not found.' }, { status: 404 });
+    }
+
+    const { data: persona, error: dbError } = await supabase
+      .from('personas')
+      .insert({ ...changes, user_id: user.id })
+      .select(PERSONA_COLUMNS)
+      .single();
+
+    if (dbError) {
+      console.error('Error creating persona:', dbError);
+      return NextResponse.json({ error: 'Failed to create persona. ' + dbError.message }, { status: 500 });
+    }
+
+    return NextResponse.json(toPersona(persona), { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in personas route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
@@ -0,0 +1,23 @@
+// src/app/api/quota/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { getQuotaStatus } from '@/lib/rate-limit';
+
+// The signed-in user's daily message and token quotas, for display in the chat UI.
+export async function GET() {
+  const supabase = createSupabaseServerClient();
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to view your quota.' }, { status: 401 });
+    }
+
+    return NextResponse.json(await getQuotaStatus(user.id));
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in quota route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
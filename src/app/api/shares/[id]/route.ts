@@ -0,0 +1,43 @@
+// src/app/api/shares/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { SHARE_COLUMNS } from '@/lib/shares';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Revoke a share link. The row is kept, so the owner can still see which links existed.
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const supabase = createSupabaseServerClient();
+  const { id } = await params;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to revoke a share link.' }, { status: 401 });
+    }
+
+    const { data: share, error: dbError } = await supabase
+      .from('conversation_shares')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .is('revoked_at', null)
+      .select(SHARE_COLUMNS)
+      .maybeSingle();
+
+    if (dbError) {
+      console.error('Error revoking share link:', dbError);
+      return NextResponse.json({ error: 'Failed to revoke share link. ' + dbError.message }, { status: 500 });
+    }
+    if (!share) {
+      return NextResponse.json({ error: 'Share link not found or already revoked.' }, { status: 404 });
+    }
+
+    return NextResponse.json(share);
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in share route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
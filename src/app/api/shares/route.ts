@@ -0,0 +1,96 @@
+// src/app/api/shares/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { ExportTooLargeError } from '@/lib/archive';
+import { buildConversationSnapshot, generateShareToken, validateShareInput, SHARE_COLUMNS } from '@/lib/shares';
+
+// The share links of one of the user's conversations (?conversationId=), newest first, including revoked and
+// expired ones.
+export async function GET(request: Request) {
+  const supabase = createSupabaseServerClient();
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to view share links.' }, { status: 401 });
+    }
+
+    const conversationId = new URL(request.url).searchParams.get('conversationId');
+    if (!conversationId) {
+      return NextResponse.json({ error: 'conversationId is required.' }, { status: 400 });
+    }
+
+    const { data: shares, error: dbError } = await supabase
+      .from('conversation_shares')
+      .select(SHARE_COLUMNS)
+      .eq('user_id', user.id)
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: false });
+
+    if (dbError) {
+      console.error('Error loading share links:', dbError);
+      return NextResponse.json({ error: 'Failed to load share links. ' + dbError.message }, { status: 500 });
+    }
+
+    return NextResponse.json(shares);
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in shares route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
+
+// Publish a snapshot of the conversation as it is now: { conversationId, expiresInDays?, includeDocumentText? }.
+export async function POST(request: Request) {
+  const supabase = createSupabaseServerClient();
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to share a conversation.' }, { status: 401 });
+    }
+
+    const result = validateShareInput(await request.json().catch(() => null));
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    const { conversationId, expiresInDays, includeDocumentText } = result.input;
+
+    const snapshot = await buildConversationSnapshot(supabase, user.id, conversationId, { includeDocumentText });
+    if (!snapshot) {
+      return NextResponse.json({ error: 'Conversation not found.' }, { status: 404 });
+    }
+    if (snapshot.turns.length === 0) {
+      return NextResponse.json({ error: 'There is nothing to share in this conversation yet.' }, { status: 400 });
+    }
+
+    const { data: share, error: dbError } = await supabase
+      .from('conversation_shares')
+      .insert({
+        token: generateShareToken(),
+        conversation_id: conversationId,
+        user_id: user.id,
+        snapshot,
+        include_document_text: includeDocumentText,
+        expires_at: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString() : null,
+      })
+      .select(SHARE_COLUMNS)
+      .single();
+
+    if (dbError) {
+      console.error('Error creating share link:', dbError);
+      return NextResponse.json({ error: 'Failed to create share link. ' + dbError.message }, { status: 500 });
+    }
+
+    return NextResponse.json(share, { status: 201 });
+
+  } catch (error: unknown) {
+    if (error instanceof ExportTooLargeError) {
+      return NextResponse.json({ error: error.message }, { status: 413 });
+    }
+    console.error('Unexpected error in shares route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
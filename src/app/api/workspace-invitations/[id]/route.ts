@@ -0,0 +1,75 @@
+// src/app/api/workspace-invitations/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Accept an invitation sent to the signed-in user's email address, joining the workspace with the invited role.
+export async function POST(_request: Request, { params }: RouteContext) {
+  const supabase = createSupabaseServerClient();
+  const { id } = await params;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to accept an invitation.' }, { status: 401 });
+    }
+
+    // A function, so the membership is created and the invitation used up together
+    const { data: workspaceId, error: rpcError } = await supabase.rpc('accept_workspace_invitation', { invitation_id: id });
+
+    if (rpcError) {
+      console.error('Error accepting invitation:', rpcError);
+      return NextResponse.json({ error: 'Failed to accept invitation. ' + rpcError.message }, { status: 500 });
+    }
+    if (!workspaceId) {
+      return NextResponse.json({ error: 'Invitation not found or expired.' }, { status: 404 });
+    }
+
+    return NextResponse.json({ workspaceId });
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in workspace invitation route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
+
+// Decline an invitation sent to the signed-in user.
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const supabase = createSupabaseServerClient();
+  const { id } = await params;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to decline an invitation.' }, { status: 401 });
+    }
+    if (!user.email) {
+      return NextResponse.json({ error: 'Invitation not found.' }, { status: 404 });
+    }
+
+    const { data: declined, error: dbError } = await supabase
+      .from('workspace_invitations')
+      .delete()
+      .eq('id', id)
+      .eq('email', user.email.toLowerCase())
+      .is('accepted_at', null)
+      .select('id');
+
+    if (dbError) {
+      console.error('Error declining invitation:', dbError);
+      return NextResponse.json({ error: 'Failed to decline invitation. ' + dbError.message }, { status: 500 });
+    }
+    if (declined.length === 0) {
+      return NextResponse.json({ error: 'Invitation not found.' }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in workspace invitation route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
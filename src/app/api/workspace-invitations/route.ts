@@ -0,0 +1,45 @@
+// src/app/api/workspace-invitations/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { INVITATION_COLUMNS, type WorkspaceInvitation } from '@/lib/workspaces';
+
+type InvitationRow = Omit<WorkspaceInvitation, 'workspace_name'> & { workspaces: { name: string } | null };
+
+// Invitations waiting for the signed-in user, matched on their account's email address.
+export async function GET() {
+  const supabase = createSupabaseServerClient();
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to view your invitations.' }, { status: 401 });
+    }
+    if (!user.email) {
+      return NextResponse.json([]);
+    }
+
+    const { data, error: dbError } = await supabase
+      .from('workspace_invitations')
+      .select(`${INVITATION_COLUMNS}, workspaces(name)`)
+      .eq('email', user.email.toLowerCase())
+      .is('accepted_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+
+    if (dbError) {
+      console.error('Error fetching invitations:', dbError);
+      return NextResponse.json({ error: 'Failed to fetch invitations. ' + dbError.message }, { status: 500 });
+    }
+
+    const invitations: WorkspaceInvitation[] = (data as unknown as InvitationRow[]).map(({ workspaces, ...invitation }) => ({
+      ...invitation,
+      workspace_name: workspaces?.name,
+    }));
+    return NextResponse.json(invitations);
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in workspace invitations route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+// src/app/api/workspaces/[id]/invitations/[invitationId]/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { workspaceRole } from '@/lib/workspaces';
+
+type RouteContext = { params: Promise<{ id: string; invitationId: string }> };
+
+// Cancel a pending invitation; owners only.
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const supabase = createSupabaseServerClient();
+  const { id, invitationId } = await params;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to cancel an invitation.' }, { status: 401 });
+    }
+
+    const role = await workspaceRole(supabase, user.id, id);
+    if (!role) {
+      return NextResponse.json({ error: 'Workspace not found.' }, { status: 404 });
+    }
+    if (role !== 'owner') {
+      return NextResponse.json({ error: 'Only workspace owners can cancel invitations.' }, { status: 403 });
+    }
+
+    const { data: cancelled, error: dbError } = await supabase
+      .from('workspace_invitations')
+      .delete()
+      .eq('id', invitationId)
+      .eq('workspace_id', id)
+      .is('accepted_at', null)
+      .select('id');
+
+    if (dbError) {
+      console.error('Error cancelling invitation:', dbError);
+      return NextResponse.json({ error: 'Failed to cancel invitation. ' + dbError.message }, { status: 500 });
+    }
+    if (cancelled.length === 0) {
+      return NextResponse.json({ error: 'Invitation not found.' }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in workspace invitation route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
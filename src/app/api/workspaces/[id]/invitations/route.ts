@@ -0,0 +1,155 @@
+// src/app/api/workspaces/[id]/invitations/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { enforceRateLimits } from '@/lib/rate-limit';
+import { isSuspended, ACCOUNT_SUSPENDED_MESSAGE } from '@/lib/admin';
+import { siteUrl } from '@/lib/urls';
+import {
+  isWorkspaceRole,
+  normaliseEmail,
+  sendInvitationEmail,
+  workspaceRole,
+  type InvitationEmailResult,
+  INVITATION_COLUMNS,
+  INVITATION_EXPIRY_DAYS,
+} from '@/lib/workspaces';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// The workspace's pending invitations, newest first; owners only.
+export async function GET(_request: Request, { params }: RouteContext) {
+  const supabase = createSupabaseServerClient();
+  const { id } = await params;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to view invitations.' }, { status: 401 });
+    }
+
+    const role = await workspaceRole(supabase, user.id, id);
+    if (!role) {
+      return NextResponse.json({ error: 'Workspace not found.' }, { status: 404 });
+    }
+    if (role !== 'owner') {
+      return NextResponse.json({ error: 'Only workspace owners can view invitations.' }, { status: 403 });
+    }
+
+    const { data: invitations, error: dbError } = await supabase
+      .from('workspace_invitations')
+      .select(INVITATION_COLUMNS)
+      .eq('workspace_id', id)
+      .is('accepted_at', null)
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+
+    if (dbError) {
+      console.error('Error fetching invitations:', dbError);
+      return NextResponse.json({ error: 'Failed to fetch invitations. ' + dbError.message }, { status: 500 });
+    }
+
+    return NextResponse.json(invitations);
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in workspace invitations route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
+
+// Invite someone by email address ({ email, role }); owners only. Inviting an address again replaces its pending
+// invitation, renewing the expiry. The invitee accepts from the app once signed in with that address.
+export async function POST(request: Request, { params }: RouteContext) {
+  const supabase = createSupabaseServerClient();
+  const { id } = await params;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to invite workspace members.' }, { status: 401 });
+    }
+    if (isSuspended(user)) {
+      return NextResponse.json({ error: ACCOUNT_SUSPENDED_MESSAGE, code: 'ACCOUNT_SUSPENDED' }, { status: 403 });
+    }
+
+    const rateLimited = await enforceRateLimits(request, user.id);
+    if (rateLimited) return rateLimited;
+
+    const role = await workspaceRole(supabase, user.id, id);
+    if (!role) {
+      return NextResponse.json({ error: 'Workspace not found.' }, { status: 404 });
+    }
+    if (role !== 'owner') {
+      return NextResponse.json({ error: 'Only workspace owners can invite members.' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const email = normaliseEmail(body?.email);
+    if (!email) {
+      return NextResponse.json({ error: 'A valid email address is required.' }, { status: 400 });
+    }
+    const invitedRole = body?.role ?? 'viewer';
+    if (!isWorkspaceRole(invitedRole)) {
+      return NextResponse.json({ error: 'role must be one of owner, editor or viewer.' }, { status: 400 });
+    }
+
+    const { data: existingMember, error: memberError } = await supabase
+      .from('workspace_members')
+      .select('user_id')
+      .eq('workspace_id', id)
+      .eq('email', email)
+      .maybeSingle();
+    if (memberError) {
+      console.error('Error checking workspace members:', memberError);
+      return NextResponse.json({ error: 'Failed to check workspace members. ' + memberError.message }, { status: 500 });
+    }
+    if (existingMember) {
+      return NextResponse.json({ error: `${email} is already a member of this workspace.` }, { status: 409 });
+    }
+
+    const { error: deleteError } = await supabase
+      .from('workspace_invitations')
+      .delete()
+      .eq('workspace_id', id)
+      .eq('email', email)
+      .is('accepted_at', null);
+    if (deleteError) {
+      console.error('Error replacing invitation:', deleteError);
+      return NextResponse.json({ error: 'Failed to replace the pending invitation. ' + deleteError.message }, { status: 500 });
+    }
+
+    const { data: invitation, error: dbError } = await supabase
+      .from('workspace_invitations')
+      .insert({
+        workspace_id: id,
+        email,
+        role: invitedRole,
+        invited_by: user.id,
+        expires_at: new Date(Date.now() + INVITATION_EXPIRY_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+      })
+      .select(INVITATION_COLUMNS)
+      .single();
+
+    if (dbError) {
+      console.error('Error creating invitation:', dbError);
+      return NextResponse.json({ error: 'Failed to create invitation. ' + dbError.message }, { status: 500 });
+    }
+
+    // The email's link signs them in through /auth/confirm and opens the Workspaces panel, where they can accept it
+    const landingUrl = siteUrl('/auth/confirm');
+    landingUrl?.searchParams.set('next', '/chatbot?panel=workspaces');
+    const emailResult: InvitationEmailResult = landingUrl
+      ? await sendInvitationEmail(email, landingUrl.toString())
+      : { sent: false, reason: 'invitation emails are not set up on this server' };
+
+    return NextResponse.json(
+      { invitation, emailSent: emailResult.sent, emailError: emailResult.sent ? null : emailResult.reason },
+      { status: 201 },
+    );
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in workspace invitations route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
@@ -0,0 +1,121 @@
+// src/app/api/workspaces/[id]/members/[userId]/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { isWorkspaceRole, workspaceRole, MEMBER_COLUMNS } from '@/lib/workspaces';
+
+type RouteContext = { params: Promise<{ id: string; userId: string }> };
+
+type SupabaseServerClient = ReturnType<typeof createSupabaseServerClient>;
+
+// Whether the member is the workspace's only owner, who can be neither demoted nor removed.
+async function isLastOwner(supabase: SupabaseServerClient, workspaceId: string, userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('user_id')
+    .eq('workspace_id', workspaceId)
+    .eq('role', 'owner');
+  if (error) {
+    throw new Error('Failed to check workspace owners. ' + error.message);
+  }
+  return data.length === 1 && data[0].user_id === userId;
+}
+
+// Change a member's role ({ role }); owners only.
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const supabase = createSupabaseServerClient();
+  const { id, userId } = await params;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to update a workspace member.' }, { status: 401 });
+    }
+
+    const role = await workspaceRole(supabase, user.id, id);
+    if (!role) {
+      return NextResponse.json({ error: 'Workspace not found.' }, { status: 404 });
+    }
+    if (role !== 'owner') {
+      return NextResponse.json({ error: 'Only workspace owners can change member roles.' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => null);
+    if (!isWorkspaceRole(body?.role)) {
+      return NextResponse.json({ error: 'role must be one of owner, editor or viewer.' }, { status: 400 });
+    }
+
+    if (body.role !== 'owner' && await isLastOwner(supabase, id, userId)) {
+      return NextResponse.json({ error: 'A workspace needs at least one owner. Make someone else an owner first.' }, { status: 400 });
+    }
+
+    const { data: member, error: dbError } = await supabase
+      .from('workspace_members')
+      .update({ role: body.role })
+      .eq('workspace_id', id)
+      .eq('user_id', userId)
+      .select(MEMBER_COLUMNS)
+      .maybeSingle();
+
+    if (dbError) {
+      console.error('Error updating workspace member:', dbError);
+      return NextResponse.json({ error: 'Failed to update workspace member. ' + dbError.message }, { status: 500 });
+    }
+    if (!member) {
+      return NextResponse.json({ error: 'Member not found.' }, { status: 404 });
+    }
+
+    return NextResponse.json(member);
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in workspace member route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
+
+// Remove a member. Owners can remove anyone; every member can leave. Documents they added stay in the library.
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const supabase = createSupabaseServerClient();
+  const { id, userId } = await params;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to remove a workspace member.' }, { status: 401 });
+    }
+
+    const role = await workspaceRole(supabase, user.id, id);
+    if (!role) {
+      return NextResponse.json({ error: 'Workspace not found.' }, { status: 404 });
+    }
+    if (role !== 'owner' && userId !== user.id) {
+      return NextResponse.json({ error: 'Only workspace owners can remove other members.' }, { status: 403 });
+    }
+
+    if (await isLastOwner(supabase, id, userId)) {
+      return NextResponse.json({ error: 'A workspace needs at least one owner. Make someone else an owner first.' }, { status: 400 });
+    }
+
+    const { data: removed, error: dbError } = await supabase
+      .from('workspace_members')
+      .delete()
+      .eq('workspace_id', id)
+      .eq('user_id', userId)
+      .select('user_id');
+
+    if (dbError) {
+      console.error('Error removing workspace member:', dbError);
+      return NextResponse.json({ error: 'Failed to remove workspace member. ' + dbError.message }, { status: 500 });
+    }
+    if (removed.length === 0) {
+      return NextResponse.json({ error: 'Member not found.' }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in workspace member route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+// src/app/api/workspaces/[id]/members/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { workspaceRole, MEMBER_COLUMNS, WORKSPACE_ROLES, type WorkspaceMember } from '@/lib/workspaces';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// The workspace's members, owners first and then by joining date; visible to every member.
+export async function GET(_request: Request, { params }: RouteContext) {
+  const supabase = createSupabaseServerClient();
+  const { id } = await params;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to view workspace members.' }, { status: 401 });
+    }
+
+    if (!(await workspaceRole(supabase, user.id, id))) {
+      return NextResponse.json({ error: 'Workspace not found.' }, { status: 404 });
+    }
+
+    const { data: members, error: dbError } = await supabase
+      .from('workspace_members')
+      .select(MEMBER_COLUMNS)
+      .eq('workspace_id', id)
+      .order('created_at', { ascending: true });
+
+    if (dbError) {
+      console.error('Error fetching workspace members:', dbError);
+      return NextResponse.json({ error: 'Failed to fetch workspace members. ' + dbError.message }, { status: 500 });
+    }
+
+    return NextResponse.json((members as WorkspaceMember[]).sort((a, b) => WORKSPACE_ROLES.indexOf(a.role) - WORKSPACE_ROLES.indexOf(b.role)));
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in workspace members route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+// src/app/api/workspaces/[id]/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { normaliseWorkspaceName, workspaceRole, MAX_WORKSPACE_NAME_LENGTH } from '@/lib/workspaces';
+
+type RouteContext = { params: Promise<{ id: string }> };
+
+// Rename a workspace ({ name }); owners only.
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const supabase = createSupabaseServerClient();
+  const { id } = await params;
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to update a workspace.' }, { status: 401 });
+    }
+
+    const role = await workspaceRole(supabase, user.id, id);
+    if (!role) {
+      return NextResponse.json({ error: 'Workspace not found.' }, { status: 404 });
+    }
+    if (role !== 'owner') {
+      return NextResponse.json({ error: 'Only workspace owners can rename a workspace.' }, { status: 403 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const name = normaliseWorkspaceName(body?.name);
+    if (!name) {
+      return NextResponse.json({ error: `Name is required and must be at most ${MAX_WORKSPACE_NAME_LENGTH} characters.` }, { status: 400 });
+    }
+
+    const { data: workspace, error: dbError } = await supabase
+      .from('workspaces')
+      .update({ name })
+      .eq('id', id)
+      .select('id, name, created_at')
+      .single();
+
+    if (dbError) {
+      console.error('Error updating workspace:', dbError);
+      return NextResponse.json({ error: 'Failed to update workspace. ' + dbError.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ ...workspace, role });
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in workspace route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
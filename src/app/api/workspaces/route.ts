@@ -0,0 +1,81 @@
+// src/app/api/workspaces/route.ts
+import { NextResponse } from 'next/server';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { normaliseWorkspaceName, MAX_WORKSPACE_NAME_LENGTH, type Workspace, type WorkspaceRole } from '@/lib/workspaces';
+
+type MembershipRow = { role: WorkspaceRole; workspaces: { id: string; name: string; created_at: string } | null };
+
+// The workspaces the user belongs to, with their role in each, by name.
+export async function GET() {
+  const supabase = createSupabaseServerClient();
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to view workspaces.' }, { status: 401 });
+    }
+
+    const { data, error: dbError } = await supabase
+      .from('workspace_members')
+      .select('role, workspaces(id, name, created_at)')
+      .eq('user_id', user.id);
+
+    if (dbError) {
+      console.error('Error fetching workspaces:', dbError);
+      return NextResponse.json({ error: 'Failed to fetch workspaces. ' + dbError.message }, { status: 500 });
+    }
+
+    const workspaces: Workspace[] = (data as unknown as MembershipRow[])
+      .filter(row => row.workspaces)
+      .map(row => ({ ...row.workspaces!, role: row.role }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+    return NextResponse.json(workspaces);
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in workspaces route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
+
+// Create a workspace ({ name }); the creator becomes its owner.
+export async function POST(request: Request) {
+  const supabase = createSupabaseServerClient();
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized: You must be logged in to create a workspace.' }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => null);
+    const name = normaliseWorkspaceName(body?.name);
+    if (!name) {
+      return NextResponse.json({ error: `Name is required and must be at most ${MAX_WORKSPACE_NAME_LENGTH} characters.` }, { status: 400 });
+    }
+
+    // A function, so the workspace and its owner membership are created together
+    const { data: workspaceId, error: rpcError } = await supabase.rpc('create_workspace', { workspace_name: name });
+    if (rpcError) {
+      console.error('Error creating workspace:', rpcError);
+      return NextResponse.json({ error: 'Failed to create workspace. ' + rpcError.message }, { status: 500 });
+    }
+
+    const { data: workspace, error: dbError } = await supabase
+      .from('workspaces')
+      .select('id, name, created_at')
+      .eq('id', workspaceId)
+      .single();
+    if (dbError) {
+      console.error('Error loading new workspace:', dbError);
+      return NextResponse.json({ error: 'Failed to load the new workspace. ' + dbError.message }, { status: 500 });
+    }
+
+    return NextResponse.json({ ...workspace, role: 'owner' } satisfies Workspace, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('Unexpected error in workspaces route:', error);
+    return NextResponse.json({ error: 'An unexpected error occurred. ' + (error instanceof Error ? error.message : '') }, { status: 500 });
+  }
+}
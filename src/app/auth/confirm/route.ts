@@ -0,0 +1,28 @@
+// src/app/auth/confirm/route.ts
+import { NextResponse } from 'next/server';
+import type { EmailOtpType } from '@supabase/supabase-js';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { sameOriginRedirect } from '@/lib/urls';
+
+const EMAIL_LINK_TYPES: EmailOtpType[] = ['invite', 'magiclink', 'email'];
+
+// Landing page for the links in Supabase Auth emails (see *Workspaces* in the README for the email templates).
+// Verifies the one-time token on the server, which stores the session in cookies, then continues to `next`.
+// `next` is only followed when it resolves to this site, so the link can't be used to send someone elsewhere.
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const tokenHash = url.searchParams.get('token_hash');
+  const type = url.searchParams.get('type') as EmailOtpType | null;
+
+  if (tokenHash && type && EMAIL_LINK_TYPES.includes(type)) {
+    const supabase = createSupabaseServerClient();
+    const { error } = await supabase.auth.verifyOtp({ type, token_hash: tokenHash });
+    if (!error) {
+      return NextResponse.redirect(sameOriginRedirect(url.searchParams.get('next'), url, '/chatbot'));
+    }
+    console.warn('Email link verification failed:', error.message);
+  }
+
+  // Expired or already used: signing in normally still shows the invitation
+  return NextResponse.redirect(new URL('/login', url));
+}
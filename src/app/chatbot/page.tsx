@@ -1,12 +1,40 @@
 // src/app/chatbot/page.tsx
 "use client";
 
-import { useState, useEffect, useRef, FormEvent, ChangeEvent } from 'react';
+import { useState, useEffect, useLayoutEffect, useRef, FormEvent, ChangeEvent } from 'react';
 import { useAuth } from "@/contexts/AuthContext"; // Ensure this path is correct
 import { useRouter } from "next/navigation";
+import dynamic from "next/dynamic";
+import Link from "next/link";
 import {
-  Send, Paperclip, User as UserIcon, Bot as BotIcon, LogOut, History, FileText, XCircle, Loader2, AlertTriangle, MessageSquarePlus
+  Send, Paperclip, User as UserIcon, Bot as BotIcon, LogOut, History, FileText, XCircle, Loader2, AlertTriangle, MessageSquarePlus, Square, FolderOpen, SlidersHorizontal, UserCog,
+  Pencil, Search, Download, Trash2, Share2, Users, Shield
 } from 'lucide-react';
+import { readChatStreamEvents } from '@/lib/chat-stream';
+import type { Conversation } from '@/lib/conversations';
+import type { QuotaStatus } from '@/lib/rate-limit';
+import type { DocumentSummary } from '@/lib/documents';
+import type { Citation } from '@/lib/citations';
+import type { TurnFeedback } from '@/lib/feedback';
+import type { ChatSearchHit } from '@/lib/chat-search';
+import type { ChatSettings, ChatSettingsOptions } from '@/lib/llm/settings';
+import { DEFAULT_PERSONA_ID, type Persona } from '@/lib/personas';
+import { isAdmin } from '@/lib/admin';
+import { ACCEPTED_UPLOAD_TYPES } from '@/lib/extractors/formats';
+import ConversationSidebar from '@/components/ConversationSidebar';
+import DocumentLibrary from '@/components/DocumentLibrary';
+import ChatSettingsPanel from '@/components/ChatSettingsPanel';
+import PersonaPanel from '@/components/PersonaPanel';
+import MarkdownMessage from '@/components/MarkdownMessage';
+import BranchControls from '@/components/BranchControls';
+import FeedbackControls from '@/components/FeedbackControls';
+import SearchPanel from '@/components/SearchPanel';
+import ExportMenu from '@/components/ExportMenu';
+import SharePanel from '@/components/SharePanel';
+import WorkspacePanel from '@/components/WorkspacePanel';
+
+// pdf.js only runs in the browser
+const PdfViewer = dynamic(() => import('@/components/PdfViewer'), { ssr: false });
 
 interface Message {
   id: string;
@@ -15,6 +43,26 @@ interface Message {
   pdfContextUsed?: boolean;
   timestamp?: string;
   isError?: boolean;
+  wasStopped?: boolean;
+  citations?: Citation[];
+  turnId?: string; // The stored exchange both halves belong to; set once it has been saved
+  siblingIds?: string[]; // The turn and its alternatives (regenerated or edited), oldest first
+  feedback?: TurnFeedback | null; // The user's rating of a bot reply
+}
+
+// One page of /api/chat-history; `nextBefore` is the cursor for older turns, null once the first turn is loaded.
+interface HistoryPage {
+  messages: Message[];
+  nextBefore: string | null;
+}
+
+// The popovers opened from the header; only one is open at a time.
+type HeaderPanel = 'search' | 'export' | 'share' | 'documents' | 'workspaces' | 'settings' | 'personas';
+
+// A document whose excerpts are sent with each question in the current conversation.
+interface AttachedDocument {
+  id: string;
+  name: string;
 }
 
 export default function ChatbotPage() {
@@ -23,24 +71,55 @@ export default function ChatbotPage() {
 
   const [userInput, setUserInput] = useState('');
   const [messages, setMessages] = useState<Message[]>([]);
-  const [uploadedPdfText, setUploadedPdfText] = useState<string | null>(null);
-  const [pdfName, setPdfName] = useState<string | null>(null);
+  const [attachedDocuments, setAttachedDocuments] = useState<AttachedDocument[]>([]);
   const [isProcessingQuery, setIsProcessingQuery] = useState(false);
   const [isUploadingPdf, setIsUploadingPdf] = useState(false);
   const [isLoadingHistory, setIsLoadingHistory] = useState(false);
   const [pageError, setPageError] = useState<string | null>(null);
-  const [historyLoaded, setHistoryLoaded] = useState(false);
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [conversationsLoaded, setConversationsLoaded] = useState(false);
+  const [openPanel, setOpenPanel] = useState<HeaderPanel | null>(null);
+  const [openCitation, setOpenCitation] = useState<Citation | null>(null);
+  const [quota, setQuota] = useState<QuotaStatus | null>(null);
+  const [chatSettingsOptions, setChatSettingsOptions] = useState<ChatSettingsOptions | null>(null);
+  const [chatSettings, setChatSettings] = useState<ChatSettings | null>(null); // null: the server defaults
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [personaId, setPersonaId] = useState<string>(DEFAULT_PERSONA_ID);
+  const [editingTurn, setEditingTurn] = useState<{ turnId: string; text: string } | null>(null);
+  const [highlightedTurnId, setHighlightedTurnId] = useState<string | null>(null); // Scrolled to from search results
+  const [olderCursor, setOlderCursor] = useState<string | null>(null); // More history above the loaded turns
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
 
   const messagesEndRef = useRef<null | HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLElement>(null);
+  const scrollAnchorRef = useRef<{ height: number; top: number } | null>(null); // Set while older turns are prepended
   const fileInputRef = useRef<HTMLInputElement>(null);
   const textInputRef = useRef<HTMLInputElement>(null);
+  const generationAbortRef = useRef<AbortController | null>(null);
 
   const isBusy = isProcessingQuery || isUploadingPdf || isLoadingHistory;
 
-  // Scroll to bottom effect
+  // Older turns were prepended: keep the turns the user was looking at in place instead of jumping
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    const anchor = scrollAnchorRef.current;
+    if (!container || !anchor) return;
+    container.scrollTop = container.scrollHeight - anchor.height + anchor.top;
+  }, [messages]);
+
+  // Scroll to bottom effect, or to the turn a search result pointed at
   useEffect(() => {
+    if (scrollAnchorRef.current) {
+      scrollAnchorRef.current = null; // Handled by the layout effect above
+      return;
+    }
+    if (highlightedTurnId) {
+      document.getElementById(`turn-${highlightedTurnId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+      return;
+    }
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [messages, highlightedTurnId]);
 
   // Authentication redirect effect
   useEffect(() => {
@@ -49,6 +128,15 @@ export default function ChatbotPage() {
     }
   }, [user, authLoading, router]);
 
+  // Workspace invitation emails link to ?panel=workspaces, where the invitation can be accepted
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    if (url.searchParams.get('panel') !== 'workspaces') return;
+    setOpenPanel('workspaces');
+    url.searchParams.delete('panel');
+    window.history.replaceState(null, '', url);
+  }, []);
+
   // Auto-focus text input effect
   useEffect(() => {
     if (!isBusy && textInputRef.current) {
@@ -56,10 +144,15 @@ export default function ChatbotPage() {
     }
   }, [isBusy]);
 
-  // Auto-load history effect
+  // Auto-load conversations effect: opens the most recently active thread
   useEffect(() => {
-    if (user && !authLoading && !historyLoaded) {
-      fetchChatHistory();
+    if (user && !authLoading && !conversationsLoaded) {
+      fetchConversations().then(loaded => {
+        if (loaded.length > 0) selectConversation(loaded[0].id, loaded);
+      });
+      fetchQuota();
+      fetchChatSettingsOptions();
+      fetchPersonas();
     }
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [user, authLoading]);
@@ -79,37 +172,37 @@ export default function ChatbotPage() {
     router.replace('/login');
   };
 
-  const handlePdfUpload = async (event: ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
+  const addAttachedDocument = (document: AttachedDocument) => {
+    setAttachedDocuments(prev => prev.some(d => d.id === document.id) ? prev : [...prev, document]);
+  };
+
+  const handleDocumentUpload = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
     if (fileInputRef.current) fileInputRef.current.value = '';
 
-    if (!file) return;
+    if (files.length === 0) return;
 
-    if (file.type !== "application/pdf") {
-      setPageError("Invalid file type. Please upload a PDF.");
-      return;
-    }
+    // The server detects the format from the file contents and rejects anything it can't read
     setPageError(null);
     setIsUploadingPdf(true);
-    setPdfName(file.name);
-
-    const formData = new FormData();
-    formData.append('pdf', file);
 
-    try {
-      const response = await fetch('/api/upload-pdf', { method: 'POST', body: formData });
-      const data = await response.json();
-      if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
-      setUploadedPdfText(data.text);
-      addSystemMessage(<span>PDF: <strong>{file.name}</strong> uploaded successfully.</span>);
-    } catch (err: any)  {
-      console.error("PDF Upload Error:", err);
-      addSystemMessage(`Failed to process PDF "${file.name}": ${err.message}`, true);
-      setPdfName(null);
-      setUploadedPdfText(null);
-    } finally {
-      setIsUploadingPdf(false);
+    // One request per file so a bad file doesn't stop the others from attaching
+    for (const file of files) {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      try {
+        const response = await fetch('/api/documents', { method: 'POST', body: formData });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        addAttachedDocument({ id: data.document.id, name: data.document.name });
+        addSystemMessage(<span>Document: <strong>{file.name}</strong> uploaded successfully.</span>, false, `upload-${data.document.id}`);
+      } catch (err: unknown) {
+        console.error("Document Upload Error:", err);
+        addSystemMessage(`Failed to process "${file.name}": ${err instanceof Error ? err.message : String(err)}`, true, `upload-err-${file.name}-${Date.now()}`);
+      }
     }
+    setIsUploadingPdf(false);
   };
 
   const handleSubmitQuery = async (e: FormEvent<HTMLFormElement>) => {
@@ -117,77 +210,390 @@ export default function ChatbotPage() {
     if (!userInput.trim() || isBusy) return;
 
     const userQuery = userInput.trim();
-    const userMessage: Message = { id: `user-${Date.now()}`, text: userQuery, sender: 'user', timestamp: new Date().toISOString() };
-    setMessages(prev => [...prev, userMessage]);
     setUserInput('');
+    await sendQuery(userQuery);
+  };
+
+  // Asks `userQuery` and streams the reply in. With `branchFromId` (regenerate or edit) the reply is an alternative
+  // to that turn: it and everything after it leave the screen, and the server keeps them as a sibling branch.
+  const sendQuery = async (userQuery: string, branchFromId?: string) => {
+    const userMessage: Message = { id: `user-${Date.now()}`, text: userQuery, sender: 'user', timestamp: new Date().toISOString() };
+    setMessages(prev => {
+      const branchStart = branchFromId ? prev.findIndex(msg => msg.turnId === branchFromId) : -1;
+      return [...(branchStart >= 0 ? prev.slice(0, branchStart) : prev), userMessage];
+    });
+    setEditingTurn(null);
+    setHighlightedTurnId(null);
     setIsProcessingQuery(true);
     setPageError(null);
 
+    const abortController = new AbortController();
+    generationAbortRef.current = abortController;
+    const botMessageId = `bot-${Date.now()}`;
+    let botMessageAdded = false;
+
     try {
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ query: userQuery, pdfText: uploadedPdfText }),
+        body: JSON.stringify({
+          query: userQuery,
+          documentIds: attachedDocuments.map(document => document.id),
+          conversationId: activeConversationId,
+          settings: chatSettings ?? undefined,
+          personaId,
+          branchFromId,
+          stream: true,
+        }),
+        signal: abortController.signal,
       });
-      const data = await response.json();
-      if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
-      const botMessage: Message = { id: `bot-${Date.now()}`, text: data.reply, sender: 'bot', pdfContextUsed: !!uploadedPdfText, timestamp: new Date().toISOString() };
-      setMessages(prev => [...prev, botMessage]);
-    } catch (err: any) {
-      console.error("Chat API Error:", err);
-      addSystemMessage(`Chat Error: ${err.message}`, true);
+      if (!response.ok || !response.body) {
+        const data = await response.json();
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+
+      let replyText = '';
+      for await (const event of readChatStreamEvents(response.body)) {
+        if (event.type === 'error') throw new Error(event.error);
+        if (event.type === 'meta') setActiveConversationId(event.conversationId);
+        if (event.type === 'done') {
+          const turnId = event.turnId ?? undefined;
+          setMessages(prev => prev.map(msg =>
+            msg.id === botMessageId ? { ...msg, citations: event.citations, turnId } :
+            msg.id === userMessage.id ? { ...msg, turnId } : msg
+          ));
+        }
+        if (event.type !== 'chunk') continue;
+
+        replyText += event.text;
+        if (!botMessageAdded) {
+          botMessageAdded = true;
+          const botMessage: Message = { id: botMessageId, text: replyText, sender: 'bot', pdfContextUsed: attachedDocuments.length > 0, timestamp: new Date().toISOString() };
+          setMessages(prev => [...prev, botMessage]);
+        } else {
+          const textSoFar = replyText;
+          setMessages(prev => prev.map(msg => msg.id === botMessageId ? { ...msg, text: textSoFar } : msg));
+        }
+      }
+    } catch (err: unknown) {
+      if (abortController.signal.aborted) {
+        if (botMessageAdded) {
+          setMessages(prev => prev.map(msg => msg.id === botMessageId ? { ...msg, wasStopped: true } : msg));
+        } else {
+          addSystemMessage("Generation stopped.");
+        }
+      } else {
+        console.error("Chat API Error:", err);
+        addSystemMessage(`Chat Error: ${err instanceof Error ? err.message : String(err)}`, true);
+      }
     } finally {
+      generationAbortRef.current = null;
       setIsProcessingQuery(false);
+      fetchConversations(); // Picks up new threads, generated titles and updated ordering
+      fetchQuota();
+      if (branchFromId) fetchChatHistory(activeConversationId); // Refreshes the "2/3" counts of the new branch
     }
   };
 
-  const fetchChatHistory = async () => {
-    if (historyLoaded && messages.some(m => m.id === 'sys-hist-loaded' || m.id === 'sys-no-hist')) {
-        return;
+  const regenerateReply = (turnId: string) => {
+    const question = messages.find(msg => msg.turnId === turnId && msg.sender === 'user');
+    if (isBusy || typeof question?.text !== 'string') return;
+    sendQuery(question.text, turnId);
+  };
+
+  const submitEdit = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!editingTurn || !editingTurn.text.trim() || isBusy) return;
+    sendQuery(editingTurn.text.trim(), editingTurn.turnId);
+  };
+
+  // Shows the branch through `turnId` (one of a turn's siblings), continuing with its newest follow-ups.
+  const switchBranch = async (turnId: string, conversationId: string | null = activeConversationId): Promise<HistoryPage | null> => {
+    if (!conversationId) return null;
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ activeTurnId: turnId }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      setConversations(prev => prev.map(c => c.id === data.id ? data : c));
+      setEditingTurn(null);
+      return await fetchChatHistory(conversationId);
+    } catch (err: unknown) {
+      console.error("Switch Branch Error:", err);
+      setPageError(`Failed to switch branch: ${err instanceof Error ? err.message : String(err)}`);
+      return null;
     }
+  };
 
-    setIsLoadingHistory(true);
-    setPageError(null);
+  const handleStopGeneration = () => {
+    generationAbortRef.current?.abort();
+  };
+
+  // The quota line is informational, so failures are only logged
+  const fetchQuota = async () => {
     try {
-      const response = await fetch('/api/chat-history');
+      const response = await fetch('/api/quota');
       const data = await response.json();
       if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
-      
-      const historyMessages: Message[] = data;
-
-      setMessages(prevMessages => {
-        const existingMessageIds = new Set(prevMessages.map(msg => msg.id));
-        const uniqueHistoryMessages = historyMessages.filter(histMsg => !existingMessageIds.has(histMsg.id));
-        const combined = [...uniqueHistoryMessages, ...prevMessages];
-        combined.sort((a, b) => new Date(a.timestamp!).getTime() - new Date(b.timestamp!).getTime());
-        return combined;
-      });
-      
-      setHistoryLoaded(true);
-      if (historyMessages.length === 0) {
-        addSystemMessage("No previous chat history found.", false, "no-hist");
-      } else {
-         addSystemMessage("Chat history loaded.", false, "hist-loaded");
+      setQuota(data);
+    } catch (err: unknown) {
+      console.error("Fetch Quota Error:", err);
+    }
+  };
+
+  // Without the options the settings panel says so; chatting still works with the server defaults
+  const fetchChatSettingsOptions = async () => {
+    try {
+      const response = await fetch('/api/chat-settings');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      setChatSettingsOptions(data);
+    } catch (err: unknown) {
+      console.error("Fetch Chat Settings Error:", err);
+    }
+  };
+
+  const fetchPersonas = async () => {
+    try {
+      const response = await fetch('/api/personas');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      setPersonas(data);
+    } catch (err: unknown) {
+      console.error("Fetch Personas Error:", err);
+      setPageError(`Error loading personas: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  // Takes effect with the next message; the persona's default settings and document are applied right away.
+  const choosePersona = (persona: Persona) => {
+    setPersonaId(persona.id);
+    if (persona.settings) setChatSettings(persona.settings);
+    if (persona.default_document && attachedDocuments.length === 0) {
+      addAttachedDocument(persona.default_document);
+      addSystemMessage(<span>Document: <strong>{persona.default_document.name}</strong> attached for <strong>{persona.name}</strong>.</span>);
+    }
+  };
+
+  const savePersona = (persona: Persona) => {
+    setPersonas(prev => prev.some(p => p.id === persona.id)
+      ? prev.map(p => p.id === persona.id ? persona : p)
+      : [...prev, persona]);
+  };
+
+  const removePersona = (removedId: string) => {
+    setPersonas(prev => prev.filter(p => p.id !== removedId));
+    if (personaId === removedId) setPersonaId(DEFAULT_PERSONA_ID);
+  };
+
+  const fetchConversations = async (): Promise<Conversation[]> => {
+    try {
+      const response = await fetch('/api/conversations');
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      setConversations(data);
+      setConversationsLoaded(true);
+      return data;
+    } catch (err: unknown) {
+      console.error("Fetch Conversations Error:", err);
+      setPageError(`Error loading conversations: ${err instanceof Error ? err.message : String(err)}`);
+      return [];
+    }
+  };
+
+  const fetchHistoryPage = async (conversationId: string, before?: string | null): Promise<HistoryPage> => {
+    const params = new URLSearchParams({ conversationId });
+    if (before) params.set('before', before);
+    const response = await fetch(`/api/chat-history?${params}`);
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
+    return data;
+  };
+
+  // Loads the newest page of the conversation; older turns follow as the user scrolls up.
+  const fetchChatHistory = async (conversationId: string | null = activeConversationId): Promise<HistoryPage> => {
+    if (!conversationId) return { messages: [], nextBefore: null };
+
+    setIsLoadingHistory(true);
+    setPageError(null);
+    try {
+      const page = await fetchHistoryPage(conversationId);
+      setMessages(page.messages);
+      setOlderCursor(page.nextBefore);
+      if (page.messages.length === 0) {
+        addSystemMessage("No messages in this conversation yet.", false, "no-hist");
       }
-    } catch (err: any) {
+      return page;
+    } catch (err: unknown) {
       console.error("Fetch History Error:", err);
-      addSystemMessage(`Error loading history: ${err.message}`, true, "hist-err");
-      setHistoryLoaded(false);
+      addSystemMessage(`Error loading history: ${err instanceof Error ? err.message : String(err)}`, true, "hist-err");
+      return { messages: [], nextBefore: null };
     } finally {
       setIsLoadingHistory(false);
     }
   };
 
+  const loadOlderMessages = async () => {
+    const container = messagesContainerRef.current;
+    if (!activeConversationId || !olderCursor || isLoadingOlder || isLoadingHistory || !container) return;
+
+    setIsLoadingOlder(true);
+    try {
+      const page = await fetchHistoryPage(activeConversationId, olderCursor);
+      scrollAnchorRef.current = { height: container.scrollHeight, top: container.scrollTop };
+      setMessages(prev => [...page.messages, ...prev]);
+      setOlderCursor(page.nextBefore);
+    } catch (err: unknown) {
+      console.error("Fetch Older History Error:", err);
+      setPageError(`Error loading earlier messages: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  };
+
+  // Pages further back from `page` until the history includes `turnId` or runs out; shows what was loaded either way.
+  const loadHistoryThrough = async (conversationId: string, turnId: string, page: HistoryPage): Promise<boolean> => {
+    let { messages: loaded, nextBefore } = page;
+    while (!loaded.some(msg => msg.turnId === turnId) && nextBefore) {
+      const older = await fetchHistoryPage(conversationId, nextBefore);
+      loaded = [...older.messages, ...loaded];
+      nextBefore = older.nextBefore;
+    }
+    setMessages(loaded);
+    setOlderCursor(nextBefore);
+    return loaded.some(msg => msg.turnId === turnId);
+  };
+
+  const selectConversation = (conversationId: string, knownConversations: Conversation[] = conversations) => {
+    const conversation = knownConversations.find(c => c.id === conversationId);
+    setActiveConversationId(conversationId);
+    setMessages([]);
+    setOlderCursor(null);
+    setEditingTurn(null);
+    setHighlightedTurnId(null);
+    // Re-attach the documents the thread was last used with
+    setAttachedDocuments(conversation?.documents ?? []);
+    setChatSettings(conversation?.settings ?? null);
+    setPersonaId(conversation?.persona_id ?? DEFAULT_PERSONA_ID);
+    return fetchChatHistory(conversationId);
+  };
+
+  // Opens the search result's conversation at its turn, switching branches if the turn isn't on the one shown.
+  const jumpToTurn = async (hit: ChatSearchHit) => {
+    if (!hit.conversationId || isBusy) return;
+    setOpenPanel(null);
+    try {
+      const page = hit.conversationId === activeConversationId
+        ? { messages, nextBefore: olderCursor }
+        : await selectConversation(hit.conversationId);
+      if (!(await loadHistoryThrough(hit.conversationId, hit.turnId, page))) {
+        const branchPage = await switchBranch(hit.turnId, hit.conversationId);
+        if (branchPage) await loadHistoryThrough(hit.conversationId, hit.turnId, branchPage);
+      }
+      setHighlightedTurnId(hit.turnId);
+    } catch (err: unknown) {
+      console.error("Jump To Turn Error:", err);
+      setPageError(`Failed to open the search result: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const startNewConversation = () => {
+    setActiveConversationId(null);
+    setMessages([]);
+    setOlderCursor(null);
+    setEditingTurn(null);
+    setHighlightedTurnId(null);
+    setPageError(null);
+  };
+
+  const renameConversation = async (conversationId: string, title: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      setConversations(prev => prev.map(c => c.id === conversationId ? data : c));
+    } catch (err: unknown) {
+      console.error("Rename Conversation Error:", err);
+      setPageError(`Failed to rename conversation: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const deleteConversation = async (conversationId: string) => {
+    try {
+      const response = await fetch(`/api/conversations/${conversationId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      setConversations(prev => prev.filter(c => c.id !== conversationId));
+      if (conversationId === activeConversationId) startNewConversation();
+    } catch (err: unknown) {
+      console.error("Delete Conversation Error:", err);
+      setPageError(`Failed to delete conversation: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const updateFeedback = (turnId: string, feedback: TurnFeedback | null) => {
+    setMessages(prev => prev.map(msg => (msg.sender === 'bot' && msg.turnId === turnId ? { ...msg, feedback } : msg)));
+  };
+
+  // Deletes one question and its answer; the branch closes up around it, so the shown history is reloaded.
+  const deleteExchange = async (turnId: string) => {
+    if (!window.confirm('Delete this question and its answer? Later messages stay in the conversation.')) return;
+    try {
+      const response = await fetch(`/api/chat-history/${turnId}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      if (editingTurn?.turnId === turnId) setEditingTurn(null);
+      await fetchChatHistory();
+    } catch (err: unknown) {
+      console.error("Delete Exchange Error:", err);
+      setPageError(`Failed to delete message: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const deleteAllData = async () => {
+    try {
+      const response = await fetch('/api/account-data', { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      setConversations([]);
+      setAttachedDocuments([]);
+      startNewConversation();
+      await fetchPersonas();
+      addSystemMessage("All your conversations, personal documents and personas have been deleted.");
+    } catch (err: unknown) {
+      console.error("Delete All Data Error:", err);
+      setPageError(`Failed to delete your data: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const attachDocument = (document: DocumentSummary) => {
+    addAttachedDocument({ id: document.id, name: document.name });
+    setOpenPanel(null);
+    addSystemMessage(<span>Document: <strong>{document.name}</strong> attached.</span>);
+  };
+
+  const detachDocument = (document: AttachedDocument) => {
+    setAttachedDocuments(prev => prev.filter(d => d.id !== document.id));
+    addSystemMessage(<span>Document context for <strong>{document.name}</strong> has been cleared.</span>);
+  };
+
   const clearPdfContext = () => {
-    const currentPdfName = pdfName;
-    setUploadedPdfText(null);
-    setPdfName(null);
+    setAttachedDocuments([]);
     if (fileInputRef.current) fileInputRef.current.value = '';
-    if(currentPdfName) {
-        addSystemMessage(<span>PDF context for <strong>{currentPdfName}</strong> has been cleared.</span>);
-    } else {
-        addSystemMessage("PDF context cleared.");
-    }
+    addSystemMessage("Document context cleared.");
   };
 
   if (authLoading) {
@@ -217,14 +623,93 @@ export default function ChatbotPage() {
         </div>
         <div className="flex items-center space-x-1 sm:space-x-2">
           {user.email && <span className="text-xs sm:text-sm text-slate-400 hidden md:block mr-2">{user.email}</span>}
+          <select
+            value={personaId}
+            onChange={e => {
+              const persona = personas.find(p => p.id === e.target.value);
+              if (persona) choosePersona(persona);
+            }}
+            disabled={isBusy || personas.length === 0}
+            className="max-w-[10rem] p-1.5 rounded-lg bg-slate-800 border border-slate-700 text-xs sm:text-sm text-slate-200 focus:ring-2 focus:ring-indigo-500 outline-none disabled:opacity-50"
+            aria-label="Persona"
+          >
+            {personas.map(persona => (
+              <option key={persona.id} value={persona.id}>{persona.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setOpenPanel(panel => panel === 'search' ? null : 'search')}
+            disabled={isBusy}
+            className="p-2 rounded-full hover:bg-slate-700/70 text-slate-300 hover:text-indigo-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            aria-label="Search chats"
+          >
+            <Search size={20} />
+          </button>
+          <button
+            onClick={() => setOpenPanel(panel => panel === 'export' ? null : 'export')}
+            disabled={isBusy}
+            className="p-2 rounded-full hover:bg-slate-700/70 text-slate-300 hover:text-indigo-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            aria-label="Export or import chats"
+          >
+            <Download size={20} />
+          </button>
+          <button
+            onClick={() => setOpenPanel(panel => panel === 'share' ? null : 'share')}
+            disabled={isBusy || !activeConversationId}
+            className="p-2 rounded-full hover:bg-slate-700/70 text-slate-300 hover:text-indigo-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            aria-label="Share conversation"
+          >
+            <Share2 size={20} />
+          </button>
+          <button
+            onClick={() => setOpenPanel(panel => panel === 'personas' ? null : 'personas')}
+            disabled={isBusy}
+            className="p-2 rounded-full hover:bg-slate-700/70 text-slate-300 hover:text-indigo-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            aria-label="Manage personas"
+          >
+            <UserCog size={20} />
+          </button>
+          <button
+            onClick={() => setOpenPanel(panel => panel === 'settings' ? null : 'settings')}
+            disabled={isBusy}
+            className="p-2 rounded-full hover:bg-slate-700/70 text-slate-300 hover:text-indigo-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            aria-label="Conversation settings"
+          >
+            <SlidersHorizontal size={20} />
+          </button>
           <button
-            onClick={fetchChatHistory}
+            onClick={() => setOpenPanel(panel => panel === 'documents' ? null : 'documents')}
             disabled={isBusy}
             className="p-2 rounded-full hover:bg-slate-700/70 text-slate-300 hover:text-indigo-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-            aria-label="Load Chat History"
+            aria-label="Documents"
+          >
+            <FolderOpen size={20} />
+          </button>
+          <button
+            onClick={() => setOpenPanel(panel => panel === 'workspaces' ? null : 'workspaces')}
+            disabled={isBusy}
+            className="p-2 rounded-full hover:bg-slate-700/70 text-slate-300 hover:text-indigo-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            aria-label="Workspaces"
+          >
+            <Users size={20} />
+          </button>
+          <button
+            onClick={() => fetchChatHistory()}
+            disabled={isBusy || !activeConversationId}
+            className="p-2 rounded-full hover:bg-slate-700/70 text-slate-300 hover:text-indigo-400 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            aria-label="Reload Conversation"
           >
             {isLoadingHistory ? <Loader2 size={20} className="animate-spin" /> : <History size={20} />}
           </button>
+          {isAdmin(user) && (
+            <Link
+              href="/admin"
+              className="p-2 rounded-full hover:bg-slate-700/70 text-slate-300 hover:text-indigo-400 transition-colors"
+              aria-label="Admin dashboard"
+            >
+              <Shield size={20} />
+            </Link>
+          )}
           <button
             onClick={handleLogout}
             className="p-2 rounded-full hover:bg-slate-700/70 text-slate-300 hover:text-red-400 transition-colors"
@@ -233,8 +718,62 @@ export default function ChatbotPage() {
             <LogOut size={20} />
           </button>
         </div>
+        {openPanel === 'documents' && (
+          <DocumentLibrary
+            attachedDocumentIds={attachedDocuments.map(document => document.id)}
+            onAttach={attachDocument}
+            onClose={() => setOpenPanel(null)}
+          />
+        )}
+        {openPanel === 'workspaces' && (
+          <WorkspacePanel userId={user.id} onClose={() => setOpenPanel(null)} />
+        )}
+        {openPanel === 'settings' && (
+          <ChatSettingsPanel
+            options={chatSettingsOptions}
+            settings={chatSettings}
+            onChange={setChatSettings}
+            onClose={() => setOpenPanel(null)}
+          />
+        )}
+        {openPanel === 'search' && (
+          <SearchPanel
+            activeConversationId={activeConversationId}
+            onJump={jumpToTurn}
+            onClose={() => setOpenPanel(null)}
+          />
+        )}
+        {openPanel === 'export' && (
+          <ExportMenu activeConversationId={activeConversationId} onImported={fetchConversations} onClose={() => setOpenPanel(null)} />
+        )}
+        {openPanel === 'share' && activeConversationId && (
+          <SharePanel key={activeConversationId} conversationId={activeConversationId} onClose={() => setOpenPanel(null)} />
+        )}
+        {openPanel === 'personas' && (
+          <PersonaPanel
+            personas={personas}
+            currentSettings={chatSettings}
+            settingsOptions={chatSettingsOptions}
+            onSaved={savePersona}
+            onDeleted={removePersona}
+            onClose={() => setOpenPanel(null)}
+          />
+        )}
       </header>
 
+      <div className="flex flex-grow min-h-0">
+      <ConversationSidebar
+        conversations={conversations}
+        activeConversationId={activeConversationId}
+        disabled={isBusy}
+        onSelect={selectConversation}
+        onNew={startNewConversation}
+        onRename={renameConversation}
+        onDelete={deleteConversation}
+        onDeleteAllData={deleteAllData}
+      />
+
+      <div className="flex flex-col flex-grow min-w-0">
       {/* Sticky Info Bar for PDF Context and Page Errors */}
       <div className="sticky top-[60px] sm:top-[68px] z-40 text-xs sm:text-sm">
         {pageError ? (
@@ -247,13 +786,26 @@ export default function ChatbotPage() {
               <XCircle size={18} />
             </button>
           </div>
-        ) : pdfName ? (
+        ) : attachedDocuments.length > 0 ? (
           <div className="bg-indigo-700/60 text-indigo-200 p-2 flex items-center justify-between space-x-2 shadow-md">
-            <div className="flex items-center space-x-2">
+            <div className="flex flex-wrap items-center gap-1.5 min-w-0">
                 <FileText size={16} className="flex-shrink-0" />
-                <span>Active PDF: <strong className="font-medium">{pdfName}</strong></span>
+                <span>{attachedDocuments.length === 1 ? 'Active document:' : 'Active documents:'}</span>
+                {attachedDocuments.map(document => (
+                  <span key={document.id} className="flex items-center max-w-[16rem] pl-2 pr-1 py-0.5 rounded-full bg-indigo-900/60 text-indigo-100">
+                    <strong className="font-medium truncate">{document.name}</strong>
+                    <button
+                      onClick={() => detachDocument(document)}
+                      disabled={isProcessingQuery}
+                      className="ml-1 p-0.5 rounded-full hover:bg-red-600/50 text-indigo-300 hover:text-red-100 disabled:opacity-50"
+                      aria-label={`Remove ${document.name}`}
+                    >
+                      <XCircle size={14} />
+                    </button>
+                  </span>
+                ))}
             </div>
-            <button onClick={clearPdfContext} className="ml-auto p-1 rounded-full hover:bg-red-600/50 text-red-300 hover:text-red-100" aria-label="Clear PDF Context">
+            <button onClick={clearPdfContext} disabled={isProcessingQuery} className="ml-auto p-1 rounded-full hover:bg-red-600/50 text-red-300 hover:text-red-100 disabled:opacity-50" aria-label="Clear PDF Context">
               <XCircle size={18} />
             </button>
           </div>
@@ -261,15 +813,25 @@ export default function ChatbotPage() {
       </div>
 
       {/* Chat Messages Area */}
-      <main className="flex-grow overflow-y-auto p-4 sm:p-6 space-y-4 scroll-smooth" aria-live="polite">
+      <main
+        ref={messagesContainerRef}
+        onScroll={e => { if (e.currentTarget.scrollTop < 120) loadOlderMessages(); }}
+        className="flex-grow overflow-y-auto p-4 sm:p-6 space-y-4"
+        aria-live="polite"
+      >
+        {olderCursor && (
+          <div className="flex justify-center text-xs text-slate-400">
+            {isLoadingOlder ? <Loader2 size={16} className="animate-spin text-indigo-400" /> : 'Scroll up for earlier messages'}
+          </div>
+        )}
         {messages.map((msg) => (
           // ** FIXED LINE BELOW **
-          <div key={msg.id} className={`flex ${
+          <div key={msg.id} id={msg.sender === 'user' && msg.turnId ? `turn-${msg.turnId}` : undefined} className={`flex ${
               msg.sender === 'user' ? 'justify-end' :
               msg.sender === 'system' ? 'justify-center w-full' :
               'justify-start' // Default for bot
           }`}>
-            <div className={`p-3 rounded-2xl shadow-md break-words ${
+            <div className={`p-3 rounded-2xl shadow-md break-words ${msg.turnId && msg.turnId === highlightedTurnId ? 'ring-2 ring-amber-400' : ''} ${
                 msg.sender === 'user' ? 'bg-indigo-600 text-white rounded-br-lg max-w-[85%] sm:max-w-[75%] md:max-w-[70%]' :
                 msg.sender === 'bot' ? (msg.isError ? 'bg-red-700/90 text-red-100 rounded-bl-lg max-w-[85%] sm:max-w-[75%] md:max-w-[70%]' : 'bg-slate-700 text-slate-100 rounded-bl-lg max-w-[85%] sm:max-w-[75%] md:max-w-[70%]') :
                 /* system messages */ (msg.isError ? 'bg-red-600/30 text-red-200 border border-red-500/50 w-full max-w-3xl mx-auto text-center py-2' : 'bg-slate-700/50 text-slate-300 w-full max-w-3xl mx-auto text-center py-2')
@@ -279,10 +841,84 @@ export default function ChatbotPage() {
                   {msg.sender === 'bot' ? <BotIcon size={16} className="mr-1.5 flex-shrink-0" /> : <UserIcon size={16} className="mr-1.5 flex-shrink-0" />}
                   <span className="font-semibold">{msg.sender === 'user' ? 'You' : 'Gemini Bot'}</span>
                   {msg.timestamp && <span className="text-slate-400 ml-2 opacity-80">{new Date(msg.timestamp).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}</span>}
+                  {msg.sender === 'user' && msg.turnId && typeof msg.text === 'string' && editingTurn?.turnId !== msg.turnId && (
+                    <div className="ml-auto pl-2 flex items-center gap-2">
+                      <button
+                        onClick={() => setEditingTurn({ turnId: msg.turnId!, text: msg.text as string })}
+                        disabled={isBusy}
+                        className="text-indigo-200 hover:text-white disabled:opacity-50"
+                        aria-label="Edit message"
+                      >
+                        <Pencil size={14} />
+                      </button>
+                      <button
+                        onClick={() => deleteExchange(msg.turnId!)}
+                        disabled={isBusy}
+                        className="text-indigo-200 hover:text-red-300 disabled:opacity-50"
+                        aria-label="Delete message"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+              {msg.sender === 'user' && editingTurn && editingTurn.turnId === msg.turnId ? (
+                <form onSubmit={submitEdit} className="space-y-2">
+                  <textarea
+                    value={editingTurn.text}
+                    onChange={e => setEditingTurn({ ...editingTurn, text: e.target.value })}
+                    rows={3}
+                    className="w-full min-w-[16rem] p-2 rounded-lg bg-indigo-700 border border-indigo-400 text-white text-sm sm:text-base focus:ring-2 focus:ring-indigo-300 outline-none resize-y"
+                    aria-label="Edited message"
+                    autoFocus
+                  />
+                  <div className="flex justify-end gap-2 text-sm">
+                    <button type="button" onClick={() => setEditingTurn(null)} className="px-3 py-1 rounded-lg hover:bg-indigo-500">
+                      Cancel
+                    </button>
+                    <button type="submit" disabled={isBusy || !editingTurn.text.trim()} className="px-3 py-1 rounded-lg bg-white text-indigo-700 hover:bg-indigo-100 disabled:opacity-50">
+                      Send
+                    </button>
+                  </div>
+                </form>
+              ) : msg.sender === 'bot' && typeof msg.text === 'string' && !msg.isError ? (
+                <div className="text-sm sm:text-base"><MarkdownMessage text={msg.text} /></div>
+              ) : (
+                <div className={`text-sm sm:text-base whitespace-pre-wrap ${msg.sender === 'system' ? 'italic' : ''}`}>{msg.text}</div>
+              )}
+              {msg.sender === 'bot' && msg.pdfContextUsed && !msg.isError && (
+                msg.citations && msg.citations.length > 0 ? (
+                  <div className="flex flex-wrap items-center gap-1.5 mt-2">
+                    {msg.citations.map((citation, i, citations) => (
+                      <button
+                        key={`${citation.documentId}-${citation.page}-${i}`}
+                        // Only PDFs can be opened in the viewer; section citations show their quote on hover
+                        onClick={() => citation.unit !== 'section' && setOpenCitation(citation)}
+                        className={`max-w-[16rem] truncate px-2 py-0.5 rounded-full bg-indigo-600/40 text-indigo-100 text-xs transition-colors ${citation.unit === 'section' ? 'cursor-default' : 'hover:bg-indigo-500/60'}`}
+                        title={[citation.documentName, citation.quote].filter(Boolean).join(': ') || undefined}
+                      >
+                        {/* Name the document only when the answer draws on more than one */}
+                        {citation.documentName && citations.some(c => c.documentId !== citation.documentId) && `${citation.documentName} · `}
+                        {citation.unit === 'section' ? '§' : 'p.'} {citation.page}
+                      </button>
+                    ))}
+                  </div>
+                ) : <p className="text-xs text-indigo-300 opacity-70 mt-1.5">(Relied on document context)</p>
+              )}
+              {msg.sender === 'bot' && msg.wasStopped && <p className="text-xs text-slate-400 opacity-70 mt-1.5">(Generation stopped)</p>}
+              {msg.sender === 'bot' && msg.turnId && (
+                <div className="flex flex-wrap items-start gap-x-2">
+                  <BranchControls
+                    turnId={msg.turnId}
+                    siblingIds={msg.siblingIds ?? [msg.turnId]}
+                    disabled={isBusy}
+                    onSwitch={switchBranch}
+                    onRegenerate={regenerateReply}
+                  />
+                  {!msg.isError && <FeedbackControls turnId={msg.turnId} feedback={msg.feedback ?? null} onChange={updateFeedback} />}
                 </div>
               )}
-              <div className={`text-sm sm:text-base whitespace-pre-wrap ${msg.sender === 'system' ? 'italic' : ''}`}>{msg.text}</div>
-              {msg.sender === 'bot' && msg.pdfContextUsed && !msg.isError && <p className="text-xs text-indigo-300 opacity-70 mt-1.5">(Relied on PDF context)</p>}
             </div>
           </div>
         ))}
@@ -307,14 +943,14 @@ export default function ChatbotPage() {
       <footer className="bg-slate-900 p-3 sm:p-4 shadow-top sticky bottom-0 z-50 border-t border-slate-700">
         <form onSubmit={handleSubmitQuery} className="flex items-center space-x-2 sm:space-x-3">
           <label
-            htmlFor="pdf-upload-footer"
+            htmlFor="document-upload-footer"
             className={`p-3 rounded-lg ${isUploadingPdf ? 'animate-pulse bg-indigo-700 cursor-wait' : 'bg-slate-700 hover:bg-slate-600'} ${isBusy && !isUploadingPdf ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer'} text-slate-300 hover:text-indigo-300 transition-colors flex items-center justify-center`}
-            aria-label={isUploadingPdf ? "Uploading PDF..." : "Upload PDF for context"}
+            aria-label={isUploadingPdf ? "Uploading document..." : "Upload a document for context"}
             tabIndex={isBusy ? -1 : 0}
             onKeyDown={(e) => { if (e.key === 'Enter' || e.key === ' ') fileInputRef.current?.click(); }}
           >
             {isUploadingPdf ? <Loader2 size={20} className="animate-spin" /> : <Paperclip size={20} />}
-            <input id="pdf-upload-footer" type="file" accept=".pdf" className="hidden" onChange={handlePdfUpload} disabled={isBusy} ref={fileInputRef} />
+            <input id="document-upload-footer" type="file" accept={ACCEPTED_UPLOAD_TYPES} multiple className="hidden" onChange={handleDocumentUpload} disabled={isBusy} ref={fileInputRef} />
           </label>
 
           <input
@@ -322,21 +958,50 @@ export default function ChatbotPage() {
             type="text"
             value={userInput}
             onChange={(e) => setUserInput(e.target.value)}
-            placeholder={isBusy ? "Processing your request..." : "Ask Gemini anything, or about the PDF..."}
+            placeholder={isBusy ? "Processing your request..." : "Ask Gemini anything, or about your documents..."}
             className="flex-grow p-3 bg-slate-700 border border-slate-600 rounded-lg text-slate-100 placeholder-slate-400 focus:outline-none focus:ring-1 focus:ring-indigo-500 focus:border-indigo-500 transition-shadow text-sm sm:text-base"
             disabled={isBusy}
             aria-label="Chat message input"
           />
-          <button
-            type="submit"
-            className="p-3 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white disabled:bg-slate-600 disabled:opacity-60 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
-            disabled={isBusy || !userInput.trim()}
-            aria-label={isProcessingQuery ? "Sending message..." : "Send Message"}
-          >
-            {isProcessingQuery ? <Loader2 size={24} className="animate-spin" /> : <Send size={24} />}
-          </button>
+          {isProcessingQuery ? (
+            <button
+              type="button"
+              onClick={handleStopGeneration}
+              className="p-3 rounded-lg bg-red-600 hover:bg-red-700 text-white transition-colors flex items-center justify-center"
+              aria-label="Stop generating"
+            >
+              <Square size={24} />
+            </button>
+          ) : (
+            <button
+              type="submit"
+              className="p-3 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white disabled:bg-slate-600 disabled:opacity-60 disabled:cursor-not-allowed transition-colors flex items-center justify-center"
+              disabled={isBusy || !userInput.trim()}
+              aria-label="Send Message"
+            >
+              <Send size={24} />
+            </button>
+          )}
         </form>
+        {quota && (
+          <p className={`mt-2 text-center text-xs ${quota.messages.remaining === 0 || quota.tokens.remaining === 0 ? 'text-red-300' : 'text-slate-500'}`}>
+            {quota.messages.remaining} of {quota.messages.limit} messages and {quota.tokens.remaining.toLocaleString()} tokens left today
+            {' '}· resets at {new Date(quota.resetsAt).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+          </p>
+        )}
       </footer>
+      </div>
+      </div>
+
+      {openCitation && (
+        <PdfViewer
+          documentId={openCitation.documentId}
+          documentName={openCitation.documentName}
+          page={openCitation.page}
+          quote={openCitation.quote}
+          onClose={() => setOpenCitation(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -20,12 +20,13 @@ export default function ChatbotPage() {
 
   const [userInput, setUserInput] = useState('');
   const [messages, setMessages] = useState<Message[]>([]);
-  const [uploadedPdfText, setUploadedPdfText] = useState<string | null>(null);
+  const [uploadedDocumentId, setUploadedDocumentId] = useState<string | null>(null);
   const [pdfName, setPdfName] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isLoadingHistory, setIsLoadingHistory] = useState(false); // New state for history loading
   const [error, setError] = useState<string | null>(null);
   const [historyLoaded, setHistoryLoaded] = useState(false); // To prevent multiple loads
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null); // `before` for the next older page
 
   const messagesEndRef = useRef<null | HTMLDivElement>(null);
 
@@ -72,7 +73,7 @@ export default function ChatbotPage() {
       }
 
       const data = await response.json();
-      setUploadedPdfText(data.text);
+      setUploadedDocumentId(data.document.id);
       setMessages(prev => [...prev, { id: Date.now().toString(), text: `Successfully uploaded and processed: ${file.name}`, sender: 'bot', timestamp: new Date().toISOString() }]);
     } catch (err: any) {
       console.error("PDF Upload Error:", err);
@@ -100,7 +101,7 @@ export default function ChatbotPage() {
       const response = await fetch('/api/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ query: currentQuery, pdfText: uploadedPdfText }), // Use stored query
+        body: JSON.stringify({ query: currentQuery, documentIds: uploadedDocumentId ? [uploadedDocumentId] : [] }), // Use stored query
       });
 
       if (!response.ok) {
@@ -113,7 +114,7 @@ export default function ChatbotPage() {
         id: (Date.now() + 1).toString(),
         text: data.reply,
         sender: 'bot',
-        pdfContextUsed: !!uploadedPdfText,
+        pdfContextUsed: !!uploadedDocumentId,
         timestamp: new Date().toISOString()
       };
       setMessages(prev => [...prev, botMessage]);
@@ -133,37 +134,28 @@ export default function ChatbotPage() {
   };
 
   const fetchChatHistory = async () => {
-    if (historyLoaded) {
-        setMessages(prev => [...prev, {id: Date.now().toString(), text: "Chat history already loaded.", sender: 'bot', timestamp: new Date().toISOString()}]);
+    if (historyLoaded && !historyCursor) {
+        setMessages(prev => [...prev, {id: Date.now().toString(), text: "All chat history already loaded.", sender: 'bot', timestamp: new Date().toISOString()}]);
         return;
     }
     setIsLoadingHistory(true);
     setError(null);
     try {
-      const response = await fetch('/api/chat-history');
+      // The first load gets the newest page; each further click pages back from the oldest turn shown
+      const response = await fetch(historyCursor ? `/api/chat-history?before=${encodeURIComponent(historyCursor)}` : '/api/chat-history');
       if (!response.ok) {
         const errorData = await response.json();
         throw new Error(errorData.error || 'Failed to fetch history');
       }
-      const historyData: Message[] = await response.json();
-      // Prepend history to current messages, ensuring no duplicates if any session messages were already history
-      // A more robust approach might involve checking IDs if loading multiple times or merging.
-      // For simplicity, we'll prepend and sort, assuming `historyLoaded` prevents redundant full loads.
-      setMessages(prevMessages => {
-        // Create a Set of existing message IDs for quick lookup
-        const existingMessageIds = new Set(prevMessages.map(msg => msg.id));
-        // Filter out history messages that are already in the current messages array
-        const uniqueHistoryMessages = historyData.filter(histMsg => !existingMessageIds.has(histMsg.id));
-        // Combine unique history with current messages and sort by timestamp
-        const combined = [...uniqueHistoryMessages, ...prevMessages];
-        combined.sort((a, b) => new Date(a.timestamp!).getTime() - new Date(b.timestamp!).getTime());
-        return combined;
-      });
+      const historyData: { messages: Message[]; nextBefore: string | null } = await response.json();
+      // Every page is older than what is already shown, so it simply goes in front
+      setMessages(prevMessages => [...historyData.messages, ...prevMessages]);
+      setHistoryCursor(historyData.nextBefore);
       setHistoryLoaded(true); // Mark history as loaded
-      if (historyData.length === 0) {
+      if (historyData.messages.length === 0) {
         setMessages(prev => [...prev, {id: Date.now().toString(), text: "No previous chat history found.", sender: 'bot', timestamp: new Date().toISOString()}]);
       } else {
-        setMessages(prev => [...prev, {id: Date.now().toString(), text: "Chat history loaded.", sender: 'bot', timestamp: new Date().toISOString()}]);
+        setMessages(prev => [...prev, {id: Date.now().toString(), text: historyData.nextBefore ? "Chat history loaded. Click the history button again for older messages." : "Chat history loaded.", sender: 'bot', timestamp: new Date().toISOString()}]);
       }
     } catch (err: any) {
       console.error("Fetch History Error:", err);
@@ -222,8 +214,8 @@ export default function ChatbotPage() {
       {/* PDF Info & Error Display (same as before) ... */}
       {pdfName && (
         <div className="p-2 bg-blue-100 text-blue-700 text-sm text-center">
-          Context: {pdfName} {uploadedPdfText ? `(${Math.round(uploadedPdfText.length / 1024)} KB processed)` : ''}
-          <button onClick={() => { setUploadedPdfText(null); setPdfName(null); setMessages(prev => [...prev, {id: Date.now().toString(), text: "PDF context cleared.", sender: 'bot', timestamp: new Date().toISOString()}]);}} className="ml-2 text-red-500 hover:text-red-700 font-semibold">[Clear]</button>
+          Context: {pdfName}
+          <button onClick={() => { setUploadedDocumentId(null); setPdfName(null); setMessages(prev => [...prev, {id: Date.now().toString(), text: "PDF context cleared.", sender: 'bot', timestamp: new Date().toISOString()}]);}} className="ml-2 text-red-500 hover:text-red-700 font-semibold">[Clear]</button>
         </div>
       )}
       {error && <div className="p-3 bg-red-100 text-red-700 text-sm text-center">{error}</div>}
@@ -0,0 +1,100 @@
+// src/app/share/[token]/page.tsx
+// Public, read-only view of a shared conversation snapshot. Rendered on the server; no login needed.
+import type { Metadata } from 'next';
+import { Bot as BotIcon, User as UserIcon, Link2Off } from 'lucide-react';
+import { createSupabaseServerClient } from '@/lib/supabase/server';
+import { loadSharedConversation, type SharedCitation } from '@/lib/shares';
+import MarkdownMessage from '@/components/MarkdownMessage';
+
+export const dynamic = 'force-dynamic';
+
+// Share links are unlisted; keep them out of search engines
+export const metadata: Metadata = {
+  title: 'Shared conversation · Gemini Chatbot',
+  robots: { index: false, follow: false },
+};
+
+type SharePageProps = { params: Promise<{ token: string }> };
+
+function CitationChip({ citation, named }: { citation: SharedCitation; named: boolean }) {
+  const label = `${named ? `${citation.documentName} · ` : ''}${citation.unit === 'section' ? '§' : 'p.'} ${citation.page}`;
+  const chipClass = 'px-2 py-0.5 rounded-full bg-indigo-600/40 text-indigo-100 text-xs';
+  if (!citation.quote && !citation.excerpt) {
+    return <span className={chipClass} title={citation.documentName}>{label}</span>;
+  }
+  return (
+    <details className="w-full">
+      <summary className={`${chipClass} inline-block cursor-pointer hover:bg-indigo-500/60`}>{label}</summary>
+      <div className="mt-1.5 p-2 rounded-lg bg-slate-800 text-xs text-slate-300 space-y-1.5">
+        {citation.quote && <blockquote className="border-l-2 border-amber-400 pl-2 italic">{citation.quote}</blockquote>}
+        {citation.excerpt && <p className="whitespace-pre-wrap max-h-60 overflow-y-auto">{citation.excerpt}</p>}
+      </div>
+    </details>
+  );
+}
+
+export default async function SharePage({ params }: SharePageProps) {
+  const { token } = await params;
+  const snapshot = await loadSharedConversation(createSupabaseServerClient(), token);
+
+  if (!snapshot) {
+    return (
+      <div className="flex flex-col items-center justify-center min-h-screen bg-slate-900 text-slate-300 p-6 text-center">
+        <Link2Off size={40} className="text-slate-500 mb-4" />
+        <h1 className="text-xl font-semibold text-slate-100 mb-2">This link isn&apos;t available</h1>
+        <p className="text-sm">It may have expired, or its owner may have revoked it or deleted the conversation.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-slate-100">
+      <header className="p-4 sm:p-6 border-b border-slate-700 bg-slate-800/50">
+        <h1 className="text-lg sm:text-xl font-semibold">{snapshot.title || 'Shared conversation'}</h1>
+        <p className="text-xs text-slate-400 mt-1">
+          Read-only snapshot shared {new Date(snapshot.sharedAt).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' })} UTC
+        </p>
+      </header>
+      <main className="max-w-4xl mx-auto p-4 sm:p-6 space-y-4">
+        {snapshot.turns.map((turn, i) => (
+          <section key={i} className="space-y-3">
+            <div className="flex justify-end">
+              <div className="p-3 rounded-2xl rounded-br-lg shadow-md break-words bg-indigo-600 text-white max-w-[85%] sm:max-w-[75%]">
+                <div className="flex items-center mb-1.5 text-xs">
+                  <UserIcon size={16} className="mr-1.5 flex-shrink-0" />
+                  <span className="font-semibold">Question</span>
+                </div>
+                <div className="text-sm sm:text-base whitespace-pre-wrap">{turn.userQuery}</div>
+              </div>
+            </div>
+            <div className="flex justify-start">
+              <div className="p-3 rounded-2xl rounded-bl-lg shadow-md break-words bg-slate-700 text-slate-100 max-w-[85%] sm:max-w-[75%]">
+                <div className="flex items-center mb-1.5 text-xs">
+                  <BotIcon size={16} className="mr-1.5 flex-shrink-0" />
+                  <span className="font-semibold">Gemini Bot</span>
+                  {turn.pdfContextUsed && turn.documents.length > 0 && (
+                    <span className="text-slate-400 ml-2 opacity-80">from {turn.documents.join(', ')}</span>
+                  )}
+                </div>
+                {turn.botResponse
+                  ? <div className="text-sm sm:text-base"><MarkdownMessage text={turn.botResponse} /></div>
+                  : <p className="text-sm italic text-slate-400">(No reply)</p>}
+                {turn.citations.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-1.5 mt-2">
+                    {turn.citations.map((citation, j, citations) => (
+                      <CitationChip
+                        key={`${citation.documentName}-${citation.page}-${j}`}
+                        citation={citation}
+                        named={citations.some(c => c.documentName !== citation.documentName)}
+                      />
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          </section>
+        ))}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+// src/components/BranchControls.tsx
+"use client";
+
+import React from 'react';
+import { ChevronLeft, ChevronRight, RefreshCw } from 'lucide-react';
+
+interface BranchControlsProps {
+  turnId: string;
+  siblingIds: string[]; // The turn and its alternatives, oldest first
+  disabled: boolean;
+  onSwitch: (turnId: string) => void;
+  onRegenerate: (turnId: string) => void;
+}
+
+// Under a bot reply: "‹ 2/3 ›" between the turn's alternatives, and a button to generate another one.
+const BranchControls: React.FC<BranchControlsProps> = ({ turnId, siblingIds, disabled, onSwitch, onRegenerate }) => {
+  const index = siblingIds.indexOf(turnId);
+  return (
+    <div className="flex items-center gap-1 mt-2 text-xs text-slate-400">
+      {siblingIds.length > 1 && (
+        <>
+          <button
+            onClick={() => onSwitch(siblingIds[index - 1])}
+            disabled={disabled || index <= 0}
+            className="p-0.5 rounded hover:bg-slate-600 hover:text-slate-100 disabled:opacity-40"
+            aria-label="Previous version"
+          >
+            <ChevronLeft size={14} />
+          </button>
+          <span className="tabular-nums">{index + 1}/{siblingIds.length}</span>
+          <button
+            onClick={() => onSwitch(siblingIds[index + 1])}
+            disabled={disabled || index >= siblingIds.length - 1}
+            className="p-0.5 rounded hover:bg-slate-600 hover:text-slate-100 disabled:opacity-40"
+            aria-label="Next version"
+          >
+            <ChevronRight size={14} />
+          </button>
+        </>
+      )}
+      <button
+        onClick={() => onRegenerate(turnId)}
+        disabled={disabled}
+        className="p-0.5 rounded hover:bg-slate-600 hover:text-slate-100 disabled:opacity-40"
+        aria-label="Regenerate reply"
+        title="Regenerate"
+      >
+        <RefreshCw size={14} />
+      </button>
+    </div>
+  );
+};
+
+export default BranchControls;
@@ -0,0 +1,82 @@
+// src/components/ChatSettingsPanel.tsx
+"use client";
+
+import React from 'react';
+import { X } from 'lucide-react';
+import type { ChatSettings, ChatSettingsOptions } from '@/lib/llm/settings';
+
+interface ChatSettingsPanelProps {
+  options: ChatSettingsOptions | null;
+  settings: ChatSettings | null; // null: the server defaults
+  onChange: (settings: ChatSettings) => void;
+  onClose: () => void;
+}
+
+const SLIDERS: { key: Exclude<keyof ChatSettings, 'model'>; label: string; hint: string }[] = [
+  { key: 'temperature', label: 'Temperature', hint: 'Higher is more varied, lower is more focused.' },
+  { key: 'maxOutputTokens', label: 'Max output tokens', hint: 'Longest reply the model may write.' },
+  { key: 'topP', label: 'Top-p', hint: 'Share of likely words considered at each step.' },
+];
+
+// Model and generation settings for the current conversation; they're saved with its next message.
+const ChatSettingsPanel: React.FC<ChatSettingsPanelProps> = ({ options, settings: chosenSettings, onChange, onClose }) => {
+  const settings = chosenSettings ?? options?.defaults;
+
+  return (
+    <div className="absolute right-3 top-full mt-2 w-80 bg-slate-800 border border-slate-700 rounded-xl shadow-2xl z-50">
+      <div className="flex items-center justify-between p-3 border-b border-slate-700">
+        <h2 className="text-sm font-semibold text-slate-200">Conversation settings</h2>
+        <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-700 text-slate-400 hover:text-slate-100" aria-label="Close settings">
+          <X size={16} />
+        </button>
+      </div>
+      {!options || !settings ? (
+        <p className="p-4 text-sm text-slate-400">Settings are unavailable right now.</p>
+      ) : (
+        <div className="p-3 space-y-4 text-sm text-slate-300">
+          <label className="block">
+            <span className="block mb-1 font-medium">Model</span>
+            <select
+              value={settings.model}
+              onChange={e => onChange({ ...settings, model: e.target.value })}
+              className="w-full p-2 rounded-lg bg-slate-700 border border-slate-600 text-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              {options.models.map(model => (
+                <option key={model.id} value={model.id}>{model.label}</option>
+              ))}
+            </select>
+          </label>
+          {SLIDERS.map(({ key, label, hint }) => (
+            <label key={key} className="block">
+              <span className="flex justify-between mb-1">
+                <span className="font-medium">{label}</span>
+                <span className="text-slate-400 tabular-nums">{settings[key]}</span>
+              </span>
+              <input
+                type="range"
+                min={options.bounds[key].min}
+                max={options.bounds[key].max}
+                step={options.bounds[key].step}
+                value={settings[key]}
+                onChange={e => onChange({ ...settings, [key]: Number(e.target.value) })}
+                className="w-full accent-indigo-500"
+              />
+              <span className="block text-xs text-slate-400">{hint}</span>
+            </label>
+          ))}
+          <div className="flex items-center justify-between pt-1">
+            <span className="text-xs text-slate-400">Applies from your next message.</span>
+            <button
+              onClick={() => onChange(options.defaults)}
+              className="px-2 py-1 rounded-md text-xs text-indigo-300 hover:bg-slate-700 hover:text-indigo-200"
+            >
+              Reset to defaults
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatSettingsPanel;
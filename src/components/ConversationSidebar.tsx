@@ -0,0 +1,128 @@
+// src/components/ConversationSidebar.tsx
+"use client";
+
+import React, { useState } from 'react';
+import { MessageSquare, Plus, Pencil, Trash2, Check, X, FileText } from 'lucide-react';
+import type { Conversation } from '@/lib/conversations';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  disabled?: boolean;
+  onSelect: (conversationId: string) => void;
+  onNew: () => void;
+  onRename: (conversationId: string, title: string) => void;
+  onDelete: (conversationId: string) => void;
+  onDeleteAllData: () => void;
+}
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  conversations, activeConversationId, disabled, onSelect, onNew, onRename, onDelete, onDeleteAllData
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startEditing = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title ?? '');
+  };
+
+  const submitRename = (conversationId: string) => {
+    if (draftTitle.trim()) onRename(conversationId, draftTitle.trim());
+    setEditingId(null);
+  };
+
+  const confirmDelete = (conversation: Conversation) => {
+    if (window.confirm(`Delete "${conversation.title ?? 'New chat'}" and all of its messages?`)) {
+      onDelete(conversation.id);
+    }
+  };
+
+  // Typing the word guards against a stray click wiping everything
+  const confirmDeleteAllData = () => {
+    const answer = window.prompt(
+      'This deletes all of your conversations, messages, personas and the documents in your own library. '
+      + 'Documents you added to workspace libraries stay there. Type DELETE to confirm.',
+    );
+    if (answer?.trim() === 'DELETE') onDeleteAllData();
+  };
+
+  return (
+    <aside className="hidden md:flex flex-col w-64 flex-shrink-0 bg-slate-900 border-r border-slate-700">
+      <div className="p-3 border-b border-slate-700">
+        <button
+          onClick={onNew}
+          disabled={disabled}
+          className="w-full flex items-center justify-center space-x-2 p-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-sm disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Plus size={16} />
+          <span>New chat</span>
+        </button>
+      </div>
+      <nav className="flex-grow overflow-y-auto p-2 space-y-1" aria-label="Conversations">
+        {conversations.length === 0 && (
+          <p className="text-xs text-slate-500 text-center mt-4">No conversations yet.</p>
+        )}
+        {conversations.map(conversation => {
+          const isActive = conversation.id === activeConversationId;
+          return (
+            <div
+              key={conversation.id}
+              className={`group flex items-center rounded-lg text-sm ${isActive ? 'bg-slate-700 text-indigo-300' : 'text-slate-300 hover:bg-slate-800'}`}
+            >
+              {editingId === conversation.id ? (
+                <form
+                  className="flex items-center flex-grow p-1 space-x-1"
+                  onSubmit={(e) => { e.preventDefault(); submitRename(conversation.id); }}
+                >
+                  <input
+                    autoFocus
+                    value={draftTitle}
+                    onChange={(e) => setDraftTitle(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Escape') setEditingId(null); }}
+                    className="flex-grow min-w-0 p-1 bg-slate-800 border border-slate-600 rounded text-slate-100 text-sm focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                    aria-label="Conversation title"
+                  />
+                  <button type="submit" className="p-1 text-slate-400 hover:text-green-400" aria-label="Save title"><Check size={14} /></button>
+                  <button type="button" onClick={() => setEditingId(null)} className="p-1 text-slate-400 hover:text-red-400" aria-label="Cancel rename"><X size={14} /></button>
+                </form>
+              ) : (
+                <>
+                  <button
+                    onClick={() => onSelect(conversation.id)}
+                    disabled={disabled}
+                    className="flex items-center flex-grow min-w-0 p-2 text-left disabled:cursor-not-allowed"
+                    title={conversation.documents.length > 0
+                      ? `${conversation.documents.length === 1 ? 'Document' : 'Documents'}: ${conversation.documents.map(document => document.name).join(', ')}`
+                      : undefined}
+                  >
+                    {conversation.documents.length > 0
+                      ? <FileText size={14} className="mr-2 flex-shrink-0" />
+                      : <MessageSquare size={14} className="mr-2 flex-shrink-0" />}
+                    <span className="truncate">{conversation.title ?? 'New chat'}</span>
+                  </button>
+                  <div className="hidden group-hover:flex items-center pr-1">
+                    <button onClick={() => startEditing(conversation)} className="p-1 text-slate-400 hover:text-indigo-300" aria-label="Rename conversation"><Pencil size={14} /></button>
+                    <button onClick={() => confirmDelete(conversation)} disabled={disabled} className="p-1 text-slate-400 hover:text-red-400" aria-label="Delete conversation"><Trash2 size={14} /></button>
+                  </div>
+                </>
+              )}
+            </div>
+          );
+        })}
+      </nav>
+      <div className="p-3 border-t border-slate-700">
+        <button
+          onClick={confirmDeleteAllData}
+          disabled={disabled}
+          className="w-full flex items-center justify-center space-x-2 p-1.5 rounded-lg text-xs text-slate-400 hover:text-red-400 hover:bg-slate-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          <Trash2 size={14} />
+          <span>Delete all my data</span>
+        </button>
+      </div>
+    </aside>
+  );
+};
+
+export default ConversationSidebar;
@@ -0,0 +1,150 @@
+// src/components/DocumentLibrary.tsx
+"use client";
+
+import React, { ChangeEvent, useEffect, useState } from 'react';
+import { FileText, Loader2, Upload, X } from 'lucide-react';
+import type { DocumentSummary } from '@/lib/documents';
+import { ACCEPTED_UPLOAD_TYPES, documentUnit } from '@/lib/extractors/formats';
+import type { Workspace } from '@/lib/workspaces';
+
+interface DocumentLibraryProps {
+  attachedDocumentIds: string[];
+  onAttach: (document: DocumentSummary) => void;
+  onClose: () => void;
+}
+
+// "Documents" panel: lists earlier uploads, in the user's own library or a workspace's, so they can be re-attached
+// without uploading again. Workspace owners and editors can add files to the workspace library from here.
+const DocumentLibrary: React.FC<DocumentLibraryProps> = ({ attachedDocumentIds, onAttach, onClose }) => {
+  const [documents, setDocuments] = useState<DocumentSummary[]>([]);
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null); // null: the user's own library
+  const [isLoading, setIsLoading] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const workspace = workspaces.find(w => w.id === workspaceId);
+  const canUpload = workspace !== undefined && workspace.role !== 'viewer';
+
+  useEffect(() => {
+    const fetchWorkspaces = async () => {
+      try {
+        const response = await fetch('/api/workspaces');
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        setWorkspaces(data);
+      } catch (err: unknown) {
+        // The personal library still works
+        console.error("Fetch Workspaces Error:", err);
+      }
+    };
+    fetchWorkspaces();
+  }, []);
+
+  useEffect(() => {
+    const fetchDocuments = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const response = await fetch(workspaceId ? `/api/documents?${new URLSearchParams({ workspaceId })}` : '/api/documents');
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        setDocuments(data);
+      } catch (err: unknown) {
+        console.error("Fetch Documents Error:", err);
+        setError(err instanceof Error ? err.message : String(err));
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    fetchDocuments();
+  }, [workspaceId]);
+
+  const uploadToWorkspace = async (event: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (!workspaceId || files.length === 0) return;
+
+    setIsUploading(true);
+    setError(null);
+    for (const file of files) {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('workspaceId', workspaceId);
+      try {
+        const response = await fetch('/api/documents', { method: 'POST', body: formData });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        setDocuments(prev => prev.some(d => d.id === data.document.id) ? prev : [data.document, ...prev]);
+      } catch (err: unknown) {
+        console.error("Workspace Upload Error:", err);
+        setError(`Failed to add "${file.name}": ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+    setIsUploading(false);
+  };
+
+  return (
+    <div className="absolute right-3 top-full mt-2 w-80 max-h-96 overflow-y-auto bg-slate-800 border border-slate-700 rounded-xl shadow-2xl z-50">
+      <div className="flex items-center justify-between p-3 border-b border-slate-700">
+        <h2 className="text-sm font-semibold text-slate-200">Documents</h2>
+        <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-700 text-slate-400 hover:text-slate-100" aria-label="Close documents">
+          <X size={16} />
+        </button>
+      </div>
+      {workspaces.length > 0 && (
+        <div className="flex items-center gap-2 px-3 pt-3">
+          <select
+            value={workspaceId ?? ''}
+            onChange={e => setWorkspaceId(e.target.value || null)}
+            className="flex-grow min-w-0 p-1.5 rounded-lg bg-slate-700 border border-slate-600 text-xs text-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none"
+            aria-label="Library"
+          >
+            <option value="">My documents</option>
+            {workspaces.map(w => <option key={w.id} value={w.id}>{w.name}</option>)}
+          </select>
+          {canUpload && (
+            <label className={`flex items-center px-2 py-1.5 rounded-lg text-xs text-slate-300 hover:bg-slate-700 ${isUploading ? 'opacity-50' : 'cursor-pointer'}`}>
+              {isUploading ? <Loader2 size={14} className="animate-spin mr-1" /> : <Upload size={14} className="mr-1" />}
+              Add
+              <input type="file" accept={ACCEPTED_UPLOAD_TYPES} multiple className="hidden" onChange={uploadToWorkspace} disabled={isUploading} />
+            </label>
+          )}
+        </div>
+      )}
+      {isLoading ? (
+        <div className="flex items-center justify-center p-4 text-slate-400 text-sm">
+          <Loader2 size={16} className="animate-spin mr-2" /> Loading documents...
+        </div>
+      ) : error && documents.length === 0 ? (
+        <p className="p-4 text-sm text-red-300">Error loading documents: {error}</p>
+      ) : documents.length === 0 ? (
+        <p className="p-4 text-sm text-slate-400">{workspace ? 'No documents in this workspace yet.' : 'No documents uploaded yet.'}</p>
+      ) : (
+        <ul className="p-2 space-y-1">
+          {documents.map(document => (
+            <li key={document.id}>
+              <button
+                onClick={() => onAttach(document)}
+                disabled={attachedDocumentIds.includes(document.id)}
+                className="w-full flex items-start p-2 rounded-lg text-left text-sm text-slate-300 hover:bg-slate-700 disabled:bg-indigo-700/40 disabled:cursor-default"
+              >
+                <FileText size={16} className="mr-2 mt-0.5 flex-shrink-0 text-indigo-300" />
+                <span className="min-w-0">
+                  <span className="block truncate font-medium">{document.name}</span>
+                  <span className="block text-xs text-slate-400">
+                    {document.page_count} {documentUnit(document.mime_type)}{document.page_count === 1 ? '' : 's'} · {new Date(document.created_at).toLocaleDateString()}
+                    {attachedDocumentIds.includes(document.id) && ' · attached'}
+                  </span>
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && documents.length > 0 && <p className="px-3 pb-3 text-xs text-red-300">{error}</p>}
+    </div>
+  );
+};
+
+export default DocumentLibrary;
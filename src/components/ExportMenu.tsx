@@ -0,0 +1,174 @@
+// src/components/ExportMenu.tsx
+"use client";
+
+import React, { useState } from 'react';
+import { Loader2, Upload, X } from 'lucide-react';
+import type { ExportFormat } from '@/lib/archive';
+import type { ImportSummary } from '@/lib/archive/import';
+
+interface ExportMenuProps {
+  activeConversationId: string | null;
+  onImported: () => void;
+  onClose: () => void;
+}
+
+type ExportScope = 'conversation' | 'history';
+
+const FORMAT_LABELS: Record<ExportFormat, string> = { markdown: 'Markdown', json: 'JSON', pdf: 'PDF' };
+
+// Saves the response under the file name the server chose.
+async function download(response: Response, fallbackName: string) {
+  const blob = await response.blob();
+  const filename = /filename="([^"]+)"/.exec(response.headers.get('Content-Disposition') ?? '')?.[1] ?? fallbackName;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// "Export" menu: downloads the current conversation, or a date / document-context selection of all history, and
+// imports an export or another tool's message list.
+const ExportMenu: React.FC<ExportMenuProps> = ({ activeConversationId, onImported, onClose }) => {
+  const [scope, setScope] = useState<ExportScope>(activeConversationId ? 'conversation' : 'history');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [pdfContext, setPdfContext] = useState<'' | 'true' | 'false'>('');
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
+
+  const exportAs = async (format: ExportFormat) => {
+    setExportingFormat(format);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ format });
+      if (scope === 'conversation' && activeConversationId) {
+        params.set('conversationId', activeConversationId);
+      } else {
+        if (from) params.set('from', from);
+        if (to) params.set('to', to);
+        if (pdfContext) params.set('pdfContext', pdfContext);
+      }
+      const response = await fetch(`/api/export?${params}`);
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      await download(response, `chat-export.${format === 'markdown' ? 'md' : format}`);
+    } catch (err: unknown) {
+      console.error("Export Error:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setExportingFormat(null);
+    }
+  };
+
+  const importFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setIsImporting(true);
+    setError(null);
+    setImportSummary(null);
+    try {
+      const response = await fetch('/api/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: await file.text(),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      setImportSummary(data);
+      onImported();
+    } catch (err: unknown) {
+      console.error("Import Error:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const inputClass = "w-full p-1.5 rounded-lg bg-slate-700 border border-slate-600 text-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+  return (
+    <div className="absolute right-3 top-full mt-2 w-80 bg-slate-800 border border-slate-700 rounded-xl shadow-2xl z-50">
+      <div className="flex items-center justify-between p-3 border-b border-slate-700">
+        <h2 className="text-sm font-semibold text-slate-200">Export &amp; import</h2>
+        <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-700 text-slate-400 hover:text-slate-100" aria-label="Close export">
+          <X size={16} />
+        </button>
+      </div>
+      <div className="p-3 space-y-3 text-xs text-slate-300">
+        <fieldset className="space-y-1">
+          <label className="flex items-center gap-1.5">
+            <input type="radio" checked={scope === 'conversation'} onChange={() => setScope('conversation')} disabled={!activeConversationId} />
+            This conversation
+          </label>
+          <label className="flex items-center gap-1.5">
+            <input type="radio" checked={scope === 'history'} onChange={() => setScope('history')} />
+            All history
+          </label>
+        </fieldset>
+        {scope === 'history' && (
+          <div className="grid grid-cols-2 gap-2">
+            <label>
+              <span className="block mb-0.5">From</span>
+              <input type="date" value={from} onChange={e => setFrom(e.target.value)} className={inputClass} />
+            </label>
+            <label>
+              <span className="block mb-0.5">To</span>
+              <input type="date" value={to} onChange={e => setTo(e.target.value)} className={inputClass} />
+            </label>
+            <label className="col-span-2">
+              <span className="block mb-0.5">Document context</span>
+              <select value={pdfContext} onChange={e => setPdfContext(e.target.value as '' | 'true' | 'false')} className={inputClass}>
+                <option value="">Any</option>
+                <option value="true">Used</option>
+                <option value="false">Not used</option>
+              </select>
+            </label>
+          </div>
+        )}
+        {error && <p className="text-sm text-red-300">{error}</p>}
+        <div className="flex gap-2">
+          {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => exportAs(format)}
+              disabled={exportingFormat !== null}
+              className="flex-1 flex items-center justify-center py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-sm disabled:opacity-50"
+            >
+              {exportingFormat === format && <Loader2 size={14} className="animate-spin mr-1.5" />}
+              {FORMAT_LABELS[format]}
+            </button>
+          ))}
+        </div>
+        <div className="pt-3 border-t border-slate-700 space-y-2">
+          <label className={`flex items-center justify-center py-1.5 rounded-lg bg-slate-700 hover:bg-slate-600 text-slate-100 text-sm cursor-pointer ${isImporting ? 'opacity-50 pointer-events-none' : ''}`}>
+            {isImporting ? <Loader2 size={14} className="animate-spin mr-1.5" /> : <Upload size={14} className="mr-1.5" />}
+            Import JSON…
+            <input type="file" accept="application/json,.json" onChange={importFile} className="hidden" />
+          </label>
+          <p className="text-slate-400">Accepts an export from here, or a list of {'{ role, content, timestamp }'} messages.</p>
+          {importSummary && (
+            <div className="space-y-1">
+              <p className="text-slate-200">
+                Imported {importSummary.turns.imported} turn(s) into {importSummary.conversations.created} new and {importSummary.conversations.existing} existing conversation(s); skipped {importSummary.turns.skipped} already imported.
+              </p>
+              {importSummary.errors.length > 0 && (
+                <ul className="max-h-24 overflow-y-auto text-red-300">
+                  {importSummary.errors.map(({ record, error: recordError }) => <li key={record}>{record}: {recordError}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportMenu;
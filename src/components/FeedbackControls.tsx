@@ -0,0 +1,126 @@
+// src/components/FeedbackControls.tsx
+"use client";
+
+import React, { useState } from 'react';
+import { Loader2, ThumbsDown, ThumbsUp } from 'lucide-react';
+import {
+  FEEDBACK_REASONS,
+  FEEDBACK_REASON_LABELS,
+  MAX_FEEDBACK_COMMENT_LENGTH,
+  type FeedbackReason,
+  type TurnFeedback,
+} from '@/lib/feedback';
+
+interface FeedbackControlsProps {
+  turnId: string;
+  feedback: TurnFeedback | null;
+  onChange: (turnId: string, feedback: TurnFeedback | null) => void;
+}
+
+// Under a bot reply: thumbs up, or thumbs down with optional reason tags and a comment. Clicking the chosen thumb
+// again withdraws the rating.
+const FeedbackControls: React.FC<FeedbackControlsProps> = ({ turnId, feedback, onChange }) => {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [reasons, setReasons] = useState<FeedbackReason[]>([]);
+  const [comment, setComment] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = async (next: TurnFeedback | null) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = next
+        ? await fetch(`/api/chat-history/${turnId}/feedback`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(next),
+          })
+        : await fetch(`/api/chat-history/${turnId}/feedback`, { method: 'DELETE' });
+      const data = response.status === 204 ? null : await response.json();
+      if (!response.ok) throw new Error(data?.error || `HTTP error! status: ${response.status}`);
+      onChange(turnId, data);
+      setIsFormOpen(false);
+    } catch (err: unknown) {
+      console.error("Save Feedback Error:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const rateUp = () => save(feedback?.rating === 'up' ? null : { rating: 'up', reasons: [], comment: null });
+
+  const rateDown = () => {
+    if (feedback?.rating === 'down' && !isFormOpen) {
+      save(null);
+      return;
+    }
+    if (isFormOpen) {
+      setIsFormOpen(false);
+      return;
+    }
+    setReasons([]);
+    setComment('');
+    setIsFormOpen(true);
+  };
+
+  const toggleReason = (reason: FeedbackReason) => {
+    setReasons(prev => prev.includes(reason) ? prev.filter(r => r !== reason) : [...prev, reason]);
+  };
+
+  const thumbClass = (active: boolean) =>
+    `p-0.5 rounded hover:bg-slate-600 hover:text-slate-100 disabled:opacity-40 ${active ? 'text-indigo-300' : ''}`;
+
+  return (
+    <div className="flex-grow mt-2 text-xs text-slate-400">
+      <div className="flex items-center justify-end gap-1">
+        {isSaving && <Loader2 size={12} className="animate-spin" />}
+        <button onClick={rateUp} disabled={isSaving} className={thumbClass(feedback?.rating === 'up')} aria-label="Good answer" title="Good answer">
+          <ThumbsUp size={14} fill={feedback?.rating === 'up' ? 'currentColor' : 'none'} />
+        </button>
+        <button onClick={rateDown} disabled={isSaving} className={thumbClass(feedback?.rating === 'down' || isFormOpen)} aria-label="Bad answer" title="Bad answer">
+          <ThumbsDown size={14} fill={feedback?.rating === 'down' ? 'currentColor' : 'none'} />
+        </button>
+      </div>
+      {isFormOpen && (
+        <div className="mt-2 p-2 rounded-lg bg-slate-800 space-y-2">
+          <p className="text-slate-300">What was wrong with this answer?</p>
+          <div className="flex flex-wrap gap-1.5">
+            {FEEDBACK_REASONS.map(reason => (
+              <button
+                key={reason}
+                onClick={() => toggleReason(reason)}
+                className={`px-2 py-0.5 rounded-full border ${reasons.includes(reason) ? 'bg-indigo-600 border-indigo-500 text-white' : 'border-slate-600 text-slate-300 hover:bg-slate-700'}`}
+                aria-pressed={reasons.includes(reason)}
+              >
+                {FEEDBACK_REASON_LABELS[reason]}
+              </button>
+            ))}
+          </div>
+          <textarea
+            value={comment}
+            onChange={e => setComment(e.target.value)}
+            maxLength={MAX_FEEDBACK_COMMENT_LENGTH}
+            rows={2}
+            placeholder="Anything else? (optional)"
+            className="w-full p-1.5 rounded-lg bg-slate-700 border border-slate-600 text-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none resize-none"
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setIsFormOpen(false)} className="px-2 py-0.5 rounded-lg text-slate-300 hover:bg-slate-700">Cancel</button>
+            <button
+              onClick={() => save({ rating: 'down', reasons, comment: comment.trim() || null })}
+              disabled={isSaving}
+              className="px-2 py-0.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50"
+            >
+              Send feedback
+            </button>
+          </div>
+        </div>
+      )}
+      {error && <p className="mt-1 text-red-300">{error}</p>}
+    </div>
+  );
+};
+
+export default FeedbackControls;
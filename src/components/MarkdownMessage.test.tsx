@@ -0,0 +1,122 @@
+// src/components/MarkdownMessage.test.tsx
+import { renderToStaticMarkup } from 'react-dom/server';
+import { describe, expect, it } from 'vitest';
+import MarkdownMessage from './MarkdownMessage';
+
+const render = (text: string) => renderToStaticMarkup(<MarkdownMessage text={text} />);
+
+// Elements and attributes a browser could run, or use to load something. Text content (e.g. the TeX source KaTeX
+// keeps in an annotation) may mention `javascript:` harmlessly; an attribute value may not.
+const EXECUTABLE_ELEMENT = /<(?:script|style|iframe|frame|object|embed|img|form|input|link|meta|base)[\s>/]/i;
+const EVENT_HANDLER = /\son[a-z]+=/i;
+const DANGEROUS_URL = /\s[\w:-]+="\s*(?:javascript|vbscript|data):/i;
+
+function expectInert(html: string) {
+  expect(html).not.toMatch(EXECUTABLE_ELEMENT);
+  expect(html).not.toMatch(EVENT_HANDLER);
+  expect(html).not.toMatch(DANGEROUS_URL);
+}
+
+describe('MarkdownMessage', () => {
+  it('renders ordinary Markdown, links and code', () => {
+    const html = render('# Title\n\nSee [the docs](https://example.com/docs).\n\n```ts\nconst a = 1;\n```');
+    expect(html).toContain('<h1 class="text-lg font-semibold mt-3 mb-1.5">Title</h1>');
+    expect(html).toContain('href="https://example.com/docs" target="_blank" rel="noopener noreferrer nofollow"');
+    expect(html).toContain('class="hljs language-ts"');
+  });
+
+  describe('raw HTML', () => {
+    it.each([
+      '<script>alert(1)</script>',
+      '<img src=x onerror="alert(1)">',
+      'Text <img src=x onerror=alert(1)> inline',
+      '<a href="javascript:alert(1)">click</a>',
+      '<iframe src="https://evil.example"></iframe>',
+      '<svg onload=alert(1)></svg>',
+    ])('drops %s', payload => {
+      const html = render(payload);
+      expectInert(html);
+      expect(html).not.toMatch(/<(?:a|svg)\s/);
+    });
+  });
+
+  describe('links', () => {
+    it.each([
+      '[x](javascript:alert(1))',
+      '[x](JaVaScRiPt:alert(1))',
+      '[x](  javascript:alert(1))',
+      '[x](java&#115;cript:alert(1))',
+      '[x](javascript&colon;alert(1))',
+      '[x](data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==)',
+      '[x](vbscript:msgbox(1))',
+      '[x](VBScript:msgbox(1))',
+      '[x][evil]\n\n[evil]: javascript:alert(1)',
+      '[x][evil]\n\n[evil]: JaVaScRiPt:alert(1)',
+      '[x][evil]\n\n[evil]: data:text/html,<script>alert(1)</script>',
+      '[x][evil]\n\n[evil]: vbscript:msgbox(1)',
+      '<javascript:alert(1)>',
+    ])('drops the target of %s', payload => {
+      const html = render(payload);
+      expectInert(html);
+      expect(html).not.toContain('href=');
+    });
+
+    it('drops relative links and fragments', () => {
+      expect(render('[x](/api/admin) [y](#top) [z](//evil.example)')).not.toContain('href=');
+    });
+
+    it('keeps mailto links', () => {
+      expect(render('[mail](mailto:help@example.com)')).toContain('href="mailto:help@example.com"');
+    });
+  });
+
+  describe('images', () => {
+    it.each([
+      '![tracker](https://evil.example/pixel.png)',
+      '![x](javascript:alert(1))',
+      '![x](data:image/svg+xml;base64,PHN2ZyBvbmxvYWQ9YWxlcnQoMSk+)',
+      '![x][img]\n\n[img]: https://evil.example/pixel.png',
+      '[![x](https://evil.example/a.png)](javascript:alert(1))',
+    ])('renders %s as a placeholder', payload => {
+      const html = render(payload);
+      expectInert(html);
+      expect(html).not.toContain('evil.example');
+      expect(html).toContain('[image: ');
+    });
+  });
+
+  describe('math', () => {
+    it('renders KaTeX', () => {
+      expect(render('$x^2$')).toContain('class="katex"');
+    });
+
+    it.each([
+      '$\\href{javascript:alert(1)}{click}$',
+      '$$\n\\href{javascript:alert(1)}{click}\n$$',
+      '$\\url{javascript:alert(1)}$',
+      '$\\htmlClass{x}{y}\\htmlData{onclick=alert(1)}{z}$',
+      '$\\includegraphics{https://evil.example/a.png}$',
+    ])('does not trust %s', payload => {
+      const html = render(payload);
+      expectInert(html);
+      expect(html).not.toContain('href=');
+      expect(html).not.toContain('evil.example/a.png"');
+    });
+  });
+
+  describe('code class names', () => {
+    it.each([
+      '```js" onclick="alert(1)\nx\n```',
+      '```x onmouseover=alert(1)\nx\n```',
+      '```"><script>alert(1)</script>\nx\n```',
+    ])('keeps %s from injecting attributes', payload => {
+      expectInert(render(payload));
+    });
+
+    it('turns the info string into a language class rather than a bare class name', () => {
+      const html = render('```hidden\nx\n```');
+      expect(html).toContain('<code class="hljs language-hidden">');
+      expect(html).not.toMatch(/class="(?:[^"]*\s)?hidden[\s"]/);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+// src/components/MarkdownMessage.tsx
+"use client";
+
+import React, { useRef, useState } from 'react';
+import ReactMarkdown, { defaultUrlTransform, type Components, type ExtraProps } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import rehypeKatex from 'rehype-katex';
+import rehypeHighlight from 'rehype-highlight';
+import { Check, Copy } from 'lucide-react';
+import 'katex/dist/katex.min.css';
+import 'highlight.js/styles/github-dark.css';
+
+// Raw HTML in model output is never parsed (no rehype-raw), so tags are dropped. The sanitiser is a second line
+// of defence over the Markdown-generated tree, and runs before KaTeX and highlighting so their output isn't stripped.
+const sanitizeSchema = {
+  ...defaultSchema,
+  attributes: {
+    ...defaultSchema.attributes,
+    code: [['className', /^language-./, 'math-inline', 'math-display']],
+  },
+};
+
+const SAFE_PROTOCOLS = /^(https?:|mailto:)/i;
+
+// Only http(s) and mailto links survive; relative links and fragments are dropped too, since they'd resolve against the app.
+function safeUrl(url: string): string {
+  const transformed = defaultUrlTransform(url);
+  return SAFE_PROTOCOLS.test(transformed) ? transformed : '';
+}
+
+const CodeBlock: React.FC<React.ComponentPropsWithoutRef<'pre'>> = ({ children, ...props }) => {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const copyCode = async () => {
+    try {
+      await navigator.clipboard.writeText(preRef.current?.innerText ?? '');
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (err: unknown) {
+      console.error("Copy Code Error:", err);
+    }
+  };
+
+  return (
+    <div className="relative group my-2">
+      <pre ref={preRef} {...props} className="overflow-x-auto rounded-lg bg-slate-950/80 p-3 pr-10 text-xs sm:text-sm">
+        {children}
+      </pre>
+      <button
+        type="button"
+        onClick={copyCode}
+        className="absolute top-2 right-2 p-1 rounded-md bg-slate-800/80 text-slate-400 hover:text-slate-100 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+        aria-label={copied ? 'Copied' : 'Copy code'}
+      >
+        {copied ? <Check size={14} /> : <Copy size={14} />}
+      </button>
+    </div>
+  );
+};
+
+// react-markdown hands every component its syntax-tree `node`; it must not reach the DOM element.
+function domProps<P extends ExtraProps>(props: P): Omit<P, 'node'> {
+  const rest = { ...props };
+  delete rest.node;
+  return rest;
+}
+
+function styled<Tag extends 'h1' | 'h2' | 'h3' | 'p' | 'ul' | 'ol' | 'blockquote' | 'th' | 'td'>(Tag: Tag, className: string) {
+  const StyledElement = (props: React.ComponentPropsWithoutRef<Tag> & ExtraProps) =>
+    React.createElement(Tag, { ...domProps(props), className });
+  StyledElement.displayName = `Markdown(${Tag})`;
+  return StyledElement;
+}
+
+const components: Components = {
+  pre: props => <CodeBlock {...domProps(props)} />,
+  code: ({ className, children, ...props }) => {
+    // Code blocks always end in a newline (and usually carry a language class); inline code spans never contain one
+    const isInline = !className && !String(children).includes('\n');
+    return (
+      <code {...domProps(props)} className={isInline ? 'px-1 py-0.5 rounded bg-slate-950/60 text-indigo-200 text-[0.9em]' : className}>
+        {children}
+      </code>
+    );
+  },
+  a: ({ href, ...props }) => href
+    ? <a {...domProps(props)} href={href} target="_blank" rel="noopener noreferrer nofollow" className="text-indigo-300 underline hover:text-indigo-200" />
+    : <span {...domProps(props)} />,
+  img: ({ alt }) => <span className="italic text-slate-400">[image: {alt || 'untitled'}]</span>, // No remote requests from model output
+  h1: styled('h1', 'text-lg font-semibold mt-3 mb-1.5'),
+  h2: styled('h2', 'text-base font-semibold mt-3 mb-1.5'),
+  h3: styled('h3', 'font-semibold mt-2 mb-1'),
+  p: styled('p', 'my-1.5'),
+  ul: styled('ul', 'list-disc pl-5 my-1.5 space-y-0.5'),
+  ol: styled('ol', 'list-decimal pl-5 my-1.5 space-y-0.5'),
+  blockquote: styled('blockquote', 'border-l-2 border-slate-500 pl-3 my-2 text-slate-300'),
+  table: props => (
+    <div className="overflow-x-auto my-2">
+      <table {...domProps(props)} className="min-w-full border-collapse text-xs sm:text-sm" />
+    </div>
+  ),
+  th: styled('th', 'border border-slate-600 bg-slate-800/80 px-2 py-1 text-left font-semibold'),
+  td: styled('td', 'border border-slate-600 px-2 py-1 align-top'),
+  hr: () => <hr className="my-3 border-slate-600" />,
+};
+
+// Renders a bot reply as GitHub-flavoured Markdown with highlighted code, copy buttons and KaTeX math.
+const MarkdownMessage: React.FC<{ text: string }> = ({ text }) => (
+  <div className="break-words">
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkMath]}
+      rehypePlugins={[[rehypeSanitize, sanitizeSchema], [rehypeKatex, { throwOnError: false, trust: false }], [rehypeHighlight, { detect: false }]]}
+      urlTransform={safeUrl}
+      components={components}
+    >
+      {text}
+    </ReactMarkdown>
+  </div>
+);
+
+export default MarkdownMessage;
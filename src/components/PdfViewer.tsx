@@ -0,0 +1,89 @@
+// src/components/PdfViewer.tsx
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Document, Page, pdfjs } from 'react-pdf';
+import 'react-pdf/dist/Page/TextLayer.css';
+import 'react-pdf/dist/Page/AnnotationLayer.css';
+import { Loader2, X } from 'lucide-react';
+
+pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+
+interface PdfViewerProps {
+  documentId: string;
+  documentName?: string;
+  page: number;
+  quote: string | null;
+  onClose: () => void;
+}
+
+const normalise = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+// The text layer is inserted as HTML, so item text must be escaped before adding <mark>.
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Modal viewer for an uploaded document, opened from a citation chip: scrolls to the cited page and highlights the quote.
+const PdfViewer: React.FC<PdfViewerProps> = ({ documentId, documentName, page, quote, onClose }) => {
+  const [numPages, setNumPages] = useState(0);
+  const [pageWidth, setPageWidth] = useState(800);
+  const pageRefs = useRef<Record<number, HTMLDivElement | null>>({});
+
+  useEffect(() => {
+    setPageWidth(Math.min(800, window.innerWidth - 64));
+    const handleKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const scrollToCitedPage = () => {
+    pageRefs.current[page]?.scrollIntoView({ block: 'start' });
+  };
+
+  const quoteText = quote ? normalise(quote) : null;
+  const renderText = useCallback(({ str, pageNumber }: { str: string; pageNumber: number }) => {
+    const itemText = normalise(str);
+    if (quoteText && pageNumber === page && itemText.length > 2 && quoteText.includes(itemText)) {
+      return `<mark class="bg-yellow-300/70 text-transparent">${escapeHtml(str)}</mark>`;
+    }
+    return escapeHtml(str);
+  }, [quoteText, page]);
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 flex flex-col items-center" role="dialog" aria-modal="true" aria-label="Document viewer">
+      <div className="w-full flex items-center justify-between p-3 bg-slate-900 border-b border-slate-700 text-slate-200 text-sm">
+        <span className="truncate">
+          {documentName && <strong className="font-medium">{documentName} · </strong>}
+          Page {page}{numPages ? ` of ${numPages}` : ''}
+        </span>
+        <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-700 text-slate-400 hover:text-slate-100" aria-label="Close document viewer">
+          <X size={20} />
+        </button>
+      </div>
+      <div className="flex-grow w-full overflow-y-auto py-4">
+        <Document
+          file={`/api/documents/${documentId}/file`}
+          onLoadSuccess={({ numPages: loadedPages }) => setNumPages(loadedPages)}
+          loading={<div className="flex justify-center text-slate-300"><Loader2 size={24} className="animate-spin mr-2" /> Loading document...</div>}
+          error={<p className="text-center text-red-300">Failed to load the document.</p>}
+          className="flex flex-col items-center space-y-4"
+        >
+          {Array.from({ length: numPages }, (_, i) => i + 1).map(pageNumber => (
+            // Reserve roughly a page's height so the cited page's position is stable while others render
+            <div key={pageNumber} ref={element => { pageRefs.current[pageNumber] = element; }} style={{ minHeight: pageWidth * 1.3 }}>
+              <Page
+                pageNumber={pageNumber}
+                width={pageWidth}
+                customTextRenderer={renderText}
+                renderAnnotationLayer={false}
+                onRenderSuccess={pageNumber === page ? scrollToCitedPage : undefined}
+              />
+            </div>
+          ))}
+        </Document>
+      </div>
+    </div>
+  );
+};
+
+export default PdfViewer;
@@ -0,0 +1,216 @@
+// src/components/PersonaPanel.tsx
+"use client";
+
+import React, { FormEvent, useEffect, useState } from 'react';
+import { Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import type { Persona } from '@/lib/personas';
+import type { ChatSettings, ChatSettingsOptions } from '@/lib/llm/settings';
+import type { DocumentSummary } from '@/lib/documents';
+
+interface PersonaPanelProps {
+  personas: Persona[];
+  currentSettings: ChatSettings | null; // Offered as the persona's default model and settings
+  settingsOptions: ChatSettingsOptions | null;
+  onSaved: (persona: Persona) => void;
+  onDeleted: (personaId: string) => void;
+  onClose: () => void;
+}
+
+type PersonaDraft = {
+  id: string | null; // null while creating
+  name: string;
+  systemInstruction: string;
+  settings: ChatSettings | null;
+  defaultDocumentId: string;
+};
+
+const emptyDraft: PersonaDraft = { id: null, name: '', systemInstruction: '', settings: null, defaultDocumentId: '' };
+
+function describeSettings(settings: ChatSettings, options: ChatSettingsOptions | null): string {
+  const model = options?.models.find(option => option.id === settings.model)?.label ?? settings.model;
+  return `${model}, temperature ${settings.temperature}, ${settings.maxOutputTokens} tokens, top-p ${settings.topP}`;
+}
+
+// "Personas" panel: create, edit and delete the user's personas. The built-in persona is listed but read-only.
+const PersonaPanel: React.FC<PersonaPanelProps> = ({ personas, currentSettings, settingsOptions, onSaved, onDeleted, onClose }) => {
+  const [draft, setDraft] = useState<PersonaDraft | null>(null);
+  const [documents, setDocuments] = useState<DocumentSummary[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The default-document picker lists the user's uploads
+  useEffect(() => {
+    fetch('/api/documents')
+      .then(response => response.ok ? response.json() : [])
+      .then(setDocuments)
+      .catch((err: unknown) => console.error("Fetch Documents Error:", err));
+  }, []);
+
+  const startEditing = (persona: Persona) => {
+    setError(null);
+    setDraft({
+      id: persona.id,
+      name: persona.name,
+      systemInstruction: persona.system_instruction,
+      settings: persona.settings,
+      defaultDocumentId: persona.default_document?.id ?? '',
+    });
+  };
+
+  const savePersona = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!draft) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(draft.id ? `/api/personas/${draft.id}` : '/api/personas', {
+        method: draft.id ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: draft.name,
+          systemInstruction: draft.systemInstruction,
+          settings: draft.settings,
+          defaultDocumentId: draft.defaultDocumentId || null,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      onSaved(data);
+      setDraft(null);
+    } catch (err: unknown) {
+      console.error("Save Persona Error:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const deletePersona = async (persona: Persona) => {
+    if (!window.confirm(`Delete the persona "${persona.name}"? Conversations using it go back to the default persona.`)) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/personas/${persona.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      onDeleted(persona.id);
+    } catch (err: unknown) {
+      console.error("Delete Persona Error:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="absolute right-3 top-full mt-2 w-96 max-h-[32rem] overflow-y-auto bg-slate-800 border border-slate-700 rounded-xl shadow-2xl z-50">
+      <div className="flex items-center justify-between p-3 border-b border-slate-700">
+        <h2 className="text-sm font-semibold text-slate-200">Personas</h2>
+        <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-700 text-slate-400 hover:text-slate-100" aria-label="Close personas">
+          <X size={16} />
+        </button>
+      </div>
+      {error && <p className="px-3 pt-3 text-sm text-red-300">{error}</p>}
+      {draft ? (
+        <form onSubmit={savePersona} className="p-3 space-y-3 text-sm text-slate-300">
+          <label className="block">
+            <span className="block mb-1 font-medium">Name</span>
+            <input
+              value={draft.name}
+              onChange={e => setDraft({ ...draft, name: e.target.value })}
+              maxLength={60}
+              placeholder="e.g. Legal reviewer"
+              className="w-full p-2 rounded-lg bg-slate-700 border border-slate-600 text-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none"
+              required
+            />
+          </label>
+          <label className="block">
+            <span className="block mb-1 font-medium">System instruction</span>
+            <textarea
+              value={draft.systemInstruction}
+              onChange={e => setDraft({ ...draft, systemInstruction: e.target.value })}
+              maxLength={8000}
+              rows={6}
+              placeholder="How the assistant should behave and answer."
+              className="w-full p-2 rounded-lg bg-slate-700 border border-slate-600 text-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none resize-y"
+              required
+            />
+          </label>
+          <div>
+            <span className="block mb-1 font-medium">Default model and settings</span>
+            {draft.settings ? (
+              <p className="text-xs text-slate-400">{describeSettings(draft.settings, settingsOptions)}</p>
+            ) : (
+              <p className="text-xs text-slate-400">None: conversations keep their current settings.</p>
+            )}
+            <div className="flex gap-2 mt-1">
+              <button
+                type="button"
+                onClick={() => setDraft({ ...draft, settings: currentSettings ?? settingsOptions?.defaults ?? null })}
+                className="px-2 py-1 rounded-md text-xs text-indigo-300 hover:bg-slate-700 hover:text-indigo-200"
+              >
+                Use current settings
+              </button>
+              {draft.settings && (
+                <button type="button" onClick={() => setDraft({ ...draft, settings: null })} className="px-2 py-1 rounded-md text-xs text-slate-400 hover:bg-slate-700 hover:text-slate-200">
+                  Clear
+                </button>
+              )}
+            </div>
+          </div>
+          <label className="block">
+            <span className="block mb-1 font-medium">Default document</span>
+            <select
+              value={draft.defaultDocumentId}
+              onChange={e => setDraft({ ...draft, defaultDocumentId: e.target.value })}
+              className="w-full p-2 rounded-lg bg-slate-700 border border-slate-600 text-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none"
+            >
+              <option value="">None</option>
+              {documents.map(document => (
+                <option key={document.id} value={document.id}>{document.name}</option>
+              ))}
+            </select>
+          </label>
+          <div className="flex justify-end gap-2 pt-1">
+            <button type="button" onClick={() => setDraft(null)} className="px-3 py-1.5 rounded-lg text-slate-300 hover:bg-slate-700">
+              Cancel
+            </button>
+            <button type="submit" disabled={isSaving} className="flex items-center px-3 py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50">
+              {isSaving && <Loader2 size={14} className="animate-spin mr-1.5" />} Save
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div className="p-2">
+          <ul className="space-y-1">
+            {personas.map(persona => (
+              <li key={persona.id} className="group flex items-start p-2 rounded-lg text-sm text-slate-300 hover:bg-slate-700/60">
+                <span className="min-w-0 flex-grow">
+                  <span className="block truncate font-medium">{persona.name}{persona.built_in && <span className="ml-1 text-xs text-slate-400">(built-in)</span>}</span>
+                  <span className="block text-xs text-slate-400 line-clamp-2">{persona.system_instruction}</span>
+                </span>
+                {!persona.built_in && (
+                  <span className="flex flex-shrink-0 ml-2 opacity-0 group-hover:opacity-100">
+                    <button onClick={() => startEditing(persona)} className="p-1 rounded hover:bg-slate-600 text-slate-400 hover:text-indigo-300" aria-label={`Edit ${persona.name}`}>
+                      <Pencil size={14} />
+                    </button>
+                    <button onClick={() => deletePersona(persona)} className="p-1 rounded hover:bg-slate-600 text-slate-400 hover:text-red-400" aria-label={`Delete ${persona.name}`}>
+                      <Trash2 size={14} />
+                    </button>
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={() => { setError(null); setDraft(emptyDraft); }}
+            className="w-full flex items-center justify-center mt-2 p-2 rounded-lg text-sm text-indigo-300 hover:bg-slate-700"
+          >
+            <Plus size={16} className="mr-1" /> New persona
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PersonaPanel;
@@ -0,0 +1,184 @@
+// src/components/SearchPanel.tsx
+"use client";
+
+import React, { FormEvent, useEffect, useState } from 'react';
+import { Loader2, Search, X } from 'lucide-react';
+import type { ChatSearchHit, ChatSearchResponse, SnippetSegment } from '@/lib/chat-search';
+import type { DocumentSummary } from '@/lib/documents';
+
+interface SearchPanelProps {
+  activeConversationId: string | null; // Offered as the "this conversation only" filter
+  onJump: (hit: ChatSearchHit) => void;
+  onClose: () => void;
+}
+
+type SearchForm = {
+  query: string;
+  from: string;
+  to: string;
+  thisConversation: boolean;
+  pdfContext: '' | 'true' | 'false';
+  documentId: string;
+};
+
+const emptyForm: SearchForm = { query: '', from: '', to: '', thisConversation: false, pdfContext: '', documentId: '' };
+
+const Snippet: React.FC<{ segments: SnippetSegment[] }> = ({ segments }) => (
+  <>
+    {segments.map((segment, i) => segment.match
+      ? <mark key={i} className="bg-indigo-500/40 text-indigo-100 rounded px-0.5">{segment.text}</mark>
+      : <React.Fragment key={i}>{segment.text}</React.Fragment>)}
+  </>
+);
+
+// "Search" panel: full-text search over every conversation, with filters and paged results that jump to the turn.
+const SearchPanel: React.FC<SearchPanelProps> = ({ activeConversationId, onJump, onClose }) => {
+  const [form, setForm] = useState<SearchForm>(emptyForm);
+  const [response, setResponse] = useState<ChatSearchResponse | null>(null);
+  const [documents, setDocuments] = useState<DocumentSummary[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The document filter lists the user's uploads
+  useEffect(() => {
+    fetch('/api/documents')
+      .then(response => response.ok ? response.json() : [])
+      .then(setDocuments)
+      .catch((err: unknown) => console.error("Fetch Documents Error:", err));
+  }, []);
+
+  const search = async (page: number) => {
+    if (!form.query.trim()) return;
+    setIsSearching(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ q: form.query.trim(), page: String(page) });
+      if (form.from) params.set('from', form.from);
+      if (form.to) params.set('to', form.to);
+      if (form.thisConversation && activeConversationId) params.set('conversationId', activeConversationId);
+      if (form.pdfContext) params.set('pdfContext', form.pdfContext);
+      if (form.documentId) params.set('documentId', form.documentId);
+
+      const res = await fetch(`/api/chat-search?${params}`);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || `HTTP error! status: ${res.status}`);
+      setResponse(data);
+    } catch (err: unknown) {
+      console.error("Search Error:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const submitSearch = (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    search(1);
+  };
+
+  const pageCount = response ? Math.max(1, Math.ceil(response.total / response.pageSize)) : 0;
+  const inputClass = "w-full p-1.5 rounded-lg bg-slate-700 border border-slate-600 text-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+  return (
+    <div className="absolute right-3 top-full mt-2 w-[28rem] max-h-[36rem] flex flex-col bg-slate-800 border border-slate-700 rounded-xl shadow-2xl z-50">
+      <div className="flex items-center justify-between p-3 border-b border-slate-700">
+        <h2 className="text-sm font-semibold text-slate-200">Search chats</h2>
+        <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-700 text-slate-400 hover:text-slate-100" aria-label="Close search">
+          <X size={16} />
+        </button>
+      </div>
+      <form onSubmit={submitSearch} className="p-3 space-y-2 text-xs text-slate-300 border-b border-slate-700">
+        <div className="flex gap-2">
+          <input
+            value={form.query}
+            onChange={e => setForm({ ...form, query: e.target.value })}
+            maxLength={200}
+            placeholder='e.g. payment terms -draft, "exact phrase"'
+            className={`${inputClass} text-sm`}
+            aria-label="Search text"
+            autoFocus
+          />
+          <button type="submit" disabled={isSearching || !form.query.trim()} className="px-3 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50" aria-label="Search">
+            {isSearching ? <Loader2 size={16} className="animate-spin" /> : <Search size={16} />}
+          </button>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <label>
+            <span className="block mb-0.5">From</span>
+            <input type="date" value={form.from} onChange={e => setForm({ ...form, from: e.target.value })} className={inputClass} />
+          </label>
+          <label>
+            <span className="block mb-0.5">To</span>
+            <input type="date" value={form.to} onChange={e => setForm({ ...form, to: e.target.value })} className={inputClass} />
+          </label>
+          <label>
+            <span className="block mb-0.5">Document context</span>
+            <select value={form.pdfContext} onChange={e => setForm({ ...form, pdfContext: e.target.value as SearchForm['pdfContext'] })} className={inputClass}>
+              <option value="">Any</option>
+              <option value="true">Used</option>
+              <option value="false">Not used</option>
+            </select>
+          </label>
+          <label>
+            <span className="block mb-0.5">Document</span>
+            <select value={form.documentId} onChange={e => setForm({ ...form, documentId: e.target.value })} className={inputClass}>
+              <option value="">Any</option>
+              {documents.map(document => (
+                <option key={document.id} value={document.id}>{document.name}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        <label className="flex items-center gap-1.5">
+          <input
+            type="checkbox"
+            checked={form.thisConversation}
+            onChange={e => setForm({ ...form, thisConversation: e.target.checked })}
+            disabled={!activeConversationId}
+          />
+          This conversation only
+        </label>
+      </form>
+      {error && <p className="px-3 pt-3 text-sm text-red-300">{error}</p>}
+      {response && (
+        <div className="flex-grow min-h-0 overflow-y-auto p-2">
+          {response.results.length === 0 ? (
+            <p className="p-2 text-sm text-slate-400">No matching messages.</p>
+          ) : (
+            <ul className="space-y-1">
+              {response.results.map(hit => (
+                <li key={hit.turnId}>
+                  <button
+                    onClick={() => onJump(hit)}
+                    disabled={!hit.conversationId}
+                    className="w-full text-left p-2 rounded-lg text-xs text-slate-300 hover:bg-slate-700/60 disabled:cursor-default"
+                  >
+                    <span className="flex justify-between gap-2 mb-1 text-slate-400">
+                      <span className="truncate font-medium text-slate-200">{hit.conversationTitle || 'Untitled chat'}</span>
+                      <span className="flex-shrink-0">{new Date(hit.createdAt).toLocaleDateString()}</span>
+                    </span>
+                    <span className="block line-clamp-2"><span className="font-semibold">You: </span><Snippet segments={hit.query} /></span>
+                    <span className="block line-clamp-3 mt-0.5 text-slate-400"><span className="font-semibold">Bot: </span><Snippet segments={hit.reply} /></span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+      {response && response.total > response.pageSize && (
+        <div className="flex items-center justify-between p-2 border-t border-slate-700 text-xs text-slate-400">
+          <button onClick={() => search(response.page - 1)} disabled={isSearching || response.page <= 1} className="px-2 py-1 rounded-md hover:bg-slate-700 disabled:opacity-40">
+            Previous
+          </button>
+          <span>Page {response.page} of {pageCount} · {response.total} results</span>
+          <button onClick={() => search(response.page + 1)} disabled={isSearching || response.page >= pageCount} className="px-2 py-1 rounded-md hover:bg-slate-700 disabled:opacity-40">
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchPanel;
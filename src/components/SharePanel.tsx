@@ -0,0 +1,170 @@
+// src/components/SharePanel.tsx
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Check, Copy, Loader2, X } from 'lucide-react';
+import type { ConversationShare } from '@/lib/shares';
+
+interface SharePanelProps {
+  conversationId: string;
+  onClose: () => void;
+}
+
+const EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: 'Never', days: null },
+  { label: '1 day', days: 1 },
+  { label: '7 days', days: 7 },
+  { label: '30 days', days: 30 },
+];
+
+const shareUrl = (share: ConversationShare) => `${window.location.origin}/share/${share.token}`;
+
+function shareStatus(share: ConversationShare): string {
+  if (share.revoked_at) return 'Revoked';
+  if (share.expires_at && new Date(share.expires_at) <= new Date()) return 'Expired';
+  return share.expires_at ? `Expires ${new Date(share.expires_at).toLocaleDateString()}` : 'No expiry';
+}
+
+// "Share" panel: publishes a read-only snapshot of the conversation at a public link, and lists or revokes its links.
+const SharePanel: React.FC<SharePanelProps> = ({ conversationId, onClose }) => {
+  const [shares, setShares] = useState<ConversationShare[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState<number | null>(7);
+  const [includeDocumentText, setIncludeDocumentText] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchShares = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(`/api/shares?${new URLSearchParams({ conversationId })}`);
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      setShares(data);
+    } catch (err: unknown) {
+      console.error("Fetch Shares Error:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [conversationId]);
+
+  useEffect(() => {
+    fetchShares();
+  }, [fetchShares]);
+
+  const createShare = async () => {
+    setIsCreating(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/shares', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ conversationId, expiresInDays, includeDocumentText }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      setShares(prev => [data, ...prev]);
+      await copyLink(data);
+    } catch (err: unknown) {
+      console.error("Create Share Error:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const copyLink = async (share: ConversationShare) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(share));
+      setCopiedId(share.id);
+      setTimeout(() => setCopiedId(current => (current === share.id ? null : current)), 2000);
+    } catch (err: unknown) {
+      console.error("Copy Share Link Error:", err);
+    }
+  };
+
+  const revokeShare = async (share: ConversationShare) => {
+    if (!window.confirm('Revoke this link? Anyone who opens it afterwards will see that it is no longer available.')) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/shares/${share.id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      setShares(prev => prev.map(s => (s.id === share.id ? data : s)));
+    } catch (err: unknown) {
+      console.error("Revoke Share Error:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const inputClass = "p-1.5 rounded-lg bg-slate-700 border border-slate-600 text-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+  return (
+    <div className="absolute right-3 top-full mt-2 w-96 max-w-[calc(100vw-1.5rem)] bg-slate-800 border border-slate-700 rounded-xl shadow-2xl z-50">
+      <div className="flex items-center justify-between p-3 border-b border-slate-700">
+        <h2 className="text-sm font-semibold text-slate-200">Share conversation</h2>
+        <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-700 text-slate-400 hover:text-slate-100" aria-label="Close sharing">
+          <X size={16} />
+        </button>
+      </div>
+      <div className="p-3 space-y-3 text-xs text-slate-300">
+        <p>Anyone with the link can read the conversation as it is now, without logging in. Later messages aren&apos;t added.</p>
+        <label className="flex items-center justify-between gap-2">
+          <span>Link expires after</span>
+          <select
+            value={expiresInDays ?? ''}
+            onChange={e => setExpiresInDays(e.target.value ? Number(e.target.value) : null)}
+            className={inputClass}
+          >
+            {EXPIRY_OPTIONS.map(option => <option key={option.label} value={option.days ?? ''}>{option.label}</option>)}
+          </select>
+        </label>
+        <label className="flex items-start gap-1.5">
+          <input type="checkbox" checked={includeDocumentText} onChange={e => setIncludeDocumentText(e.target.checked)} className="mt-0.5" />
+          <span>Include document text: the quoted passages and text of cited pages. Otherwise only document names and page numbers are shown.</span>
+        </label>
+        <button
+          onClick={createShare}
+          disabled={isCreating}
+          className="w-full flex items-center justify-center py-1.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-sm disabled:opacity-50"
+        >
+          {isCreating && <Loader2 size={14} className="animate-spin mr-1.5" />}
+          Create link and copy it
+        </button>
+        {error && <p className="text-sm text-red-300">{error}</p>}
+        <div className="pt-3 border-t border-slate-700 space-y-2 max-h-60 overflow-y-auto">
+          {isLoading ? (
+            <Loader2 size={16} className="animate-spin mx-auto text-indigo-400" />
+          ) : shares.length === 0 ? (
+            <p className="text-slate-500 text-center">No links yet.</p>
+          ) : shares.map(share => {
+            const status = shareStatus(share);
+            const isActive = status !== 'Revoked' && status !== 'Expired';
+            return (
+              <div key={share.id} className={`flex items-center gap-2 ${isActive ? '' : 'opacity-60'}`}>
+                <div className="flex-grow min-w-0">
+                  <p className="truncate text-slate-200">{new Date(share.created_at).toLocaleString()}</p>
+                  <p className="text-slate-400">{status}{share.include_document_text ? ' · with document text' : ''}</p>
+                </div>
+                {isActive && (
+                  <>
+                    <button onClick={() => copyLink(share)} className="p-1 text-slate-400 hover:text-indigo-300" aria-label="Copy link">
+                      {copiedId === share.id ? <Check size={14} className="text-green-400" /> : <Copy size={14} />}
+                    </button>
+                    <button onClick={() => revokeShare(share)} className="px-2 py-0.5 rounded-lg text-slate-300 hover:text-red-300 hover:bg-slate-700">
+                      Revoke
+                    </button>
+                  </>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SharePanel;
@@ -0,0 +1,54 @@
+// src/components/SuspendUserButton.tsx
+"use client";
+
+import React, { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Ban, Loader2, RotateCcw } from 'lucide-react';
+
+interface SuspendUserButtonProps {
+  userId: string;
+  email: string | null;
+  suspended: boolean;
+}
+
+// On the admin user list: suspends a user after a confirmation, or lifts their suspension, then reloads the list.
+const SuspendUserButton: React.FC<SuspendUserButtonProps> = ({ userId, email, suspended }) => {
+  const router = useRouter();
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = async () => {
+    if (!suspended && !window.confirm(`Suspend ${email ?? 'this user'}? They will be signed out and can't chat until the suspension is lifted.`)) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/admin/users/${userId}/suspension`, { method: suspended ? 'DELETE' : 'POST' });
+      const data = response.status === 204 ? null : await response.json();
+      if (!response.ok) throw new Error(data?.error || `HTTP error! status: ${response.status}`);
+      router.refresh();
+    } catch (err: unknown) {
+      console.error("Suspend User Error:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-end gap-1">
+      <button
+        onClick={toggle}
+        disabled={isSaving}
+        className={`flex items-center gap-1 px-2 py-1 rounded-lg text-xs disabled:opacity-50 ${
+          suspended ? 'bg-slate-700 hover:bg-slate-600 text-slate-100' : 'bg-red-600/80 hover:bg-red-600 text-white'
+        }`}
+      >
+        {isSaving ? <Loader2 size={12} className="animate-spin" /> : suspended ? <RotateCcw size={12} /> : <Ban size={12} />}
+        {suspended ? 'Reinstate' : 'Suspend'}
+      </button>
+      {error && <span className="text-[11px] text-red-300 max-w-[12rem] text-right">{error}</span>}
+    </div>
+  );
+};
+
+export default SuspendUserButton;
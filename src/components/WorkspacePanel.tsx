@@ -0,0 +1,327 @@
+// src/components/WorkspacePanel.tsx
+"use client";
+
+import React, { FormEvent, useCallback, useEffect, useState } from 'react';
+import { Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import type { Workspace, WorkspaceInvitation, WorkspaceMember, WorkspaceRole } from '@/lib/workspaces';
+
+interface WorkspacePanelProps {
+  userId: string;
+  onClose: () => void;
+}
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = { owner: 'Owner', editor: 'Editor', viewer: 'Viewer' };
+const ROLES = Object.keys(ROLE_LABELS) as WorkspaceRole[];
+
+// Parses the JSON reply (deletions answer 204 with no body), throwing the route's error message on failure.
+async function requestJson(input: string, init?: RequestInit) {
+  const response = await fetch(input, init);
+  const data = response.status === 204 ? null : await response.json();
+  if (!response.ok) throw new Error(data?.error || `HTTP error! status: ${response.status}`);
+  return data;
+}
+
+const jsonRequest = (method: string, body: unknown): RequestInit => ({
+  method,
+  headers: { 'Content-Type': 'application/json' },
+  body: JSON.stringify(body),
+});
+
+// "Workspaces" panel: create workspaces, answer invitations, and manage a workspace's members and invitations.
+// The documents themselves are shared from the documents panel.
+const WorkspacePanel: React.FC<WorkspacePanelProps> = ({ userId, onClose }) => {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [pendingInvitations, setPendingInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [newName, setNewName] = useState('');
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<WorkspaceRole>('viewer');
+  const [notice, setNotice] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = workspaces.find(w => w.id === selectedId) ?? null;
+  const isOwner = selected?.role === 'owner';
+
+  const fetchWorkspaces = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [ownWorkspaces, ownInvitations] = await Promise.all([
+        requestJson('/api/workspaces'),
+        requestJson('/api/workspace-invitations'),
+      ]);
+      setWorkspaces(ownWorkspaces);
+      setInvitations(ownInvitations);
+    } catch (err: unknown) {
+      console.error("Fetch Workspaces Error:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWorkspaces();
+  }, [fetchWorkspaces]);
+
+  useEffect(() => {
+    if (!selected) return;
+    const fetchMembers = async () => {
+      try {
+        setMembers(await requestJson(`/api/workspaces/${selected.id}/members`));
+        setPendingInvitations(selected.role === 'owner' ? await requestJson(`/api/workspaces/${selected.id}/invitations`) : []);
+      } catch (err: unknown) {
+        console.error("Fetch Workspace Members Error:", err);
+        setError(err instanceof Error ? err.message : String(err));
+      }
+    };
+    fetchMembers();
+  }, [selected]);
+
+  // Runs one change, showing its error; resolves to whether it succeeded.
+  const run = async (label: string, action: () => Promise<void>): Promise<boolean> => {
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+      return true;
+    } catch (err: unknown) {
+      console.error(`${label} Error:`, err);
+      setError(err instanceof Error ? err.message : String(err));
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const createWorkspace = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    await run('Create Workspace', async () => {
+      const workspace: Workspace = await requestJson('/api/workspaces', jsonRequest('POST', { name: newName }));
+      setWorkspaces(prev => [...prev, workspace].sort((a, b) => a.name.localeCompare(b.name)));
+      setSelectedId(workspace.id);
+      setNewName('');
+    });
+  };
+
+  const renameWorkspace = async () => {
+    if (!selected) return;
+    const name = window.prompt('Rename workspace', selected.name);
+    if (!name || name.trim() === selected.name) return;
+    await run('Rename Workspace', async () => {
+      const workspace: Workspace = await requestJson(`/api/workspaces/${selected.id}`, jsonRequest('PATCH', { name }));
+      setWorkspaces(prev => prev.map(w => (w.id === workspace.id ? workspace : w)));
+    });
+  };
+
+  const answerInvitation = async (invitation: WorkspaceInvitation, accept: boolean) => {
+    const succeeded = await run(accept ? 'Accept Invitation' : 'Decline Invitation', async () => {
+      await requestJson(`/api/workspace-invitations/${invitation.id}`, { method: accept ? 'POST' : 'DELETE' });
+      setInvitations(prev => prev.filter(i => i.id !== invitation.id));
+    });
+    if (succeeded && accept) {
+      await fetchWorkspaces();
+      setSelectedId(invitation.workspace_id);
+    }
+  };
+
+  const changeRole = async (member: WorkspaceMember, role: WorkspaceRole) => {
+    if (!selected) return;
+    await run('Change Member Role', async () => {
+      const updated: WorkspaceMember = await requestJson(`/api/workspaces/${selected.id}/members/${member.user_id}`, jsonRequest('PATCH', { role }));
+      setMembers(prev => prev.map(m => (m.user_id === updated.user_id ? updated : m)));
+      if (member.user_id === userId) {
+        setWorkspaces(prev => prev.map(w => (w.id === selected.id ? { ...w, role: updated.role } : w)));
+      }
+    });
+  };
+
+  const removeMember = async (member: WorkspaceMember) => {
+    if (!selected) return;
+    const leaving = member.user_id === userId;
+    const question = leaving
+      ? `Leave "${selected.name}"? You will lose access to its documents until you are invited again.`
+      : `Remove ${member.email ?? 'this member'} from "${selected.name}"?`;
+    if (!window.confirm(question)) return;
+    await run('Remove Member', async () => {
+      await requestJson(`/api/workspaces/${selected.id}/members/${member.user_id}`, { method: 'DELETE' });
+      if (leaving) {
+        setWorkspaces(prev => prev.filter(w => w.id !== selected.id));
+        setSelectedId(null);
+      } else {
+        setMembers(prev => prev.filter(m => m.user_id !== member.user_id));
+      }
+    });
+  };
+
+  const invite = async (e: FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!selected || !inviteEmail.trim()) return;
+    await run('Invite Member', async () => {
+      const { invitation, emailSent, emailError } = await requestJson(
+        `/api/workspaces/${selected.id}/invitations`,
+        jsonRequest('POST', { email: inviteEmail, role: inviteRole }),
+      );
+      setPendingInvitations(prev => [invitation, ...prev.filter(i => i.email !== invitation.email)]);
+      setInviteEmail('');
+      setNotice(emailSent
+        ? `Invitation emailed to ${invitation.email}.`
+        : `No email was sent (${emailError}). ${invitation.email} will see the invitation here after signing in with that address.`);
+    });
+  };
+
+  const cancelInvitation = async (invitation: WorkspaceInvitation) => {
+    if (!selected) return;
+    await run('Cancel Invitation', async () => {
+      await requestJson(`/api/workspaces/${selected.id}/invitations/${invitation.id}`, { method: 'DELETE' });
+      setPendingInvitations(prev => prev.filter(i => i.id !== invitation.id));
+    });
+  };
+
+  const inputClass = "p-1.5 rounded-lg bg-slate-700 border border-slate-600 text-slate-100 focus:ring-2 focus:ring-indigo-500 outline-none";
+
+  return (
+    <div className="absolute right-3 top-full mt-2 w-96 max-w-[calc(100vw-1.5rem)] max-h-[32rem] overflow-y-auto bg-slate-800 border border-slate-700 rounded-xl shadow-2xl z-50">
+      <div className="flex items-center justify-between p-3 border-b border-slate-700">
+        <h2 className="text-sm font-semibold text-slate-200">Workspaces</h2>
+        <button onClick={onClose} className="p-1 rounded-full hover:bg-slate-700 text-slate-400 hover:text-slate-100" aria-label="Close workspaces">
+          <X size={16} />
+        </button>
+      </div>
+      <div className="p-3 space-y-3 text-xs text-slate-300">
+        {isLoading ? (
+          <Loader2 size={16} className="animate-spin mx-auto text-indigo-400" />
+        ) : (
+          <>
+            {invitations.length > 0 && (
+              <div className="space-y-2">
+                <p className="font-medium text-slate-200">Invitations</p>
+                {invitations.map(invitation => (
+                  <div key={invitation.id} className="flex items-center gap-2">
+                    <span className="flex-grow min-w-0 truncate">
+                      {invitation.workspace_name ?? 'A workspace'} · {ROLE_LABELS[invitation.role]}
+                    </span>
+                    <button onClick={() => answerInvitation(invitation, true)} disabled={isSaving} className="px-2 py-0.5 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50">
+                      Accept
+                    </button>
+                    <button onClick={() => answerInvitation(invitation, false)} disabled={isSaving} className="px-2 py-0.5 rounded-lg text-slate-300 hover:text-red-300 hover:bg-slate-700 disabled:opacity-50">
+                      Decline
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="space-y-1">
+              {workspaces.length === 0 && <p className="text-slate-500">You aren&apos;t in any workspaces yet.</p>}
+              {workspaces.map(workspace => (
+                <button
+                  key={workspace.id}
+                  onClick={() => setSelectedId(id => (id === workspace.id ? null : workspace.id))}
+                  className={`w-full flex items-center justify-between p-2 rounded-lg text-left hover:bg-slate-700 ${workspace.id === selectedId ? 'bg-slate-700' : ''}`}
+                >
+                  <span className="truncate text-slate-200">{workspace.name}</span>
+                  <span className="text-slate-400">{ROLE_LABELS[workspace.role]}</span>
+                </button>
+              ))}
+            </div>
+            <form onSubmit={createWorkspace} className="flex gap-2">
+              <input
+                value={newName}
+                onChange={e => setNewName(e.target.value)}
+                placeholder="New workspace name"
+                maxLength={80}
+                className={`flex-grow min-w-0 ${inputClass}`}
+              />
+              <button type="submit" disabled={isSaving || !newName.trim()} className="flex items-center px-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50" aria-label="Create workspace">
+                <Plus size={14} />
+              </button>
+            </form>
+          </>
+        )}
+        {error && <p className="text-sm text-red-300">{error}</p>}
+        {notice && <p className="text-green-300">{notice}</p>}
+        {selected && (
+          <div className="pt-3 border-t border-slate-700 space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="font-medium text-slate-200 truncate">{selected.name}</p>
+              {isOwner && (
+                <button onClick={renameWorkspace} disabled={isSaving} className="p-1 text-slate-400 hover:text-indigo-300" aria-label="Rename workspace">
+                  <Pencil size={14} />
+                </button>
+              )}
+            </div>
+            <ul className="space-y-1.5">
+              {members.map(member => (
+                <li key={member.user_id} className="flex items-center gap-2">
+                  <span className="flex-grow min-w-0 truncate">
+                    {member.email ?? member.user_id}{member.user_id === userId && ' (you)'}
+                  </span>
+                  {isOwner ? (
+                    <select
+                      value={member.role}
+                      onChange={e => changeRole(member, e.target.value as WorkspaceRole)}
+                      disabled={isSaving}
+                      className={inputClass}
+                      aria-label={`Role of ${member.email ?? 'member'}`}
+                    >
+                      {ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                    </select>
+                  ) : (
+                    <span className="text-slate-400">{ROLE_LABELS[member.role]}</span>
+                  )}
+                  {(isOwner || member.user_id === userId) && (
+                    <button
+                      onClick={() => removeMember(member)}
+                      disabled={isSaving}
+                      className="p-1 text-slate-400 hover:text-red-300"
+                      aria-label={member.user_id === userId ? 'Leave workspace' : 'Remove member'}
+                      title={member.user_id === userId ? 'Leave workspace' : 'Remove member'}
+                    >
+                      <Trash2 size={14} />
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ul>
+            {isOwner && (
+              <>
+                <form onSubmit={invite} className="flex gap-2">
+                  <input
+                    type="email"
+                    value={inviteEmail}
+                    onChange={e => setInviteEmail(e.target.value)}
+                    placeholder="Invite by email"
+                    className={`flex-grow min-w-0 ${inputClass}`}
+                  />
+                  <select value={inviteRole} onChange={e => setInviteRole(e.target.value as WorkspaceRole)} className={inputClass} aria-label="Invited role">
+                    {ROLES.map(role => <option key={role} value={role}>{ROLE_LABELS[role]}</option>)}
+                  </select>
+                  <button type="submit" disabled={isSaving || !inviteEmail.trim()} className="px-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white disabled:opacity-50">
+                    Invite
+                  </button>
+                </form>
+                {pendingInvitations.map(invitation => (
+                  <div key={invitation.id} className="flex items-center gap-2 text-slate-400">
+                    <span className="flex-grow min-w-0 truncate">
+                      {invitation.email} · {ROLE_LABELS[invitation.role]} · expires {new Date(invitation.expires_at).toLocaleDateString()}
+                    </span>
+                    <button onClick={() => cancelInvitation(invitation)} disabled={isSaving} className="px-2 py-0.5 rounded-lg hover:text-red-300 hover:bg-slate-700">
+                      Cancel
+                    </button>
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WorkspacePanel;
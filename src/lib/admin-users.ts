@@ -0,0 +1,96 @@
+// src/lib/admin-users.ts
+// The admin user list (every account with its message counts and today's quota use) and suspending accounts.
+// Suspending bans the user in Supabase Auth, so they can neither sign in nor refresh their session, and stamps
+// `app_metadata.suspended_at`, which the chat, upload and import routes check on every request: an access token
+// issued before the ban stays valid until it expires, but can't be used to send messages.
+import type { User } from '@supabase/supabase-js';
+import type { createSupabaseAdminClient } from '@/lib/supabase/admin';
+import { getQuotaStatuses, type QuotaStatus } from '@/lib/rate-limit';
+import { isAdmin, isSuspended } from '@/lib/admin';
+
+type SupabaseAdminClient = ReturnType<typeof createSupabaseAdminClient>;
+
+// Auth bans need a length; a suspension lasts until it is lifted, so this is 100 years.
+const SUSPENSION_BAN_DURATION = '876000h';
+
+export const ADMIN_USERS_PAGE_SIZE = 50;
+
+export type AdminUser = {
+  id: string;
+  email: string | null;
+  createdAt: string;
+  lastSignInAt: string | null;
+  isAdmin: boolean;
+  suspendedAt: string | null;
+  messages: number; // Every turn not yet purged, including deleted ones
+  messagesToday: number; // Since midnight UTC
+  lastMessageAt: string | null;
+  quota: QuotaStatus; // From the shared rate-limit counters, so it matches what the chat route enforces
+};
+
+export type AdminUserList = {
+  users: AdminUser[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+// One row of the user_message_counts database function.
+type MessageCountRow = {
+  user_id: string;
+  messages: number;
+  messages_today: number;
+  last_message_at: string | null;
+};
+
+/** A page of accounts, oldest first. Reads through the service-role client: callers must have checked for an admin. */
+export async function listAdminUsers(admin: SupabaseAdminClient, page: number): Promise<AdminUserList> {
+  const { data, error } = await admin.auth.admin.listUsers({ page, perPage: ADMIN_USERS_PAGE_SIZE });
+  if (error) {
+    throw new Error('Failed to list users. ' + error.message);
+  }
+  const { users, total } = data;
+
+  const counts = new Map<string, MessageCountRow>();
+  if (users.length > 0) {
+    const { data: rows, error: countsError } = await admin.rpc('user_message_counts', { user_ids: users.map(user => user.id) });
+    if (countsError) {
+      throw new Error('Failed to count messages. ' + countsError.message);
+    }
+    for (const row of rows as MessageCountRow[]) counts.set(row.user_id, row);
+  }
+  const quotas = await getQuotaStatuses(users.map(user => user.id));
+
+  return {
+    users: users.map((user): AdminUser => {
+      const count = counts.get(user.id);
+      return {
+        id: user.id,
+        email: user.email ?? null,
+        createdAt: user.created_at,
+        lastSignInAt: user.last_sign_in_at ?? null,
+        isAdmin: isAdmin(user),
+        suspendedAt: isSuspended(user) ? user.app_metadata.suspended_at : null,
+        messages: Number(count?.messages ?? 0),
+        messagesToday: Number(count?.messages_today ?? 0),
+        lastMessageAt: count?.last_message_at ?? null,
+        quota: quotas.get(user.id)!,
+      };
+    }),
+    total: total ?? users.length,
+    page,
+    pageSize: ADMIN_USERS_PAGE_SIZE,
+  };
+}
+
+/** Suspends the user (recording which admin did it), or lifts their suspension. */
+export async function setUserSuspended(admin: SupabaseAdminClient, userId: string, suspended: boolean, adminId: string): Promise<User> {
+  // app_metadata is merged into the existing claims; null removes a key
+  const { data, error } = await admin.auth.admin.updateUserById(userId, suspended
+    ? { ban_duration: SUSPENSION_BAN_DURATION, app_metadata: { suspended_at: new Date().toISOString(), suspended_by: adminId } }
+    : { ban_duration: 'none', app_metadata: { suspended_at: null, suspended_by: null } });
+  if (error) {
+    throw new Error(`Failed to ${suspended ? 'suspend' : 'reinstate'} the user. ` + error.message);
+  }
+  return data.user;
+}
@@ -0,0 +1,33 @@
+// src/lib/admin.ts
+// Admins are users whose `app_metadata.role` is "admin". Only the service role can change app_metadata, so the claim
+// can't be granted from the browser; set it in the Supabase dashboard or with the Auth admin API (see the README).
+// Suspended users carry `app_metadata.suspended_at` (set from the admin users page, together with an Auth ban).
+// Kept free of server-only imports: the middleware and the chat page use these checks too.
+import type { User } from '@supabase/supabase-js';
+import type { createSupabaseAdminClient } from '@/lib/supabase/admin';
+
+type SupabaseAdminClient = ReturnType<typeof createSupabaseAdminClient>;
+
+export const ADMIN_ROLE = 'admin';
+
+export function isAdmin(user: User | null | undefined): boolean {
+  return user?.app_metadata?.role === ADMIN_ROLE;
+}
+
+export const ACCOUNT_SUSPENDED_MESSAGE = 'Your account has been suspended. Contact the site administrator if you think this is a mistake.';
+
+export function isSuspended(user: User | null | undefined): boolean {
+  return typeof user?.app_metadata?.suspended_at === 'string';
+}
+
+// Email addresses for admin tables, looked up a few at a time; users deleted since are left without one.
+export async function loadUserEmails(admin: SupabaseAdminClient, userIds: string[]): Promise<Map<string, string>> {
+  const emails = new Map<string, string>();
+  for (let i = 0; i < userIds.length; i += 10) {
+    const results = await Promise.all(userIds.slice(i, i + 10).map(id => admin.auth.admin.getUserById(id)));
+    for (const { data } of results) {
+      if (data.user?.email) emails.set(data.user.id, data.user.email);
+    }
+  }
+  return emails;
+}
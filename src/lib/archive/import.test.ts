@@ -0,0 +1,208 @@
+// src/lib/archive/import.test.ts
+import { randomUUID } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { importConversations, parseImport, IMPORT_MAX_TURNS, type ParsedImport } from './import';
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION } from './index';
+
+type Row = Record<string, unknown>;
+
+// Just enough of the Supabase client for importConversations, with rows kept in memory
+function createFakeSupabase() {
+  const tables: Record<string, Row[]> = { conversations: [], chat_messages: [], documents: [] };
+  const client = {
+    from(table: string) {
+      const rows = tables[table];
+      return {
+        select() {
+          const filters: ((row: Row) => boolean)[] = [];
+          const query = {
+            eq(column: string, value: unknown) {
+              filters.push(row => row[column] === value);
+              return query;
+            },
+            in(column: string, values: unknown[]) {
+              filters.push(row => values.includes(row[column]));
+              return query;
+            },
+            then(resolve: (result: { data: Row[]; error: null }) => unknown) {
+              return resolve({ data: rows.filter(row => filters.every(filter => filter(row))), error: null });
+            },
+          };
+          return query;
+        },
+        insert(row: Row) {
+          const saved = { id: randomUUID(), ...row };
+          rows.push(saved);
+          return { select: () => ({ single: async () => ({ data: saved, error: null }) }) };
+        },
+        // Rows whose (user_id, import_key) is taken are skipped, as the unique index and ignoreDuplicates do
+        upsert(batch: Row[]) {
+          const inserted = batch.filter(row => !rows.some(existing => existing.user_id === row.user_id && existing.import_key === row.import_key));
+          rows.push(...inserted);
+          return { select: async () => ({ data: inserted, error: null }) };
+        },
+      };
+    },
+  };
+  return { tables, supabase: client as unknown as Parameters<typeof importConversations>[0] };
+}
+
+const parsed = (body: unknown): ParsedImport => {
+  const result = parseImport(body);
+  if ('error' in result) throw new Error(result.error);
+  return result;
+};
+
+const archive = (conversations: unknown[]) => ({ format: ARCHIVE_FORMAT, version: ARCHIVE_VERSION, conversations });
+
+const archiveTurn = (id: string, parentId: string | null, userQuery: string) => ({
+  id,
+  parentId,
+  createdAt: '2024-05-01T10:00:00.000Z',
+  userQuery,
+  botResponse: `Answer to ${userQuery}`,
+});
+
+const messages = [
+  { role: 'user', content: 'What is BM25?', timestamp: '2024-05-01T10:00:00Z' },
+  { role: 'assistant', content: 'A ranking function.', timestamp: '2024-05-01T10:00:05Z' },
+  { role: 'Human', content: 'Who made it?', timestamp: 1714557700 },
+  { role: 'bot', content: 'Robertson and colleagues', timestamp: 1714557705000 },
+  { role: 'bot', content: 'at City University.', timestamp: 1714557706000 },
+];
+
+describe('parseImport', () => {
+  it('rejects bodies in no known shape, and archives of another version', () => {
+    expect(parseImport({ hello: 'world' })).toEqual({ error: expect.stringContaining(ARCHIVE_FORMAT) });
+    expect(parseImport('text')).toHaveProperty('error');
+    expect(parseImport({ format: ARCHIVE_FORMAT, version: 99, conversations: [] })).toEqual({ error: expect.stringContaining('version 99') });
+  });
+
+  it('keys archive turns and conversations by their archive ids', () => {
+    const { source, conversations, errors } = parsed(archive([
+      { id: 'conv-1', title: '  Trip   plans ', turns: [archiveTurn('t1', null, 'Where to?'), archiveTurn('t2', 't1', 'When?')] },
+    ]));
+    expect(source).toBe('archive');
+    expect(errors).toEqual([]);
+    expect(conversations).toEqual([{
+      key: 'archive:conv-1',
+      sourceId: 'conv-1',
+      title: 'Trip plans',
+      turns: [
+        expect.objectContaining({ key: 'archive:t1', parentKey: null, sourceId: 't1', userQuery: 'Where to?' }),
+        expect.objectContaining({ key: 'archive:t2', parentKey: 'archive:t1', sourceId: 't2', botResponse: 'Answer to When?' }),
+      ],
+    }]);
+  });
+
+  it('groups turns saved without a conversation under their first turn', () => {
+    const { conversations } = parsed(archive([{ id: null, turns: [archiveTurn('t9', null, 'Hi')] }]));
+    expect(conversations[0]).toMatchObject({ key: 'archive:ungrouped:t9', sourceId: null, title: null });
+  });
+
+  it('reports malformed records with their path and imports the rest', () => {
+    const { conversations, errors } = parsed(archive([
+      { id: 'conv-1', turns: [archiveTurn('t1', null, 'Fine'), { ...archiveTurn('t2', 't1', ''), userQuery: '' }, { ...archiveTurn('t3', 't1', 'Late'), createdAt: 'soon' }] },
+      'not a conversation',
+      { id: 'conv-3', turns: [{ id: 't4' }] },
+    ]));
+    expect(conversations.map(conversation => conversation.turns.map(turn => turn.key))).toEqual([['archive:t1']]);
+    expect(errors).toEqual([
+      { record: 'conversations[0].turns[1]', error: 'userQuery must be a non-empty string.' },
+      { record: 'conversations[0].turns[2]', error: 'createdAt must be a timestamp.' },
+      { record: 'conversations[1]', error: 'Conversation must be an object with a list of turns.' },
+      { record: 'conversations[2].turns[0]', error: 'createdAt must be a timestamp.' },
+    ]);
+  });
+
+  it('pairs generic messages into turns, joining consecutive replies and reading epoch seconds or milliseconds', () => {
+    const { source, conversations, errors } = parsed({ title: 'BM25', messages });
+    expect(source).toBe('generic');
+    expect(errors).toEqual([]);
+    const [conversation] = conversations;
+    expect(conversation.title).toBe('BM25');
+    expect(conversation.turns).toEqual([
+      expect.objectContaining({ parentKey: null, userQuery: 'What is BM25?', botResponse: 'A ranking function.', createdAt: '2024-05-01T10:00:00.000Z' }),
+      expect.objectContaining({ parentKey: conversation.turns[0].key, userQuery: 'Who made it?', botResponse: 'Robertson and colleagues\n\nat City University.', createdAt: '2024-05-01T10:01:40.000Z' }),
+    ]);
+  });
+
+  it('derives generic keys from the content, so the same file gets the same keys', () => {
+    const first = parsed(messages).conversations[0];
+    const second = parsed(messages.map(message => ({ ...message }))).conversations[0];
+    expect(second.key).toBe(first.key);
+    expect(second.turns.map(turn => turn.key)).toEqual(first.turns.map(turn => turn.key));
+    expect(first.key).toMatch(/^generic:[0-9a-f]{32}$/);
+
+    const edited = parsed([messages[0], { ...messages[1], content: 'A different answer.' }]).conversations[0];
+    expect(edited.key).toBe(first.key);
+    expect(edited.turns[0].key).not.toBe(first.turns[0].key);
+    expect(parsed({ title: 'Other', messages }).conversations[0].key).not.toBe(first.key);
+  });
+
+  it('leaves out replies whose question was left out', () => {
+    const { conversations, errors } = parsed([
+      { role: 'model', content: 'Orphan reply', timestamp: '2024-05-01T09:00:00Z' },
+      { role: 'user', content: 'Bad time', timestamp: 'yesterday' },
+      { role: 'model', content: 'Reply to the bad question', timestamp: '2024-05-01T09:01:00Z' },
+      { role: 'narrator', content: 'Aside', timestamp: '2024-05-01T09:02:00Z' },
+      ...messages.slice(0, 2),
+    ]);
+    expect(conversations[0].turns.map(turn => turn.userQuery)).toEqual(['What is BM25?']);
+    expect(errors.map(error => error.record)).toEqual(['messages[0]', 'messages[1]', 'messages[2]', 'messages[3]']);
+  });
+
+  it('refuses files with too many turns', () => {
+    const tooMany = Array.from({ length: IMPORT_MAX_TURNS + 1 }, (_, i) => ({ role: 'user', content: `Question ${i}`, timestamp: i + 1 }));
+    expect(parseImport(tooMany)).toEqual({ error: expect.stringContaining(`more than ${IMPORT_MAX_TURNS} turns`) });
+  });
+});
+
+describe('importConversations', () => {
+  it('creates nothing twice when the same file is imported again', async () => {
+    const { tables, supabase } = createFakeSupabase();
+    const body = archive([{ id: 'conv-1', title: 'Trip', turns: [archiveTurn('t1', null, 'Where to?'), archiveTurn('t2', 't1', 'When?')] }]);
+
+    const first = await importConversations(supabase, 'user-1', parsed(body));
+    expect(first).toEqual({ conversations: { created: 1, existing: 0 }, turns: { imported: 2, skipped: 0 }, errors: [] });
+    const [parent, child] = tables.chat_messages;
+    expect(child.parent_id).toBe(parent.id);
+
+    const second = await importConversations(supabase, 'user-1', parsed(body));
+    expect(second).toEqual({ conversations: { created: 0, existing: 1 }, turns: { imported: 0, skipped: 2 }, errors: [] });
+    expect(tables.conversations).toHaveLength(1);
+    expect(tables.chat_messages).toHaveLength(2);
+  });
+
+  it('adds only the new turns of a longer copy of a message list, under the same conversation', async () => {
+    const { tables, supabase } = createFakeSupabase();
+    await importConversations(supabase, 'user-1', parsed(messages.slice(0, 2)));
+    const summary = await importConversations(supabase, 'user-1', parsed(messages));
+
+    expect(summary).toEqual({ conversations: { created: 0, existing: 1 }, turns: { imported: 1, skipped: 1 }, errors: [] });
+    expect(tables.chat_messages.map(row => row.user_query)).toEqual(['What is BM25?', 'Who made it?']);
+    expect(tables.chat_messages[1].parent_id).toBe(tables.chat_messages[0].id);
+  });
+
+  it('skips turns of the user\'s own export that still exist', async () => {
+    const { tables, supabase } = createFakeSupabase();
+    const conversationId = randomUUID();
+    const turnId = randomUUID();
+    tables.conversations.push({ id: conversationId, user_id: 'user-1', import_key: null });
+    tables.chat_messages.push({ id: turnId, user_id: 'user-1', conversation_id: conversationId, import_key: null });
+
+    const summary = await importConversations(supabase, 'user-1', parsed(archive([
+      { id: conversationId, turns: [archiveTurn(turnId, null, 'Kept'), archiveTurn('t-new', turnId, 'Deleted since')] },
+    ])));
+    expect(summary).toEqual({ conversations: { created: 0, existing: 1 }, turns: { imported: 1, skipped: 1 }, errors: [] });
+    expect(tables.chat_messages.at(-1)).toMatchObject({ conversation_id: conversationId, parent_id: turnId, import_key: 'archive:t-new' });
+  });
+
+  it('keeps one user\'s imports apart from another\'s', async () => {
+    const { tables, supabase } = createFakeSupabase();
+    await importConversations(supabase, 'user-1', parsed(messages));
+    const summary = await importConversations(supabase, 'user-2', parsed(messages));
+    expect(summary.turns).toEqual({ imported: 2, skipped: 0 });
+    expect(tables.chat_messages).toHaveLength(4);
+  });
+});
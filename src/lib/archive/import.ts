@@ -0,0 +1,393 @@
+// src/lib/archive/import.ts
+// Imports chat history from our own export (a gemini-chat-archive JSON document) or from other tools as a generic
+// list of { role, content, timestamp } messages. Every turn and conversation is stored with an import key derived
+// from its source, so importing the same file again skips what is already there.
+import { createHash, randomUUID } from 'crypto';
+import type { createSupabaseServerClient } from '@/lib/supabase/server';
+import type { Citation } from '@/lib/citations';
+import { normaliseTitle } from '@/lib/conversations';
+import { ARCHIVE_FORMAT, ARCHIVE_VERSION } from './index';
+
+type SupabaseServerClient = ReturnType<typeof createSupabaseServerClient>;
+
+// Larger files are refused as a whole; override with IMPORT_MAX_TURNS.
+export const IMPORT_MAX_TURNS = Number(process.env.IMPORT_MAX_TURNS) || 5000;
+
+export const MAX_IMPORT_BYTES = 20 * 1024 * 1024;
+
+const MAX_IMPORTED_TEXT_LENGTH = 100_000;
+
+const GENERIC_ROLES: Record<string, 'user' | 'model'> = { user: 'user', human: 'user', assistant: 'model', model: 'model', bot: 'model' };
+
+// Batches keep `.in()` URLs and insert payloads a manageable size.
+const BATCH_SIZE = 200;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** A record that was left out of the import, e.g. "conversations[0].turns[3]: createdAt must be a timestamp." */
+export type ImportRecordError = { record: string; error: string };
+
+type ImportTurn = {
+  key: string;
+  parentKey: string | null;
+  sourceId: string | null; // The turn's id in the archive, which may be a turn this user already has
+  createdAt: string;
+  userQuery: string;
+  botResponse: string | null;
+  pdfContextUsed: boolean;
+  documentIds: string[];
+  citations: Citation[];
+};
+
+type ImportConversation = {
+  key: string;
+  sourceId: string | null;
+  title: string | null;
+  turns: ImportTurn[]; // Parents before children
+};
+
+export type ParsedImport = {
+  source: 'archive' | 'generic';
+  conversations: ImportConversation[];
+  errors: ImportRecordError[];
+};
+
+export type ImportSummary = {
+  conversations: { created: number; existing: number };
+  turns: { imported: number; skipped: number };
+  errors: ImportRecordError[];
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const hash = (...parts: string[]) => createHash('sha256').update(parts.join('\u0000')).digest('hex').slice(0, 32);
+
+// ISO strings and epoch milliseconds (or seconds, as many tools write them) are accepted.
+function parseTimestamp(value: unknown): string | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return new Date(value < 1e11 ? value * 1000 : value).toISOString();
+  }
+  if (typeof value === 'string' && value.trim()) {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : new Date(time).toISOString();
+  }
+  return null;
+}
+
+function textField(value: unknown, name: string, { optional }: { optional: boolean }): { value: string | null } | { error: string } {
+  if ((value === null || value === undefined) && optional) return { value: null };
+  if (typeof value !== 'string' || (!optional && !value.trim())) {
+    return { error: `${name} must be ${optional ? 'a string or null' : 'a non-empty string'}.` };
+  }
+  if (value.length > MAX_IMPORTED_TEXT_LENGTH) {
+    return { error: `${name} must be at most ${MAX_IMPORTED_TEXT_LENGTH} characters.` };
+  }
+  return { value };
+}
+
+function parseCitations(value: unknown): Citation[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter((citation): citation is Citation =>
+    isObject(citation)
+    && typeof citation.documentId === 'string'
+    && typeof citation.documentName === 'string'
+    && (citation.unit === 'page' || citation.unit === 'section')
+    && typeof citation.page === 'number'
+    && (citation.quote === null || typeof citation.quote === 'string'));
+}
+
+function parseArchiveTurn(input: unknown): ImportTurn | { error: string } {
+  if (!isObject(input)) return { error: 'Turn must be an object.' };
+  if (typeof input.id !== 'string' || !input.id) return { error: 'id must be a non-empty string.' };
+  if (input.parentId !== null && input.parentId !== undefined && typeof input.parentId !== 'string') {
+    return { error: 'parentId must be a string or null.' };
+  }
+  const createdAt = parseTimestamp(input.createdAt);
+  if (!createdAt) return { error: 'createdAt must be a timestamp.' };
+  const userQuery = textField(input.userQuery, 'userQuery', { optional: false });
+  if ('error' in userQuery) return userQuery;
+  const botResponse = textField(input.botResponse, 'botResponse', { optional: true });
+  if ('error' in botResponse) return botResponse;
+  if (input.pdfContextUsed !== undefined && typeof input.pdfContextUsed !== 'boolean') {
+    return { error: 'pdfContextUsed must be a boolean.' };
+  }
+  if (input.documents !== undefined && (!Array.isArray(input.documents) || !input.documents.every(d => isObject(d) && typeof d.id === 'string'))) {
+    return { error: 'documents must be a list of { id, name } objects.' };
+  }
+
+  return {
+    key: `archive:${input.id}`,
+    parentKey: input.parentId ? `archive:${input.parentId}` : null,
+    sourceId: input.id,
+    createdAt,
+    userQuery: userQuery.value!,
+    botResponse: botResponse.value,
+    pdfContextUsed: input.pdfContextUsed ?? false,
+    documentIds: ((input.documents ?? []) as { id: string }[]).map(document => document.id),
+    citations: parseCitations(input.citations),
+  };
+}
+
+function parseArchive(input: Record<string, unknown>): ParsedImport | { error: string } {
+  if (input.version !== ARCHIVE_VERSION) {
+    return { error: `Unsupported archive version ${String(input.version)}; this server reads version ${ARCHIVE_VERSION}.` };
+  }
+  if (!Array.isArray(input.conversations)) {
+    return { error: 'conversations must be a list.' };
+  }
+
+  const errors: ImportRecordError[] = [];
+  const conversations: ImportConversation[] = [];
+  input.conversations.forEach((conversation: unknown, i) => {
+    const record = `conversations[${i}]`;
+    if (!isObject(conversation) || !Array.isArray(conversation.turns)) {
+      errors.push({ record, error: 'Conversation must be an object with a list of turns.' });
+      return;
+    }
+    if (conversation.id !== null && conversation.id !== undefined && typeof conversation.id !== 'string') {
+      errors.push({ record, error: 'id must be a string or null.' });
+      return;
+    }
+    const turns: ImportTurn[] = [];
+    conversation.turns.forEach((turn: unknown, j) => {
+      const parsed = parseArchiveTurn(turn);
+      if ('error' in parsed) {
+        errors.push({ record: `${record}.turns[${j}]`, error: parsed.error });
+      } else {
+        turns.push(parsed);
+      }
+    });
+    if (turns.length === 0) return;
+
+    const sourceId = conversation.id || null;
+    conversations.push({
+      // Turns saved before conversations existed are grouped under their first turn
+      key: sourceId ? `archive:${sourceId}` : `archive:ungrouped:${turns[0].sourceId}`,
+      sourceId,
+      title: normaliseTitle(conversation.title),
+      turns,
+    });
+  });
+  return { source: 'archive', conversations, errors };
+}
+
+// Pairs each user message with the replies that follow it; consecutive replies (e.g. a reply split across messages)
+// are joined.
+function parseGeneric(messages: unknown[], title: unknown): ParsedImport {
+  const errors: ImportRecordError[] = [];
+  const exchanges: { createdAt: string; userQuery: string; replies: string[] }[] = [];
+  // Replies to a question that was left out are left out with it
+  let current: (typeof exchanges)[number] | null = null;
+
+  messages.forEach((message, i) => {
+    const record = `messages[${i}]`;
+    if (!isObject(message)) {
+      errors.push({ record, error: 'Message must be an object.' });
+      return;
+    }
+    const role = typeof message.role === 'string' ? GENERIC_ROLES[message.role.toLowerCase()] : undefined;
+    if (!role) {
+      errors.push({ record, error: `role must be one of ${Object.keys(GENERIC_ROLES).join(', ')}.` });
+      return;
+    }
+    const content = textField(message.content, 'content', { optional: false });
+    if ('error' in content) {
+      errors.push({ record, error: content.error });
+      if (role === 'user') current = null;
+      return;
+    }
+    const createdAt = parseTimestamp(message.timestamp);
+    if (!createdAt) {
+      errors.push({ record, error: 'timestamp must be an ISO date or epoch time.' });
+      if (role === 'user') current = null;
+      return;
+    }
+    if (role === 'user') {
+      current = { createdAt, userQuery: content.value!, replies: [] };
+      exchanges.push(current);
+    } else if (!current) {
+      errors.push({ record, error: 'A reply must follow an imported user message.' });
+    } else {
+      current.replies.push(content.value!);
+    }
+  });
+  if (exchanges.length === 0) return { source: 'generic', conversations: [], errors };
+
+  const normalisedTitle = normaliseTitle(title);
+  const conversationKey = `generic:${hash(normalisedTitle ?? '', exchanges[0].createdAt, exchanges[0].userQuery)}`;
+  let parentKey: string | null = null;
+  const turns = exchanges.map(exchange => {
+    const botResponse = exchange.replies.length > 0 ? exchange.replies.join('\n\n') : null;
+    const turn: ImportTurn = {
+      key: `generic:${hash(conversationKey, exchange.createdAt, exchange.userQuery, botResponse ?? '')}`,
+      parentKey,
+      sourceId: null,
+      createdAt: exchange.createdAt,
+      userQuery: exchange.userQuery,
+      botResponse,
+      pdfContextUsed: false,
+      documentIds: [],
+      citations: [],
+    };
+    parentKey = turn.key;
+    return turn;
+  });
+  return { source: 'generic', conversations: [{ key: conversationKey, sourceId: null, title: normalisedTitle, turns }], errors };
+}
+
+/**
+ * Checks an import body: a gemini-chat-archive document, a list of { role, content, timestamp } messages, or
+ * { title?, messages } wrapping such a list. Malformed records are reported and left out; an error is returned only
+ * when the body as a whole can't be read.
+ */
+export function parseImport(body: unknown): ParsedImport | { error: string } {
+  let parsed: ParsedImport | { error: string };
+  if (Array.isArray(body)) {
+    parsed = parseGeneric(body, null);
+  } else if (isObject(body) && body.format === ARCHIVE_FORMAT) {
+    parsed = parseArchive(body);
+  } else if (isObject(body) && Array.isArray(body.messages)) {
+    parsed = parseGeneric(body.messages, body.title);
+  } else {
+    return { error: `Expected a ${ARCHIVE_FORMAT} export or a list of { role, content, timestamp } messages.` };
+  }
+  if ('error' in parsed) return parsed;
+
+  const turnCount = parsed.conversations.reduce((sum, conversation) => sum + conversation.turns.length, 0);
+  if (turnCount > IMPORT_MAX_TURNS) {
+    return { error: `The file has more than ${IMPORT_MAX_TURNS} turns. Split it into smaller files.` };
+  }
+  return parsed;
+}
+
+function batches<T>(items: T[]): T[][] {
+  const result: T[][] = [];
+  for (let i = 0; i < items.length; i += BATCH_SIZE) result.push(items.slice(i, i + BATCH_SIZE));
+  return result;
+}
+
+// Ids among `ids` that name rows of the user's in `table`; ids that aren't UUIDs can't match and aren't queried.
+async function ownedIds(supabase: SupabaseServerClient, table: 'chat_messages' | 'conversations' | 'documents', userId: string, ids: string[]): Promise<Set<string>> {
+  const owned = new Set<string>();
+  for (const batch of batches(Array.from(new Set(ids.filter(id => UUID_PATTERN.test(id)))))) {
+    const { data, error } = await supabase.from(table).select('id').eq('user_id', userId).in('id', batch);
+    if (error) {
+      throw new Error(`Failed to check existing ${table}. ` + error.message);
+    }
+    for (const row of data as { id: string }[]) owned.add(row.id);
+  }
+  return owned;
+}
+
+async function idsByImportKey(supabase: SupabaseServerClient, table: 'chat_messages' | 'conversations', userId: string, keys: string[]): Promise<Map<string, string>> {
+  const ids = new Map<string, string>();
+  for (const batch of batches(keys)) {
+    const { data, error } = await supabase.from(table).select('id, import_key').eq('user_id', userId).in('import_key', batch);
+    if (error) {
+      throw new Error(`Failed to check previously imported ${table}. ` + error.message);
+    }
+    for (const row of data as { id: string; import_key: string }[]) ids.set(row.import_key, row.id);
+  }
+  return ids;
+}
+
+// The user's own conversation when re-importing their export; otherwise the one a previous import created, or a new one.
+async function resolveConversation(
+  supabase: SupabaseServerClient,
+  userId: string,
+  conversation: ImportConversation,
+  ownedConversationIds: Set<string>,
+): Promise<{ id: string; created: boolean }> {
+  if (conversation.sourceId && ownedConversationIds.has(conversation.sourceId)) {
+    return { id: conversation.sourceId, created: false };
+  }
+  const existing = await idsByImportKey(supabase, 'conversations', userId, [conversation.key]);
+  if (existing.has(conversation.key)) {
+    return { id: existing.get(conversation.key)!, created: false };
+  }
+
+  const turns = conversation.turns;
+  const { data, error } = await supabase
+    .from('conversations')
+    .insert({
+      user_id: userId,
+      title: conversation.title ?? 'Imported chat',
+      import_key: conversation.key,
+      created_at: turns[0].createdAt,
+      updated_at: turns.reduce((latest, turn) => (turn.createdAt > latest ? turn.createdAt : latest), turns[0].createdAt),
+    })
+    .select('id')
+    .single();
+  if (error) {
+    throw new Error('Failed to create conversation. ' + error.message);
+  }
+  return { id: data.id, created: true };
+}
+
+/**
+ * Writes the parsed conversations under the user. Turns keep their order and branches; a turn whose parent wasn't
+ * imported follows the turn before it. Document references and citations are kept only for documents the user owns.
+ */
+export async function importConversations(supabase: SupabaseServerClient, userId: string, parsed: ParsedImport): Promise<ImportSummary> {
+  const summary: ImportSummary = { conversations: { created: 0, existing: 0 }, turns: { imported: 0, skipped: 0 }, errors: [...parsed.errors] };
+  const allTurns = parsed.conversations.flatMap(conversation => conversation.turns);
+
+  const [ownedConversationIds, ownedTurnIds, ownedDocumentIds] = await Promise.all([
+    ownedIds(supabase, 'conversations', userId, parsed.conversations.flatMap(c => (c.sourceId ? [c.sourceId] : []))),
+    ownedIds(supabase, 'chat_messages', userId, allTurns.flatMap(turn => (turn.sourceId ? [turn.sourceId] : []))),
+    ownedIds(supabase, 'documents', userId, allTurns.flatMap(turn => turn.documentIds)),
+  ]);
+
+  for (const conversation of parsed.conversations) {
+    const target = await resolveConversation(supabase, userId, conversation, ownedConversationIds);
+    summary.conversations[target.created ? 'created' : 'existing']++;
+
+    const idByKey = await idsByImportKey(supabase, 'chat_messages', userId, conversation.turns.map(turn => turn.key));
+    for (const turn of conversation.turns) {
+      if (turn.sourceId && ownedTurnIds.has(turn.sourceId)) idByKey.set(turn.key, turn.sourceId);
+    }
+
+    // Ids are assigned here so children can point at parents inserted in the same batch
+    const rows = [];
+    let previousId: string | null = null;
+    for (const turn of conversation.turns) {
+      const existingId = idByKey.get(turn.key);
+      if (existingId) {
+        summary.turns.skipped++;
+        previousId = existingId;
+        continue;
+      }
+      const id = randomUUID();
+      idByKey.set(turn.key, id);
+      const documentIds = turn.documentIds.filter(documentId => ownedDocumentIds.has(documentId));
+      rows.push({
+        id,
+        user_id: userId,
+        conversation_id: target.id,
+        parent_id: turn.parentKey ? idByKey.get(turn.parentKey) ?? previousId : null,
+        import_key: turn.key,
+        created_at: turn.createdAt,
+        user_query: turn.userQuery,
+        bot_response: turn.botResponse,
+        pdf_context_used: turn.pdfContextUsed,
+        document_ids: documentIds.length > 0 ? documentIds : null,
+        citations: turn.citations.filter(citation => ownedDocumentIds.has(citation.documentId)),
+      });
+      previousId = id;
+    }
+
+    for (const batch of batches(rows)) {
+      // A concurrent import of the same file may have stored some of these already; those rows are skipped
+      const { data, error } = await supabase
+        .from('chat_messages')
+        .upsert(batch, { onConflict: 'user_id,import_key', ignoreDuplicates: true })
+        .select('id');
+      if (error) {
+        throw new Error('Failed to save imported messages. ' + error.message);
+      }
+      summary.turns.imported += data.length;
+      summary.turns.skipped += batch.length - data.length;
+    }
+  }
+  return summary;
+}
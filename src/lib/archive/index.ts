@@ -0,0 +1,206 @@
+// src/lib/archive/index.ts
+// Chat archives: the JSON document /api/export produces (and renders as Markdown or PDF), selected from the user's
+// history by conversation and/or filters.
+import type { createSupabaseServerClient } from '@/lib/supabase/server';
+import type { Citation } from '@/lib/citations';
+import { parseDateParam } from '@/lib/chat-search';
+import { loadConversationTree, loadTurns, activeLeaf, pathTo } from '@/lib/chat-branches';
+import { accessibleDocumentsFilter } from '@/lib/workspaces';
+
+type SupabaseServerClient = ReturnType<typeof createSupabaseServerClient>;
+
+export const ARCHIVE_FORMAT = 'gemini-chat-archive';
+export const ARCHIVE_VERSION = 1;
+
+// Larger selections are refused rather than silently cut short; override with EXPORT_MAX_TURNS.
+export const EXPORT_MAX_TURNS = Number(process.env.EXPORT_MAX_TURNS) || 5000;
+
+export type ArchivedTurn = {
+  id: string;
+  parentId: string | null; // The turn this one follows, so regenerated and edited branches survive a round trip
+  createdAt: string;
+  userQuery: string;
+  botResponse: string | null;
+  pdfContextUsed: boolean;
+  documents: { id: string; name: string }[]; // The documents the question was asked against
+  citations: Citation[];
+};
+
+export type ArchivedConversation = {
+  id: string | null; // null for turns saved before conversations existed
+  title: string | null;
+  turns: ArchivedTurn[]; // Oldest first
+};
+
+export type ChatArchive = {
+  format: typeof ARCHIVE_FORMAT;
+  version: typeof ARCHIVE_VERSION;
+  exportedAt: string;
+  conversations: ArchivedConversation[];
+};
+
+export type ExportFormat = 'markdown' | 'json' | 'pdf';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'json', 'pdf'];
+
+export type ExportSelection = {
+  conversationId: string | null;
+  from: string | null;
+  to: string | null;
+  pdfContextUsed: boolean | null;
+  documentId: string | null;
+};
+
+/** Reads and checks the format and selection of a /api/export URL. */
+export function parseExportParams(params: URLSearchParams): { format: ExportFormat; selection: ExportSelection } | { error: string } {
+  const format = params.get('format') ?? 'markdown';
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    return { error: `format must be one of ${EXPORT_FORMATS.join(', ')}.` };
+  }
+  const from = parseDateParam(params.get('from'), { endOfDay: false });
+  const to = parseDateParam(params.get('to'), { endOfDay: true });
+  if (from === undefined || to === undefined) {
+    return { error: 'from and to must be dates (YYYY-MM-DD) or ISO timestamps.' };
+  }
+  const pdfContext = params.get('pdfContext');
+  if (pdfContext !== null && pdfContext !== 'true' && pdfContext !== 'false') {
+    return { error: 'pdfContext must be true or false.' };
+  }
+  return {
+    format: format as ExportFormat,
+    selection: {
+      conversationId: params.get('conversationId') || null,
+      from,
+      to,
+      pdfContextUsed: pdfContext === null ? null : pdfContext === 'true',
+      documentId: params.get('documentId') || null,
+    },
+  };
+}
+
+type ExportRow = {
+  id: string;
+  conversation_id: string | null;
+  parent_id: string | null;
+  created_at: string;
+  user_query: string;
+  bot_response: string | null;
+  pdf_context_used: boolean;
+  document_ids: string[] | null;
+  citations: Citation[] | null;
+};
+
+const EXPORT_COLUMNS = 'id, conversation_id, parent_id, created_at, user_query, bot_response, pdf_context_used, document_ids, citations';
+
+export class ExportTooLargeError extends Error {
+  constructor() {
+    super(`The selection has more than ${EXPORT_MAX_TURNS} turns. Narrow it down by conversation or date range.`);
+    this.name = 'ExportTooLargeError';
+  }
+}
+
+// A whole conversation exports the branch being shown, as on screen; any filter exports every matching turn instead.
+async function loadExportRows(supabase: SupabaseServerClient, userId: string, selection: ExportSelection): Promise<ExportRow[] | null> {
+  const { conversationId, from, to, pdfContextUsed, documentId } = selection;
+  const filtered = from || to || pdfContextUsed !== null || documentId;
+
+  if (conversationId && !filtered) {
+    const { data: conversation, error } = await supabase
+      .from('conversations')
+      .select('id, current_message_id')
+      .eq('id', conversationId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) {
+      throw new Error('Failed to load conversation. ' + error.message);
+    }
+    if (!conversation) return null;
+    const tree = await loadConversationTree(supabase, conversation.id);
+    const path = pathTo(tree, activeLeaf(tree, conversation.current_message_id));
+    if (path.length > EXPORT_MAX_TURNS) throw new ExportTooLargeError();
+    return loadTurns<ExportRow>(supabase, path, EXPORT_COLUMNS);
+  }
+
+  let query = supabase
+    .from('chat_messages')
+    .select(EXPORT_COLUMNS)
+    .eq('user_id', userId);
+  if (conversationId) query = query.eq('conversation_id', conversationId);
+  if (from) query = query.gte('created_at', from);
+  if (to) query = query.lte('created_at', to);
+  if (pdfContextUsed !== null) query = query.eq('pdf_context_used', pdfContextUsed);
+  if (documentId) query = query.contains('document_ids', [documentId]);
+
+  const { data, error } = await query
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(EXPORT_MAX_TURNS + 1);
+  if (error) {
+    throw new Error('Failed to load chat history. ' + error.message);
+  }
+  if (data.length > EXPORT_MAX_TURNS) throw new ExportTooLargeError();
+  return data as ExportRow[];
+}
+
+/**
+ * Collects the selected turns into an archive, grouped by conversation (oldest conversation first), with the names
+ * of the documents each question used. Resolves to null when the selected conversation doesn't exist.
+ */
+export async function collectChatArchive(supabase: SupabaseServerClient, userId: string, selection: ExportSelection): Promise<ChatArchive | null> {
+  const rows = await loadExportRows(supabase, userId, selection);
+  if (!rows) return null;
+  // Logged failures aren't part of the conversation
+  const turns = rows.filter(row => row.bot_response === null || !row.bot_response.startsWith('SYSTEM ERROR:'));
+
+  const conversationIds = Array.from(new Set(turns.map(turn => turn.conversation_id).filter((id): id is string => !!id)));
+  const documentIds = Array.from(new Set(turns.flatMap(turn => turn.document_ids ?? [])));
+  const [conversationsResult, documentsResult] = await Promise.all([
+    conversationIds.length > 0
+      ? supabase.from('conversations').select('id, title').eq('user_id', userId).in('id', conversationIds)
+      : Promise.resolve({ data: [], error: null }),
+    documentIds.length > 0
+      ? supabase.from('documents').select('id, name').or(await accessibleDocumentsFilter(supabase, userId)).in('id', documentIds)
+      : Promise.resolve({ data: [], error: null }),
+  ]);
+  if (conversationsResult.error || documentsResult.error) {
+    throw new Error('Failed to load conversation titles or document names. ' + (conversationsResult.error ?? documentsResult.error)?.message);
+  }
+  const titles = new Map((conversationsResult.data as { id: string; title: string | null }[]).map(c => [c.id, c.title]));
+  const documentNames = new Map((documentsResult.data as { id: string; name: string }[]).map(d => [d.id, d.name]));
+
+  const conversations = new Map<string | null, ArchivedConversation>();
+  for (const turn of turns) {
+    const key = turn.conversation_id;
+    if (!conversations.has(key)) {
+      conversations.set(key, { id: key, title: key ? titles.get(key) ?? null : null, turns: [] });
+    }
+    conversations.get(key)!.turns.push({
+      id: turn.id,
+      parentId: turn.parent_id,
+      createdAt: turn.created_at,
+      userQuery: turn.user_query,
+      botResponse: turn.bot_response,
+      pdfContextUsed: turn.pdf_context_used,
+      // Deleted documents keep their id, so the turn still says a document was used
+      documents: (turn.document_ids ?? []).map(id => ({ id, name: documentNames.get(id) ?? 'Deleted document' })),
+      citations: turn.citations ?? [],
+    });
+  }
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    conversations: Array.from(conversations.values()),
+  };
+}
+
+// "2026-10-19 14:05 UTC": exports are rendered on the server, which doesn't know the reader's time zone.
+export function formatArchiveTimestamp(timestamp: string): string {
+  return new Date(timestamp).toISOString().slice(0, 16).replace('T', ' ') + ' UTC';
+}
+
+// Names of the documents used anywhere in the conversation, in first-use order.
+export function conversationDocuments(conversation: ArchivedConversation): string[] {
+  return Array.from(new Set(conversation.turns.flatMap(turn => turn.documents.map(document => document.name))));
+}
@@ -0,0 +1,39 @@
+// src/lib/archive/markdown.ts
+// Renders a chat archive as a Markdown document that pastes cleanly into reports.
+import { conversationDocuments, formatArchiveTimestamp, type ArchivedTurn, type ChatArchive } from './index';
+
+function turnToMarkdown(turn: ArchivedTurn): string {
+  const context = turn.pdfContextUsed && turn.documents.length > 0
+    ? ` · answered from ${turn.documents.map(document => `*${document.name}*`).join(', ')}`
+    : '';
+  return [
+    `### You · ${formatArchiveTimestamp(turn.createdAt)}`,
+    '',
+    turn.userQuery,
+    '',
+    `### Gemini${context}`,
+    '',
+    turn.botResponse ?? '*(no reply)*',
+  ].join('\n');
+}
+
+export function archiveToMarkdown(archive: ChatArchive): string {
+  const sections = archive.conversations.map(conversation => {
+    const documents = conversationDocuments(conversation);
+    return [
+      `## ${conversation.title || 'Untitled chat'}`,
+      '',
+      ...(documents.length > 0 ? [`Documents used as context: ${documents.join(', ')}`, ''] : []),
+      conversation.turns.map(turnToMarkdown).join('\n\n---\n\n'),
+    ].join('\n');
+  });
+
+  return [
+    archive.conversations.length === 1 ? `# ${archive.conversations[0].title || 'Chat export'}` : '# Chat export',
+    '',
+    `Exported ${formatArchiveTimestamp(archive.exportedAt)}.`,
+    '',
+    sections.length > 0 ? sections.join('\n\n') : '*No messages matched the selection.*',
+    '',
+  ].join('\n');
+}
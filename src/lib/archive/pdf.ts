@@ -0,0 +1,109 @@
+// src/lib/archive/pdf.ts
+// Renders a chat archive as a printable A4 PDF. Replies are laid out as their Markdown source text: it reads well in
+// print, and the standard PDF fonts need no font files on the server.
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage, type RGB } from 'pdf-lib';
+import { conversationDocuments, formatArchiveTimestamp, type ChatArchive } from './index';
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const TEXT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const LINE_SPACING = 1.35;
+
+// The standard fonts only encode Windows-1252; anything else is replaced rather than failing the whole export.
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+
+function toWinAnsi(text: string): string {
+  return Array.from(text.replace(/\t/g, '    ').replace(/\r/g, ''))
+    .map(char => {
+      const code = char.charCodeAt(0);
+      return char === '\n' || (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.includes(char) ? char : '?';
+    })
+    .join('');
+}
+
+// Greedy word wrap; words longer than a line are broken wherever they overflow.
+function wrapLine(line: string, font: PDFFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of line.split(/(?<= )/)) {
+    if (font.widthOfTextAtSize(current + word, size) <= width) {
+      current += word;
+      continue;
+    }
+    if (current) lines.push(current.trimEnd());
+    current = '';
+    let rest = word;
+    while (font.widthOfTextAtSize(rest, size) > width) {
+      let fit = rest.length - 1;
+      while (fit > 1 && font.widthOfTextAtSize(rest.slice(0, fit), size) > width) fit--;
+      lines.push(rest.slice(0, fit));
+      rest = rest.slice(fit);
+    }
+    current = rest;
+  }
+  lines.push(current.trimEnd());
+  return lines;
+}
+
+type TextStyle = { font: PDFFont; size: number; color?: RGB; indent?: number; spaceAfter?: number };
+
+export async function archiveToPdf(archive: ChatArchive): Promise<Uint8Array> {
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(archive.conversations.length === 1 ? archive.conversations[0].title || 'Chat export' : 'Chat export');
+  pdf.setCreationDate(new Date(archive.exportedAt));
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const italic = await pdf.embedFont(StandardFonts.HelveticaOblique);
+  const muted = rgb(0.4, 0.4, 0.45);
+
+  let page: PDFPage = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const write = (text: string, { font, size, color = rgb(0.1, 0.1, 0.12), indent = 0, spaceAfter = 0 }: TextStyle) => {
+    const lineHeight = size * LINE_SPACING;
+    for (const paragraph of toWinAnsi(text).split('\n')) {
+      for (const line of wrapLine(paragraph, font, size, TEXT_WIDTH - indent)) {
+        if (y - lineHeight < MARGIN) {
+          page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+          y = PAGE_HEIGHT - MARGIN;
+        }
+        y -= lineHeight;
+        if (line) page.drawText(line, { x: MARGIN + indent, y, size, font, color });
+      }
+    }
+    y -= spaceAfter;
+  };
+
+  write(archive.conversations.length === 1 ? archive.conversations[0].title || 'Chat export' : 'Chat export', { font: bold, size: 18, spaceAfter: 4 });
+  write(`Exported ${formatArchiveTimestamp(archive.exportedAt)}`, { font: regular, size: 9, color: muted, spaceAfter: 14 });
+  if (archive.conversations.length === 0) {
+    write('No messages matched the selection.', { font: italic, size: 10 });
+  }
+
+  for (const conversation of archive.conversations) {
+    if (archive.conversations.length > 1) {
+      write(conversation.title || 'Untitled chat', { font: bold, size: 14, spaceAfter: 4 });
+    }
+    const documents = conversationDocuments(conversation);
+    if (documents.length > 0) {
+      write(`Documents used as context: ${documents.join(', ')}`, { font: italic, size: 9, color: muted, spaceAfter: 8 });
+    }
+    for (const turn of conversation.turns) {
+      write(`You · ${formatArchiveTimestamp(turn.createdAt)}`, { font: bold, size: 10, spaceAfter: 2 });
+      write(turn.userQuery, { font: regular, size: 10, indent: 8, spaceAfter: 8 });
+      const context = turn.pdfContextUsed && turn.documents.length > 0
+        ? ` · answered from ${turn.documents.map(document => document.name).join(', ')}`
+        : '';
+      write(`Gemini${context}`, { font: bold, size: 10, spaceAfter: 2 });
+      write(turn.botResponse ?? '(no reply)', { font: regular, size: 10, indent: 8, spaceAfter: 14 });
+    }
+  }
+
+  const pages = pdf.getPages();
+  pages.forEach((pdfPage, i) => {
+    const label = `Page ${i + 1} of ${pages.length}`;
+    pdfPage.drawText(label, { x: PAGE_WIDTH - MARGIN - regular.widthOfTextAtSize(label, 8), y: MARGIN / 2, size: 8, font: regular, color: muted });
+  });
+  return pdf.save();
+}
@@ -0,0 +1,107 @@
+// src/lib/chat-branches.ts
+// Turns (chat_messages rows) form a tree within a conversation through parent_id: regenerating an answer or editing
+// a question adds a sibling of that turn instead of appending. The conversation's current_message_id is the leaf of
+// the branch being shown, and history, memory and new turns all follow the path from the root to it.
+import type { createSupabaseServerClient } from '@/lib/supabase/server';
+
+type SupabaseServerClient = ReturnType<typeof createSupabaseServerClient>;
+
+export type TurnLink = {
+  id: string;
+  parent_id: string | null;
+  created_at: string;
+};
+
+export type ConversationTree = {
+  links: TurnLink[]; // Oldest first
+  byId: Map<string, TurnLink>;
+  children: Map<string | null, TurnLink[]>; // Oldest first; the null key holds the roots
+};
+
+// Only ids and parents are loaded, so whole trees stay cheap; row contents are fetched for the path alone.
+export async function loadConversationTree(supabase: SupabaseServerClient, conversationId: string): Promise<ConversationTree> {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select('id, parent_id, created_at')
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true }); // Siblings sent in the same instant still keep one order
+  if (error) {
+    throw new Error('Failed to load conversation turns. ' + error.message);
+  }
+
+  const links = (data ?? []) as TurnLink[];
+  const byId = new Map(links.map(link => [link.id, link]));
+  const children = new Map<string | null, TurnLink[]>();
+  for (const link of links) {
+    // A parent that no longer exists makes its children roots rather than losing them
+    const parentId = link.parent_id && byId.has(link.parent_id) ? link.parent_id : null;
+    children.set(parentId, [...(children.get(parentId) ?? []), link]);
+  }
+  return { links, byId, children };
+}
+
+// Follows the newest child down from `turnId` to a leaf.
+export function latestLeaf(tree: ConversationTree, turnId: string): string {
+  let leafId = turnId;
+  for (let next = tree.children.get(leafId); next && next.length > 0; next = tree.children.get(leafId)) {
+    leafId = next[next.length - 1].id;
+  }
+  return leafId;
+}
+
+/**
+ * The leaf of the branch being shown: the conversation's current_message_id (extended down to its newest
+ * descendant), or the newest turn when none is recorded yet. Null for an empty conversation.
+ */
+export function activeLeaf(tree: ConversationTree, currentMessageId: string | null): string | null {
+  if (currentMessageId && tree.byId.has(currentMessageId)) return latestLeaf(tree, currentMessageId);
+  return tree.links.length > 0 ? tree.links[tree.links.length - 1].id : null;
+}
+
+// Turn ids from the root down to `leafId`.
+export function pathTo(tree: ConversationTree, leafId: string | null): string[] {
+  const path: string[] = [];
+  for (let link = leafId ? tree.byId.get(leafId) : undefined; link; link = link.parent_id ? tree.byId.get(link.parent_id) : undefined) {
+    path.push(link.id);
+  }
+  return path.reverse();
+}
+
+// The turn and its alternatives, oldest first.
+export function siblingIds(tree: ConversationTree, turnId: string): string[] {
+  const link = tree.byId.get(turnId);
+  if (!link) return [];
+  const parentId = link.parent_id && tree.byId.has(link.parent_id) ? link.parent_id : null;
+  return (tree.children.get(parentId) ?? []).map(sibling => sibling.id);
+}
+
+/** Loads the rows with the given ids and columns, in the order of `ids`. */
+export async function loadTurns<Row extends { id: string }>(
+  supabase: SupabaseServerClient,
+  ids: string[],
+  columns: string,
+): Promise<Row[]> {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select(columns)
+    .in('id', ids);
+  if (error) {
+    throw new Error('Failed to load conversation turns. ' + error.message);
+  }
+  const rows = new Map(((data ?? []) as unknown as Row[]).map(row => [row.id, row]));
+  return ids.map(id => rows.get(id)).filter((row): row is Row => !!row);
+}
+
+/** Loads the rows on the path to `leafId` (the newest `limit` of them), oldest first, with the given columns. */
+export async function loadBranchTurns<Row extends { id: string }>(
+  supabase: SupabaseServerClient,
+  tree: ConversationTree,
+  leafId: string | null,
+  columns: string,
+  limit: number = Infinity,
+): Promise<Row[]> {
+  return loadTurns<Row>(supabase, pathTo(tree, leafId).slice(-limit), columns);
+}
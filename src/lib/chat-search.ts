@@ -0,0 +1,149 @@
+// src/lib/chat-search.ts
+// Full-text search over stored exchanges: request parsing for /api/chat-search and the highlighted snippets it returns.
+// Matching itself is Postgres full-text search on chat_messages.search_vector (see README); snippets are cut here.
+
+export const SEARCH_PAGE_SIZE = 20;
+export const MAX_SEARCH_PAGE_SIZE = 50;
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+
+const SNIPPET_LENGTH = 200;
+
+// Plain-text pieces of a snippet; `match` marks the words to highlight. No HTML, so the client can't be handed markup.
+export type SnippetSegment = { text: string; match: boolean };
+
+export type ChatSearchFilters = {
+  query: string;
+  from: string | null; // ISO timestamps; a date-only `to` covers that whole day
+  to: string | null;
+  conversationId: string | null;
+  pdfContextUsed: boolean | null;
+  documentId: string | null;
+  page: number; // 1-based
+  pageSize: number;
+};
+
+export type ChatSearchHit = {
+  turnId: string;
+  conversationId: string | null;
+  conversationTitle: string | null;
+  createdAt: string;
+  pdfContextUsed: boolean;
+  query: SnippetSegment[];
+  reply: SnippetSegment[];
+};
+
+export type ChatSearchResponse = {
+  results: ChatSearchHit[];
+  page: number;
+  pageSize: number;
+  total: number;
+};
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Null when absent, undefined when invalid. `endOfDay` makes a date-only value cover that whole day (for `to`).
+export function parseDateParam(value: string | null, { endOfDay }: { endOfDay: boolean }): string | null | undefined {
+  if (!value) return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return undefined;
+  if (endOfDay && DATE_ONLY.test(value)) {
+    date.setUTCDate(date.getUTCDate() + 1);
+    date.setUTCMilliseconds(-1);
+  }
+  return date.toISOString();
+}
+
+/** Reads and checks the search parameters of a /api/chat-search URL. */
+export function parseSearchParams(params: URLSearchParams): { filters: ChatSearchFilters } | { error: string } {
+  const query = (params.get('q') ?? '').replace(/\s+/g, ' ').trim();
+  if (!query || query.length > MAX_SEARCH_QUERY_LENGTH) {
+    return { error: `q is required and must be at most ${MAX_SEARCH_QUERY_LENGTH} characters.` };
+  }
+
+  const from = parseDateParam(params.get('from'), { endOfDay: false });
+  const to = parseDateParam(params.get('to'), { endOfDay: true });
+  if (from === undefined || to === undefined) {
+    return { error: 'from and to must be dates (YYYY-MM-DD) or ISO timestamps.' };
+  }
+
+  const pdfContext = params.get('pdfContext');
+  if (pdfContext !== null && pdfContext !== 'true' && pdfContext !== 'false') {
+    return { error: 'pdfContext must be true or false.' };
+  }
+
+  const page = params.has('page') ? Number(params.get('page')) : 1;
+  const pageSize = params.has('pageSize') ? Number(params.get('pageSize')) : SEARCH_PAGE_SIZE;
+  if (!Number.isInteger(page) || page < 1 || !Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_SEARCH_PAGE_SIZE) {
+    return { error: `page must be a positive integer and pageSize between 1 and ${MAX_SEARCH_PAGE_SIZE}.` };
+  }
+
+  return {
+    filters: {
+      query,
+      from,
+      to,
+      conversationId: params.get('conversationId') || null,
+      pdfContextUsed: pdfContext === null ? null : pdfContext === 'true',
+      documentId: params.get('documentId') || null,
+      page,
+      pageSize,
+    },
+  };
+}
+
+// The words of a web-search style query ("quoted phrases", -excluded, OR), lower-cased, for highlighting.
+export function searchTerms(query: string): string[] {
+  return Array.from(new Set(
+    query
+      .split(/\s+/)
+      .filter(word => !word.startsWith('-') && word.toLowerCase() !== 'or')
+      .flatMap(word => word.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+  ));
+}
+
+// Postgres stems words ("contracts" finds "contract"), so a word counts as a match when it shares the term's stem-ish
+// prefix. Close enough for highlighting; the search itself is exact.
+function matchesTerm(word: string, terms: string[]): boolean {
+  const lower = word.toLowerCase();
+  return terms.some(term => lower.startsWith(term.slice(0, Math.max(3, term.length - 2))));
+}
+
+/**
+ * Cuts a window of about SNIPPET_LENGTH characters around the first matching word of `text` and splits it into
+ * highlighted and plain segments. Texts without a match give their opening instead.
+ */
+export function highlightSnippet(text: string, terms: string[], length: number = SNIPPET_LENGTH): SnippetSegment[] {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const words = [...flat.matchAll(/[\p{L}\p{N}]+/gu)];
+  const firstMatch = words.find(word => matchesTerm(word[0], terms));
+
+  let start = firstMatch?.index !== undefined ? Math.max(0, firstMatch.index - Math.floor(length / 3)) : 0;
+  if (start > 0) {
+    const wordStart = flat.indexOf(' ', start);
+    start = wordStart >= 0 && wordStart < (firstMatch?.index ?? 0) ? wordStart + 1 : start;
+  }
+  const end = Math.min(flat.length, start + length);
+
+  const segments: SnippetSegment[] = [];
+  const push = (segmentText: string, match: boolean) => {
+    if (!segmentText) return;
+    const last = segments[segments.length - 1];
+    if (last && last.match === match) last.text += segmentText;
+    else segments.push({ text: segmentText, match });
+  };
+
+  if (start > 0) push('…', false);
+  let cursor = start;
+  for (const word of words) {
+    const wordStart = word.index ?? 0;
+    const wordEnd = wordStart + word[0].length;
+    if (wordEnd <= start || wordStart >= end) continue;
+    if (!matchesTerm(word[0], terms)) continue;
+    push(flat.slice(cursor, Math.max(cursor, wordStart)), false);
+    push(flat.slice(Math.max(cursor, wordStart), Math.min(end, wordEnd)), true);
+    cursor = Math.min(end, wordEnd);
+  }
+  push(flat.slice(cursor, end), false);
+  if (end < flat.length) push('…', false);
+  return segments;
+}
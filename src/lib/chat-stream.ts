@@ -0,0 +1,44 @@
+// src/lib/chat-stream.ts
+// Server-sent event framing shared by /api/chat (writer) and the chatbot page (reader).
+import type { Citation } from '@/lib/citations';
+import type { LlmFinishReason } from '@/lib/llm/types';
+
+export type ChatStreamEvent =
+  | { type: 'meta'; conversationId: string }
+  | { type: 'chunk'; text: string }
+  | { type: 'done'; finishReason?: LlmFinishReason; turnId: string | null; citations: Citation[] }
+  | { type: 'error'; error: string };
+
+const encoder = new TextEncoder();
+
+export function encodeChatStreamEvent(event: ChatStreamEvent): Uint8Array {
+  return encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+// Yields each event as soon as its terminating blank line arrives, so the caller can render partial replies.
+export async function* readChatStreamEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        const dataLine = rawEvent.split('\n').find(line => line.startsWith('data: '));
+        if (dataLine) {
+          yield JSON.parse(dataLine.slice('data: '.length)) as ChatStreamEvent;
+        }
+        boundary = buffer.indexOf('\n\n');
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,92 @@
+// src/lib/citations.test.ts
+import { describe, expect, it } from 'vitest';
+import { extractCitations, pagesCoveredBy, type CitableDocument } from './citations';
+
+const report: CitableDocument = {
+  id: 'doc-report',
+  name: 'report.pdf',
+  unit: 'page',
+  pages: [
+    'Introduction to the annual results.',
+    'Revenue grew by twelve percent in the northern region. Costs stayed flat.',
+    'Headcount rose to four hundred staff across three offices.',
+  ],
+  citablePages: new Set([1, 2, 3]),
+};
+
+const notes: CitableDocument = {
+  id: 'doc-notes',
+  name: 'notes.md',
+  unit: 'section',
+  pages: ['Meeting agenda.', 'The launch moved to October after the supplier delay.'],
+  citablePages: new Set([2]),
+};
+
+describe('extractCitations', () => {
+  it('keeps citations to pages the model was shown, with the passage that supports the claim', () => {
+    expect(extractCitations('Revenue in the northern region grew by twelve percent [report.pdf, p. 2].', [report])).toEqual([
+      {
+        documentId: 'doc-report',
+        documentName: 'report.pdf',
+        unit: 'page',
+        page: 2,
+        quote: 'Revenue grew by twelve percent in the northern region.',
+      },
+    ]);
+  });
+
+  it('drops pages that were not shown or do not exist', () => {
+    const shown = { ...report, citablePages: new Set([2]) };
+    expect(extractCitations('Headcount rose [report.pdf, p. 3]. Something else [report.pdf, p. 9]. Zero [report.pdf, p. 0].', [shown])).toEqual([]);
+  });
+
+  it('drops citations to documents the model was not given', () => {
+    expect(extractCitations('Revenue grew [summary.pdf, p. 2].', [report, notes])).toEqual([]);
+  });
+
+  it('matches names without their extension or quotes, in any case', () => {
+    const cited = (text: string) => extractCitations(text, [report, notes]).map(citation => citation.documentId);
+    expect(cited('Revenue grew [Report, p. 2].')).toEqual(['doc-report']);
+    expect(cited('Revenue grew ["report.pdf", p. 2].')).toEqual(['doc-report']);
+    expect(cited('The launch moved [notes.md, section 2].')).toEqual(['doc-notes']);
+  });
+
+  it('only accepts a bare page number when there is one document', () => {
+    expect(extractCitations('Revenue grew [p. 2].', [report])).toHaveLength(1);
+    expect(extractCitations('Revenue grew [p. 2].', [report, notes])).toEqual([]);
+  });
+
+  it('splits lists and ranges of pages into one citation each', () => {
+    const pages = (text: string) => extractCitations(text, [report]).map(citation => citation.page);
+    expect(pages('Results [report.pdf, pp. 2, 3].')).toEqual([2, 3]);
+    expect(pages('Results [report.pdf, pp. 1-2].')).toEqual([1, 2]);
+  });
+
+  it('keeps the document unit, so sections are cited as sections', () => {
+    expect(extractCitations('The launch moved to October [notes.md, section 2].', [notes])[0]).toMatchObject({
+      unit: 'section',
+      page: 2,
+      quote: 'The launch moved to October after the supplier delay.',
+    });
+  });
+
+  it('leaves the quote empty when no sentence on the page shares enough words with the claim', () => {
+    expect(extractCitations('Something unrelated entirely [report.pdf, p. 2].', [report])[0].quote).toBeNull();
+  });
+
+  it('reports the same page and passage once', () => {
+    const text = 'Revenue grew by twelve percent [report.pdf, p. 2]. Again, revenue grew by twelve percent [report.pdf, p. 2].';
+    expect(extractCitations(text, [report])).toHaveLength(1);
+  });
+
+  it('finds nothing in a reply without citations', () => {
+    expect(extractCitations('No sources here [see above].', [report])).toEqual([]);
+  });
+});
+
+describe('pagesCoveredBy', () => {
+  it('collects every page spanned by the excerpts', () => {
+    expect(Array.from(pagesCoveredBy([{ page_start: 2, page_end: 4 }, { page_start: 4, page_end: 4 }, { page_start: 7, page_end: 7 }])).sort())
+      .toEqual([2, 3, 4, 7]);
+  });
+});
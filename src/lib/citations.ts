@@ -0,0 +1,100 @@
+// src/lib/citations.ts
+// Page citations: requested in the prompt as "[Document name, p. N]", then checked against the documents' real pages.
+import { tokenize } from '@/lib/retrieval/bm25';
+import type { DocumentUnit } from '@/lib/extractors/formats';
+
+export type Citation = {
+  documentId: string;
+  documentName: string;
+  unit: DocumentUnit;
+  page: number; // Page number, or section number when unit is 'section'
+  quote: string | null; // Passage on that page that best supports the cited statement, for highlighting
+};
+
+// A document the model was shown, with the pages its excerpts covered.
+export type CitableDocument = {
+  id: string;
+  name: string;
+  unit: DocumentUnit;
+  pages: string[];
+  citablePages: Set<number>;
+};
+
+export const CITATION_INSTRUCTIONS = `After each statement taken from the excerpts, cite the document and page it came from as [Document name, p. N], for example "[report.pdf, p. 12]". For excerpts labelled with a section instead of a page, cite [Document name, section N]. Use the document names and numbers exactly as they appear in the excerpt labels. When several documents are provided, make clear which document each claim comes from.`;
+
+// Matches "[report.pdf, p. 12]", "[report.pdf pp. 3, 5]", "[p. 4-5]", "[notes.md, section 2]" and similar
+const CITATION_PATTERN = /\[(?:([^\[\]]*?)[,;:]?\s+)?(?:pp?|pages?|sections?|sec|§)\.?\s*(\d+(?:\s*[,–-]\s*\d+)*)\]/gi;
+
+const MAX_QUOTE_LENGTH = 300;
+
+const normaliseName = (name: string) => name.replace(/^["'“‘]|["'”’]$/g, '').trim().toLowerCase();
+
+// Matches the name in a citation to one of the documents; a bare "[p. N]" is only unambiguous with a single document.
+function findCitedDocument(citedName: string | undefined, documents: CitableDocument[]): CitableDocument | null {
+  if (!citedName?.trim()) {
+    return documents.length === 1 ? documents[0] : null;
+  }
+  const name = normaliseName(citedName);
+  return documents.find(document => normaliseName(document.name) === name)
+    ?? documents.find(document => normaliseName(document.name).replace(/\.[a-z0-9]+$/, '') === name)
+    ?? null;
+}
+
+function findSupportingPassage(claim: string, pageText: string): string | null {
+  const claimTokens = new Set(tokenize(claim));
+  if (claimTokens.size === 0) return null;
+
+  let bestSentence: string | null = null;
+  let bestOverlap = 1; // Require at least two shared terms before treating a sentence as the source
+  for (const sentence of pageText.replace(/\s+/g, ' ').split(/(?<=[.!?])\s+/)) {
+    const overlap = new Set(tokenize(sentence).filter(token => claimTokens.has(token))).size;
+    if (overlap > bestOverlap) {
+      bestOverlap = overlap;
+      bestSentence = sentence.trim();
+    }
+  }
+  return bestSentence ? bestSentence.slice(0, MAX_QUOTE_LENGTH) : null;
+}
+
+/**
+ * Pulls the page citations out of a reply. Citations to documents or pages the model was never shown (or that don't exist)
+ * are dropped; the rest get the passage on the page that best matches the statement they follow.
+ */
+export function extractCitations(replyText: string, documents: CitableDocument[]): Citation[] {
+  const citations: Citation[] = [];
+  const seen = new Set<string>();
+  let previousEnd = 0;
+
+  for (const match of replyText.matchAll(CITATION_PATTERN)) {
+    const matchStart = match.index ?? 0;
+    // The statement being cited runs from the previous sentence break (or citation) up to the marker
+    const before = replyText.slice(previousEnd, matchStart);
+    const claim = before.split(/(?<=[.!?])\s+|\n/).filter(part => part.trim()).pop() ?? before;
+    previousEnd = matchStart + match[0].length;
+
+    const document = findCitedDocument(match[1], documents);
+    if (!document) continue;
+
+    for (const pageText of match[2].split(/[^\d]+/)) {
+      const page = Number(pageText);
+      if (!document.citablePages.has(page) || page < 1 || page > document.pages.length) continue;
+
+      const quote = findSupportingPassage(claim, document.pages[page - 1]);
+      const key = `${document.id}:${page}:${quote ?? ''}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      citations.push({ documentId: document.id, documentName: document.name, unit: document.unit, page, quote });
+    }
+  }
+
+  return citations;
+}
+
+// Pages covered by the excerpts the model was given; anything else can't be a faithful citation.
+export function pagesCoveredBy(chunks: { page_start: number; page_end: number }[]): Set<number> {
+  const pages = new Set<number>();
+  for (const chunk of chunks) {
+    for (let page = chunk.page_start; page <= chunk.page_end; page++) pages.add(page);
+  }
+  return pages;
+}
@@ -0,0 +1,109 @@
+// src/lib/conversation-memory.ts
+// Rebuilds earlier turns of a conversation from chat_messages into model history.
+import { estimateTokens, type LlmMessage, type LlmProvider } from '@/lib/llm';
+import type { createSupabaseServerClient } from '@/lib/supabase/server';
+import { loadBranchTurns, type ConversationTree } from '@/lib/chat-branches';
+
+// Token budget for replayed turns; override with CHAT_HISTORY_TOKEN_BUDGET.
+export const HISTORY_TOKEN_BUDGET = Number(process.env.CHAT_HISTORY_TOKEN_BUDGET) || 8000;
+
+// How many stored turns are considered at all (anything older is ignored, not summarised).
+const MAX_TURNS_LOADED = 100;
+
+// Older turns fed to the summariser are capped too, so summarising can't blow the budget itself.
+const MAX_SUMMARY_SOURCE_CHARS = 40000;
+
+type StoredTurn = {
+  id: string;
+  user_query: string;
+  bot_response: string | null;
+};
+
+function turnToMessages(turn: StoredTurn): LlmMessage[] {
+  return [
+    { role: 'user', text: turn.user_query },
+    { role: 'model', text: turn.bot_response ?? '' },
+  ];
+}
+
+async function summariseTurns(turns: StoredTurn[], llm: LlmProvider): Promise<string | null> {
+  let transcript = turns
+    .map(turn => `User: ${turn.user_query}\nAssistant: ${turn.bot_response}`)
+    .join('\n\n');
+  if (transcript.length > MAX_SUMMARY_SOURCE_CHARS) {
+    // Keep the most recent part of the overflow; it's the most relevant to the follow-up.
+    transcript = transcript.slice(transcript.length - MAX_SUMMARY_SOURCE_CHARS);
+  }
+
+  try {
+    const result = await llm.generate({ prompt: `
+      Summarise the following earlier part of a conversation between a user and an assistant.
+      Keep names, numbers, document details and any open questions the user may refer back to.
+      Reply with the summary only, in at most 200 words.
+
+      Conversation:
+      ---
+      ${transcript}
+      ---
+    ` });
+    return result.text.trim() || null;
+  } catch (error) {
+    // A failed summary only costs context; the chat itself should carry on.
+    console.warn('Conversation memory: failed to summarise older turns.', error);
+    return null;
+  }
+}
+
+/**
+ * Loads the turns on the branch ending at `parentTurnId` (the turn being answered follows it) and returns them as
+ * alternating user/model history, newest turns verbatim up to `tokenBudget` and everything older folded into a summary.
+ */
+export async function buildConversationHistory(
+  supabase: ReturnType<typeof createSupabaseServerClient>,
+  llm: LlmProvider,
+  tree: ConversationTree,
+  parentTurnId: string | null,
+  tokenBudget: number = HISTORY_TOKEN_BUDGET,
+): Promise<LlmMessage[]> {
+  let rows: StoredTurn[];
+  try {
+    rows = (await loadBranchTurns<StoredTurn>(supabase, tree, parentTurnId, 'id, user_query, bot_response', MAX_TURNS_LOADED)).reverse();
+  } catch (error) {
+    console.error('Conversation memory: failed to load previous turns.', error);
+    return [];
+  }
+
+  // Failed or empty exchanges would only confuse the model.
+  const turns = rows.filter(
+    turn => turn.bot_response && !turn.bot_response.startsWith('SYSTEM ERROR:')
+  );
+
+  const keptTurns: StoredTurn[] = [];
+  let usedTokens = 0;
+  let cutoff = turns.length;
+  for (let i = 0; i < turns.length; i++) {
+    const turnTokens = estimateTokens(turns[i].user_query) + estimateTokens(turns[i].bot_response ?? '');
+    if (usedTokens + turnTokens > tokenBudget) {
+      cutoff = i;
+      break;
+    }
+    usedTokens += turnTokens;
+    keptTurns.push(turns[i]);
+  }
+
+  const history = keptTurns.reverse().flatMap(turnToMessages);
+  const olderTurns = turns.slice(cutoff).reverse();
+  if (olderTurns.length === 0) {
+    return history;
+  }
+
+  const summary = await summariseTurns(olderTurns, llm);
+  if (!summary) {
+    return history;
+  }
+  return [
+    { role: 'user', text: `Summary of our earlier conversation:\n${summary}` },
+    { role: 'model', text: 'Understood. I will keep that earlier context in mind.' },
+    ...history,
+  ];
+}
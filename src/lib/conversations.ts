@@ -0,0 +1,132 @@
+// src/lib/conversations.ts
+// Server-side helpers for the `conversations` table (one row per chat thread).
+import type { ChatSettings, LlmProvider } from '@/lib/llm';
+import type { createSupabaseServerClient } from '@/lib/supabase/server';
+
+type SupabaseServerClient = ReturnType<typeof createSupabaseServerClient>;
+
+export type Conversation = {
+  id: string;
+  title: string | null;
+  // Embedded through `conversation_documents` so the sidebar can show (and re-attach) the thread's documents.
+  documents: { id: string; name: string }[];
+  settings: ChatSettings | null; // Model and generation settings; null uses the persona's or the server defaults
+  persona_id: string | null; // null: the built-in default persona
+  current_message_id: string | null; // Leaf turn of the branch being shown; null: the newest turn
+  created_at: string;
+  updated_at: string;
+};
+
+export const CONVERSATION_COLUMNS = 'id, title, settings, persona_id, current_message_id, created_at, updated_at, documents(id, name)';
+
+// How many documents a single conversation can chat over at once.
+export const MAX_CONVERSATION_DOCUMENTS = Number(process.env.MAX_CONVERSATION_DOCUMENTS) || 5;
+
+const MAX_TITLE_LENGTH = 80;
+
+export function normaliseTitle(title: unknown): string | null {
+  if (typeof title !== 'string') return null;
+  const trimmed = title.replace(/\s+/g, ' ').trim();
+  return trimmed ? trimmed.slice(0, MAX_TITLE_LENGTH) : null;
+}
+
+/**
+ * Returns the user's conversation with `conversationId`, or creates a fresh untitled one when no id is given.
+ * Resolves to null when the id doesn't exist or belongs to someone else.
+ */
+export async function resolveConversation(
+  supabase: SupabaseServerClient,
+  userId: string,
+  conversationId: unknown,
+): Promise<Conversation | null> {
+  if (conversationId !== undefined && conversationId !== null) {
+    if (typeof conversationId !== 'string') return null;
+    const { data, error } = await supabase
+      .from('conversations')
+      .select(CONVERSATION_COLUMNS)
+      .eq('id', conversationId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) {
+      console.error('Error loading conversation:', error);
+      return null;
+    }
+    // Without generated DB types the embedded `documents` can't be inferred
+    return data as unknown as Conversation | null;
+  }
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .insert({ user_id: userId })
+    .select(CONVERSATION_COLUMNS)
+    .single();
+  if (error) {
+    console.error('Error creating conversation:', error);
+    return null;
+  }
+  return data as unknown as Conversation;
+}
+
+// Bumps updated_at so the sidebar lists the most recently used thread first.
+export async function touchConversation(
+  supabase: SupabaseServerClient,
+  conversationId: string,
+  changes: { title?: string; settings?: ChatSettings; persona_id?: string | null; current_message_id?: string } = {},
+) {
+  const { error } = await supabase
+    .from('conversations')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', conversationId);
+  if (error) {
+    console.error('Error updating conversation:', error);
+  }
+}
+
+// Replaces the set of documents attached to a conversation.
+export async function setConversationDocuments(
+  supabase: SupabaseServerClient,
+  userId: string,
+  conversationId: string,
+  documentIds: string[],
+) {
+  let removal = supabase
+    .from('conversation_documents')
+    .delete()
+    .eq('conversation_id', conversationId);
+  if (documentIds.length > 0) {
+    removal = removal.not('document_id', 'in', `(${documentIds.join(',')})`);
+  }
+  const { error: deleteError } = await removal;
+  if (deleteError) {
+    console.error('Error detaching conversation documents:', deleteError);
+  }
+
+  if (documentIds.length === 0) return;
+  const { error: upsertError } = await supabase
+    .from('conversation_documents')
+    .upsert(
+      documentIds.map(documentId => ({ conversation_id: conversationId, document_id: documentId, user_id: userId })),
+      { onConflict: 'conversation_id,document_id', ignoreDuplicates: true },
+    );
+  if (upsertError) {
+    console.error('Error attaching conversation documents:', upsertError);
+  }
+}
+
+// Asks the model for a short title summarising the first exchange; falls back to the question itself.
+export async function generateConversationTitle(llm: LlmProvider, query: string, reply: string): Promise<string> {
+  const fallback = normaliseTitle(query) ?? 'New chat';
+  try {
+    const result = await llm.generate({ prompt: `
+      Write a short title (at most 6 words) for a conversation that starts with the exchange below.
+      Reply with the title only, without quotes or trailing punctuation.
+
+      User: ${query.slice(0, 1000)}
+      Assistant: ${reply.slice(0, 1000)}
+    ` });
+    return normaliseTitle(result.text.replace(/^["']|["']$/g, '')) ?? fallback;
+  } catch (error) {
+    console.warn('Failed to generate conversation title:', error);
+    return fallback;
+  }
+}
@@ -0,0 +1,93 @@
+// src/lib/data-deletion.ts
+// Deleting chat data is a soft delete: the database functions in the README stamp `deleted_at`, which hides the rows
+// from the user straight away (the select policies skip them). A scheduled job purges them for good once the
+// retention window has passed, along with the stored files of deleted documents.
+// Token and cost figures are copied to `turn_usage` when a turn is saved, and the purge leaves that table alone so
+// the usage report still counts purged turns.
+import type { createSupabaseAdminClient } from '@/lib/supabase/admin';
+import { DOCUMENTS_BUCKET } from '@/lib/documents';
+
+type SupabaseAdminClient = ReturnType<typeof createSupabaseAdminClient>;
+
+// How long deleted data is kept before the purge job removes it; override with DATA_RETENTION_DAYS.
+export const DATA_RETENTION_DAYS = Number(process.env.DATA_RETENTION_DAYS) || 30;
+
+const PURGE_BATCH_SIZE = 100;
+
+export type PurgeResult = {
+  cutoff: string;
+  purged: { chatMessages: number; conversations: number; documents: number; files: number };
+};
+
+// Storage paths are derived from the file hash, so a file uploaded again after deleting it reuses the path of the
+// deleted document. Those files belong to the live document and are kept.
+async function purgeDocuments(admin: SupabaseAdminClient, cutoff: string): Promise<{ documents: number; files: number }> {
+  let documents = 0;
+  let files = 0;
+  for (;;) {
+    const { data, error } = await admin
+      .from('documents')
+      .select('id, storage_path')
+      .lt('deleted_at', cutoff)
+      .limit(PURGE_BATCH_SIZE);
+    if (error) {
+      throw new Error('Failed to load deleted documents. ' + error.message);
+    }
+    const batch = data as { id: string; storage_path: string }[];
+    if (batch.length === 0) break;
+
+    const paths = Array.from(new Set(batch.map(document => document.storage_path)));
+    const { data: live, error: liveError } = await admin
+      .from('documents')
+      .select('storage_path')
+      .in('storage_path', paths)
+      .is('deleted_at', null);
+    if (liveError) {
+      throw new Error('Failed to check stored files in use. ' + liveError.message);
+    }
+    const livePaths = new Set((live as { storage_path: string }[]).map(document => document.storage_path));
+    const unusedPaths = paths.filter(path => !livePaths.has(path));
+    if (unusedPaths.length > 0) {
+      const { error: storageError } = await admin.storage.from(DOCUMENTS_BUCKET).remove(unusedPaths);
+      if (storageError) {
+        throw new Error('Failed to remove stored files. ' + storageError.message);
+      }
+    }
+
+    // Chunks and conversation links go with the documents via ON DELETE CASCADE
+    const { error: deleteError } = await admin.from('documents').delete().in('id', batch.map(document => document.id));
+    if (deleteError) {
+      throw new Error('Failed to purge deleted documents. ' + deleteError.message);
+    }
+    documents += batch.length;
+    files += unusedPaths.length;
+  }
+  return { documents, files };
+}
+
+/**
+ * Permanently removes everything deleted more than DATA_RETENTION_DAYS ago. Needs the service-role client: the
+ * rows belong to every user, and the select policies hide deleted rows even from their owners.
+ */
+export async function purgeDeletedData(admin: SupabaseAdminClient, now = new Date()): Promise<PurgeResult> {
+  const cutoff = new Date(now.getTime() - DATA_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const { count: chatMessages, error: messagesError } = await admin
+    .from('chat_messages')
+    .delete({ count: 'exact' })
+    .lt('deleted_at', cutoff);
+  if (messagesError) {
+    throw new Error('Failed to purge deleted messages. ' + messagesError.message);
+  }
+
+  const { count: conversations, error: conversationsError } = await admin
+    .from('conversations')
+    .delete({ count: 'exact' })
+    .lt('deleted_at', cutoff);
+  if (conversationsError) {
+    throw new Error('Failed to purge deleted conversations. ' + conversationsError.message);
+  }
+
+  const { documents, files } = await purgeDocuments(admin, cutoff);
+  return { cutoff, purged: { chatMessages: chatMessages ?? 0, conversations: conversations ?? 0, documents, files } };
+}
@@ -0,0 +1,87 @@
+// src/lib/documents.ts
+// Server-side helpers for uploaded documents: the `documents` table plus the original file in Supabase Storage.
+import type { createSupabaseServerClient } from '@/lib/supabase/server';
+import { detectExtractor, extractInWorker, type DocumentMetadata } from '@/lib/extractors';
+import { accessibleDocumentsFilter } from '@/lib/workspaces';
+
+type SupabaseServerClient = ReturnType<typeof createSupabaseServerClient>;
+
+// Private bucket holding original uploads under `<user_id>/<sha256>`.
+export const DOCUMENTS_BUCKET = process.env.SUPABASE_DOCUMENTS_BUCKET || 'documents';
+
+// Everything except the extracted text, which can be tens of thousands of characters.
+export const DOCUMENT_SUMMARY_COLUMNS = 'id, name, mime_type, size_bytes, page_count, file_hash, metadata, workspace_id, created_at';
+
+export type DocumentSummary = {
+  id: string;
+  name: string;
+  mime_type: string;
+  size_bytes: number;
+  page_count: number; // Pages for PDFs, sections for other formats
+  file_hash: string;
+  metadata: DocumentMetadata | null;
+  workspace_id: string | null; // Set for documents in a workspace library
+  created_at: string;
+};
+
+export type StoredDocument = {
+  id: string;
+  name: string;
+  mime_type: string;
+  storage_path: string;
+};
+
+export function documentStoragePath(userId: string, fileHash: string): string {
+  return `${userId}/${fileHash}`;
+}
+
+// Loads a document the user can use: from their own library or from one of their workspaces'. Resolves to null otherwise.
+export async function loadDocument(
+  supabase: SupabaseServerClient,
+  userId: string,
+  documentId: string,
+): Promise<StoredDocument | null> {
+  const { data, error } = await supabase
+    .from('documents')
+    .select('id, name, mime_type, storage_path')
+    .eq('id', documentId)
+    .or(await accessibleDocumentsFilter(supabase, userId))
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error loading document:', error);
+    return null;
+  }
+  return data as StoredDocument | null;
+}
+
+// Per-page (or per-section) text, pages[0] being number 1. Documents stored before pages were kept are re-extracted once from the original file.
+export async function loadDocumentPages(supabase: SupabaseServerClient, document: StoredDocument): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('documents')
+    .select('pages')
+    .eq('id', document.id)
+    .single();
+  if (error) {
+    throw new Error('Failed to load document pages. ' + error.message);
+  }
+  if (Array.isArray(data.pages)) {
+    return data.pages as string[];
+  }
+
+  const { data: file, error: storageError } = await supabase.storage.from(DOCUMENTS_BUCKET).download(document.storage_path);
+  if (storageError || !file) {
+    throw new Error('Failed to load the original document. ' + (storageError?.message ?? ''));
+  }
+  const fileBuffer = Buffer.from(await file.arrayBuffer());
+  const extractor = detectExtractor(fileBuffer, document.mime_type, document.name);
+  if (!extractor) {
+    throw new Error(`Failed to load the original document. Unsupported file type: ${document.mime_type}`);
+  }
+  const { pages } = await extractInWorker(fileBuffer, extractor.format);
+  const { error: updateError } = await supabase.from('documents').update({ pages }).eq('id', document.id);
+  if (updateError) {
+    console.error('Error saving document pages:', updateError);
+  }
+  return pages;
+}
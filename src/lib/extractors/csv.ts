@@ -0,0 +1,78 @@
+// src/lib/extractors/csv.ts
+import type { DocumentExtractor } from './types';
+import { decodeTextOrThrow } from './text';
+
+// Each section repeats the header row so an excerpt still says what its columns are.
+const ROWS_PER_SECTION = 50;
+
+// Splits CSV text into records, keeping quoted fields that contain delimiters or line breaks intact.
+function splitRecords(csv: string): string[] {
+  const records: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (const char of csv) {
+    if (char === '"') inQuotes = !inQuotes; // An escaped quote ("") toggles twice
+    if (char === '\n' && !inQuotes) {
+      if (current.trim()) records.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  if (current.trim()) records.push(current);
+  return records;
+}
+
+function splitFields(record: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < record.length; i++) {
+    const char = record[i];
+    if (char === '"') {
+      if (inQuotes && record[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        inQuotes = !inQuotes;
+      }
+    } else if (char === delimiter && !inQuotes) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+// Comma unless the header clearly uses semicolons or tabs (common in spreadsheet exports)
+function detectDelimiter(header: string): string {
+  const counts = [',', ';', '\t'].map(delimiter => ({ delimiter, count: splitFields(header, delimiter).length }));
+  return counts.reduce((best, candidate) => candidate.count > best.count ? candidate : best).delimiter;
+}
+
+export const csvExtractor: DocumentExtractor = {
+  format: 'csv',
+  async extract(buffer) {
+    const [header, ...rows] = splitRecords(decodeTextOrThrow(buffer));
+    if (header === undefined) {
+      return { pages: [], text: '', pageCount: 0, metadata: { format: 'csv', title: null, columns: [], rowCount: 0 } };
+    }
+
+    const sections: string[] = [];
+    for (let i = 0; i < rows.length || i === 0; i += ROWS_PER_SECTION) {
+      sections.push([header, ...rows.slice(i, i + ROWS_PER_SECTION)].join('\n'));
+    }
+
+    return {
+      pages: sections,
+      text: [header, ...rows].join('\n'),
+      pageCount: sections.length,
+      metadata: { format: 'csv', title: null, columns: splitFields(header, detectDelimiter(header)), rowCount: rows.length },
+    };
+  },
+};
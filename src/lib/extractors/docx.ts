@@ -0,0 +1,20 @@
+// src/lib/extractors/docx.ts
+import mammoth from 'mammoth';
+import type { DocumentExtractor } from './types';
+import { joinSections } from './sections';
+import { htmlToSections } from './html';
+
+// A .docx file is a ZIP archive whose entries live under word/
+const ZIP_SIGNATURE = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+export const docxExtractor: DocumentExtractor = {
+  format: 'docx',
+  sniff: buffer => buffer.subarray(0, 4).equals(ZIP_SIGNATURE) && buffer.includes('word/'),
+  async extract(buffer) {
+    // Converting via HTML keeps Word headings, so sections follow the document's own structure
+    const { value: html } = await mammoth.convertToHtml({ buffer });
+    const { sections } = htmlToSections(html);
+    const title = html.match(/<h1[^>]*>([\s\S]*?)<\/h1>/i)?.[1].replace(/<[^>]+>/g, '').trim() || null;
+    return { ...joinSections(sections), metadata: { format: 'docx', title } };
+  },
+};
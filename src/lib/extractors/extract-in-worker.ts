@@ -0,0 +1,51 @@
+// src/lib/extractors/extract-in-worker.ts
+import { Worker } from 'worker_threads';
+import type { DocumentFormat } from './formats';
+import { PARSER_MAX_HEAP_MB, UPLOAD_LIMITS, UploadRejectedError, type UploadLimits } from './limits';
+import type { ExtractedDocument } from './types';
+import type { ExtractWorkerInput, ExtractWorkerResult } from './extract-worker';
+
+/**
+ * Extracts a document in a worker thread with a time and memory ceiling, so a malicious or pathological file
+ * can't block or crash the server process. Rejects with an UploadRejectedError when a limit is hit.
+ */
+export function extractInWorker(
+  buffer: Buffer,
+  format: DocumentFormat,
+  limits: UploadLimits = UPLOAD_LIMITS,
+): Promise<ExtractedDocument> {
+  const input: ExtractWorkerInput = { buffer, format, limits };
+  const worker = new Worker(new URL('./extract-worker.ts', import.meta.url), {
+    workerData: input,
+    resourceLimits: { maxOldGenerationSizeMb: PARSER_MAX_HEAP_MB },
+  });
+
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => {
+      reject(new UploadRejectedError('PARSE_TIMEOUT', `The document took longer than ${Math.round(limits.parseTimeoutMs / 1000)} seconds to parse.`));
+      void worker.terminate();
+    }, limits.parseTimeoutMs);
+
+    // Whichever event comes first settles the promise; later ones are no-ops
+    worker.once('message', (result: ExtractWorkerResult) => {
+      clearTimeout(timeout);
+      if (result.ok) {
+        resolve(result.document);
+      } else {
+        reject(new UploadRejectedError(result.code, result.message));
+      }
+      void worker.terminate();
+    });
+    worker.once('error', (error: Error & { code?: string }) => {
+      clearTimeout(timeout);
+      console.error('Document parser worker failed:', error);
+      reject(error.code === 'ERR_WORKER_OUT_OF_MEMORY'
+        ? new UploadRejectedError('INVALID_FILE', 'The document needs too much memory to parse.')
+        : error);
+    });
+    worker.once('exit', exitCode => {
+      clearTimeout(timeout);
+      reject(new Error(`Document parser exited unexpectedly (code ${exitCode}).`));
+    });
+  });
+}
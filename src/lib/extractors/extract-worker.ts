@@ -0,0 +1,41 @@
+// src/lib/extractors/extract-worker.ts
+// Worker thread entry: parses one upload off the main thread and checks the extracted text against the limits.
+import { parentPort, workerData } from 'worker_threads';
+import { DOCUMENT_FORMATS, type DocumentFormat } from './formats';
+import type { UploadErrorCode, UploadLimits } from './limits';
+import type { ExtractedDocument } from './types';
+import { getExtractor } from './index';
+
+export type ExtractWorkerInput = {
+  buffer: Uint8Array;
+  format: DocumentFormat;
+  limits: UploadLimits;
+};
+
+export type ExtractWorkerResult =
+  | { ok: true; document: ExtractedDocument }
+  | { ok: false; code: UploadErrorCode; message: string };
+
+async function extract({ buffer, format, limits }: ExtractWorkerInput): Promise<ExtractWorkerResult> {
+  let document: ExtractedDocument;
+  try {
+    document = await getExtractor(format).extract(Buffer.from(buffer), { maxPages: limits.maxPages });
+  } catch (error: unknown) {
+    console.error(`Error extracting ${format} document:`, error);
+    return { ok: false, code: 'INVALID_FILE', message: `Invalid or corrupted ${DOCUMENT_FORMATS[format].label} file.` };
+  }
+
+  if (format === 'pdf' && document.pageCount > limits.maxPages) {
+    return { ok: false, code: 'TOO_MANY_PAGES', message: `The document has ${document.pageCount} pages; the limit is ${limits.maxPages}.` };
+  }
+  if (document.text.length > limits.maxChars) {
+    return {
+      ok: false,
+      code: 'TEXT_TOO_LONG',
+      message: `The document contains more than ${limits.maxChars.toLocaleString('en-US')} characters of text.`,
+    };
+  }
+  return { ok: true, document };
+}
+
+extract(workerData as ExtractWorkerInput).then(result => parentPort?.postMessage(result));
@@ -0,0 +1,111 @@
+// src/lib/extractors/extractors.test.ts
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { getExtractor } from './index';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url));
+
+describe('text extractor', () => {
+  it('splits at blank lines and has no title', async () => {
+    const result = await getExtractor('text').extract(fixture('notes.txt'));
+    expect(result.pages).toEqual(['Meeting notes\n\nThe budget was approved.\nSpending starts in May.\n\nNext meeting: 12 June.']);
+    expect(result.text).toBe(result.pages.join('\n\n'));
+    expect(result.pageCount).toBe(1);
+    expect(result.metadata).toEqual({ format: 'text', title: null });
+  });
+
+  it('strips a byte order mark and normalises line endings', async () => {
+    const result = await getExtractor('text').extract(Buffer.from('﻿one\r\ntwo\r\n'));
+    expect(result.text).toBe('one\ntwo');
+  });
+
+  it('rejects content that is not UTF-8', async () => {
+    await expect(getExtractor('text').extract(Buffer.from([0xc3, 0x28]))).rejects.toThrow('not UTF-8');
+  });
+
+  it('cuts long text into sections of whole paragraphs', async () => {
+    const paragraph = 'word '.repeat(400).trim();
+    const result = await getExtractor('text').extract(Buffer.from(Array(4).fill(paragraph).join('\n\n')));
+    expect(result.pageCount).toBe(4);
+    expect(result.pages.every(page => page === paragraph)).toBe(true);
+  });
+});
+
+describe('markdown extractor', () => {
+  it('drops front matter and splits at headings outside code fences', async () => {
+    const result = await getExtractor('markdown').extract(fixture('guide.md'));
+    expect(result.pages).toEqual([
+      '# Install guide\n\nDownload the installer.',
+      '## Configure\n\nSet `API_KEY` in the environment.\n\n```bash\n# not a heading\nexport API_KEY=secret\n```',
+      '## Run\n\nStart the server.',
+    ]);
+    expect(result.text).not.toContain('author: Ops');
+    expect(result.pageCount).toBe(3);
+    expect(result.metadata).toEqual({ format: 'markdown', title: 'Install guide' });
+  });
+
+  it('has no title without a level 1 heading', async () => {
+    const result = await getExtractor('markdown').extract(Buffer.from('## Only a subheading\n\nText.'));
+    expect(result.metadata.title).toBeNull();
+  });
+});
+
+describe('html extractor', () => {
+  it('strips scripts, styles and the head, and splits at headings', async () => {
+    const result = await getExtractor('html').extract(fixture('page.html'));
+    expect(result.pages).toEqual([
+      'Refunds\n\nRefunds take 5 days.\n\n- Keep the receipt\n\n- Use the original card',
+      'Returns\n\nItems can be returned within 30 days.',
+    ]);
+    expect(result.text).not.toMatch(/alert|stolen|color: red|Enable JavaScript/);
+    expect(result.metadata).toEqual({ format: 'html', title: 'Refund & returns' });
+  });
+
+  it('decodes numeric entities and drops comments', async () => {
+    const result = await getExtractor('html').extract(Buffer.from('<p>caf&#233; &#x2014; <!-- hidden -->open</p>'));
+    expect(result.text).toBe('café — open');
+    expect(result.metadata.title).toBeNull();
+  });
+});
+
+describe('csv extractor', () => {
+  it('keeps quoted delimiters, escaped quotes and line breaks in fields', async () => {
+    const result = await getExtractor('csv').extract(fixture('orders.csv'));
+    expect(result.text).toBe('id,customer,note\n1,"Smith, Jane","Said ""thanks"""\n2,Bob,"Line one\nline two"');
+    expect(result.pages).toEqual([result.text]);
+    expect(result.metadata).toEqual({ format: 'csv', title: null, columns: ['id', 'customer', 'note'], rowCount: 2 });
+  });
+
+  it('detects semicolon and tab delimiters from the header', async () => {
+    const semicolon = await getExtractor('csv').extract(fixture('orders-semicolon.csv'));
+    expect(semicolon.metadata.columns).toEqual(['id', 'customer', 'total']);
+    expect(semicolon.metadata.rowCount).toBe(2);
+
+    const tab = await getExtractor('csv').extract(fixture('orders-tab.csv'));
+    expect(tab.metadata.columns).toEqual(['id', 'customer', 'total']);
+    expect(tab.metadata.rowCount).toBe(1);
+  });
+
+  it('repeats the header in every section of 50 rows', async () => {
+    const rows = Array.from({ length: 120 }, (_, i) => `${i},row ${i}`);
+    const result = await getExtractor('csv').extract(Buffer.from(['id,name', ...rows].join('\n')));
+    expect(result.pageCount).toBe(3);
+    expect(result.pages.map(page => page.split('\n').length)).toEqual([51, 51, 21]);
+    expect(result.pages.every(page => page.startsWith('id,name\n'))).toBe(true);
+    expect(result.metadata.rowCount).toBe(120);
+  });
+
+  it('returns no sections for an empty file', async () => {
+    const result = await getExtractor('csv').extract(Buffer.from('\n\n'));
+    expect(result).toEqual({ pages: [], text: '', pageCount: 0, metadata: { format: 'csv', title: null, columns: [], rowCount: 0 } });
+  });
+});
+
+describe('docx extractor', () => {
+  it('splits at Word headings and takes the title from the first one', async () => {
+    const result = await getExtractor('docx').extract(fixture('report.docx'));
+    expect(result.pages).toEqual(['Quarterly report\n\nRevenue grew by 4%.', 'Outlook\n\nHiring resumes in spring.']);
+    expect(result.pageCount).toBe(2);
+    expect(result.metadata).toEqual({ format: 'docx', title: 'Quarterly report' });
+  });
+});
@@ -0,0 +1,38 @@
+// src/lib/extractors/formats.ts
+// The upload formats we can extract text from. Kept free of parser imports so the browser can use it too.
+
+export type DocumentFormat = 'pdf' | 'docx' | 'html' | 'markdown' | 'csv' | 'text';
+
+export type DocumentFormatInfo = {
+  label: string;
+  mimeType: string; // Stored on the document and used when serving the original file
+  mimeTypes: string[]; // Declared types that select this format
+  extensions: string[];
+};
+
+export const DOCUMENT_FORMATS: Record<DocumentFormat, DocumentFormatInfo> = {
+  pdf: { label: 'PDF', mimeType: 'application/pdf', mimeTypes: ['application/pdf'], extensions: ['.pdf'] },
+  docx: {
+    label: 'Word (.docx)',
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+    extensions: ['.docx'],
+  },
+  html: { label: 'HTML', mimeType: 'text/html', mimeTypes: ['text/html', 'application/xhtml+xml'], extensions: ['.html', '.htm', '.xhtml'] },
+  markdown: { label: 'Markdown', mimeType: 'text/markdown', mimeTypes: ['text/markdown', 'text/x-markdown'], extensions: ['.md', '.markdown'] },
+  // Windows browsers report .csv files as application/vnd.ms-excel
+  csv: { label: 'CSV', mimeType: 'text/csv', mimeTypes: ['text/csv', 'application/csv', 'application/vnd.ms-excel'], extensions: ['.csv'] },
+  text: { label: 'text', mimeType: 'text/plain', mimeTypes: ['text/plain'], extensions: ['.txt', '.text', '.log'] },
+};
+
+// Value for the file input's `accept` attribute.
+export const ACCEPTED_UPLOAD_TYPES = Object.values(DOCUMENT_FORMATS).flatMap(format => format.extensions).join(',');
+
+export const SUPPORTED_FORMATS_DESCRIPTION = 'PDF, Word (.docx), text, Markdown, HTML or CSV';
+
+// PDFs are split into pages; every other format into sections (headings, paragraph groups or row groups).
+export type DocumentUnit = 'page' | 'section';
+
+export function documentUnit(mimeType: string): DocumentUnit {
+  return mimeType === DOCUMENT_FORMATS.pdf.mimeType ? 'page' : 'section';
+}
@@ -0,0 +1,68 @@
+// src/lib/extractors/html.ts
+import type { DocumentExtractor } from './types';
+import { joinSections, splitIntoSections } from './sections';
+import { decodeTextOrThrow } from './text';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  ndash: '–', mdash: '—', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+  copy: '©', reg: '®', trade: '™', middot: '·', bull: '•', euro: '€', pound: '£',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const codePoint = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(codePoint) && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+const BLOCK_END = /<\/(?:p|div|section|article|header|footer|aside|nav|main|blockquote|pre|dt|dd|tr|table|ul|ol|dl|h[1-6]|figure|figcaption)\s*>/gi;
+
+// Plain text of an HTML fragment, keeping block structure as line breaks.
+function htmlFragmentToText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<li(?:\s[^>]*)?>/gi, '\n- ')
+      .replace(/<\/li\s*>/gi, '\n')
+      .replace(/<\/t[dh]\s*>/gi, '\t')
+      .replace(BLOCK_END, '\n\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+export function looksLikeHtml(text: string): boolean {
+  return /^\s*(?:<!--[\s\S]*?-->\s*)*<(?:!doctype\s+html|html[\s>])/i.test(text);
+}
+
+/** Converts an HTML document to sections split at its h1-h3 headings. Also used for Word documents. */
+export function htmlToSections(html: string): { sections: string[]; title: string | null } {
+  const rawTitle = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  const body = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|svg|head)[\s>][\s\S]*?<\/\1\s*>/gi, '');
+
+  const sections = body
+    .split(/(?=<h[1-3][\s>])/i)
+    .map(htmlFragmentToText)
+    .flatMap(section => splitIntoSections(section));
+
+  const title = rawTitle ? htmlFragmentToText(rawTitle) : null;
+  return { sections, title: title || null };
+}
+
+export const htmlExtractor: DocumentExtractor = {
+  format: 'html',
+  async extract(buffer) {
+    const { sections, title } = htmlToSections(decodeTextOrThrow(buffer));
+    return { ...joinSections(sections), metadata: { format: 'html', title } };
+  },
+};
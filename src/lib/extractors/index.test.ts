@@ -0,0 +1,67 @@
+// src/lib/extractors/index.test.ts
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { detectExtractor } from './index';
+
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/${name}`, import.meta.url));
+const detect = (buffer: Buffer, declaredType: string, fileName: string) => detectExtractor(buffer, declaredType, fileName)?.format ?? null;
+
+const PDF_HEADER = Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1');
+
+describe('detectExtractor', () => {
+  describe('binary signatures', () => {
+    it('recognises a PDF whatever the upload claims to be', () => {
+      expect(detect(PDF_HEADER, 'application/pdf', 'report.pdf')).toBe('pdf');
+      expect(detect(PDF_HEADER, 'text/plain', 'notes.txt')).toBe('pdf');
+      expect(detect(Buffer.concat([Buffer.from('junk\n'), PDF_HEADER]), '', 'upload')).toBe('pdf');
+    });
+
+    it('recognises a Word document whatever the upload claims to be', () => {
+      expect(detect(fixture('report.docx'), '', 'report.docx')).toBe('docx');
+      expect(detect(fixture('report.docx'), 'text/csv', 'report.csv')).toBe('docx');
+    });
+
+    it('rejects other ZIP archives and binary files', () => {
+      const zip = Buffer.concat([Buffer.from([0x50, 0x4b, 0x03, 0x04]), Buffer.from('xl/workbook.xml\u0000')]);
+      expect(detect(zip, 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'sheet.docx')).toBeNull();
+      expect(detect(Buffer.from([0xff, 0xd8, 0xff, 0xe0]), 'text/plain', 'photo.txt')).toBeNull();
+      expect(detect(Buffer.from('a\u0000b'), 'text/plain', 'notes.txt')).toBeNull();
+    });
+  });
+
+  describe('text formats', () => {
+    it('picks the format from the extension', () => {
+      expect(detect(fixture('notes.txt'), '', 'notes.txt')).toBe('text');
+      expect(detect(fixture('guide.md'), '', 'guide.MD')).toBe('markdown');
+      expect(detect(fixture('page.html'), '', 'page.htm')).toBe('html');
+      expect(detect(fixture('orders.csv'), '', 'orders.csv')).toBe('csv');
+    });
+
+    it('prefers the extension to the declared type', () => {
+      expect(detect(fixture('orders.csv'), 'application/vnd.ms-excel', 'orders.csv')).toBe('csv');
+      expect(detect(fixture('guide.md'), 'text/plain', 'guide.md')).toBe('markdown');
+      expect(detect(fixture('page.html'), 'text/markdown', 'page.txt')).toBe('text');
+    });
+
+    it('prefers HTML content to the declared type when the extension says nothing', () => {
+      expect(detect(fixture('page.html'), 'text/plain', 'page')).toBe('html');
+      expect(detect(fixture('page.html'), 'text/csv', 'download.bin')).toBe('html');
+    });
+
+    it('falls back to the declared type, ignoring parameters and case', () => {
+      expect(detect(fixture('orders.csv'), 'Text/CSV; charset=utf-8', 'export')).toBe('csv');
+      expect(detect(fixture('orders.csv'), 'application/vnd.ms-excel', 'export')).toBe('csv');
+      expect(detect(fixture('guide.md'), 'text/x-markdown', 'README')).toBe('markdown');
+    });
+
+    it('reads text with a generic or unknown text type as plain text', () => {
+      expect(detect(fixture('guide.md'), '', 'README')).toBe('text');
+      expect(detect(fixture('notes.txt'), 'application/octet-stream', 'notes.bin')).toBe('text');
+      expect(detect(fixture('notes.txt'), 'text/x-log', 'server')).toBe('text');
+    });
+
+    it('rejects text declared as an unsupported type', () => {
+      expect(detect(fixture('notes.txt'), 'application/json', 'data.json')).toBeNull();
+    });
+  });
+});
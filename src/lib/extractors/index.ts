@@ -0,0 +1,48 @@
+// src/lib/extractors/index.ts
+// Extractor registry: picks the extractor for an upload from its leading bytes, declared MIME type and file name.
+import { DOCUMENT_FORMATS, type DocumentFormat } from './formats';
+import type { DocumentExtractor } from './types';
+import { pdfExtractor } from './pdf';
+import { docxExtractor } from './docx';
+import { htmlExtractor, looksLikeHtml } from './html';
+import { markdownExtractor } from './markdown';
+import { csvExtractor } from './csv';
+import { decodeText, textExtractor } from './text';
+
+export * from './formats';
+export * from './limits';
+export type { DocumentExtractor, DocumentMetadata, ExtractOptions, ExtractedDocument } from './types';
+export { extractInWorker } from './extract-in-worker';
+
+// Binary formats first: their signatures are checked before anything the upload claims to be.
+const EXTRACTORS: DocumentExtractor[] = [pdfExtractor, docxExtractor, htmlExtractor, markdownExtractor, csvExtractor, textExtractor];
+
+// Declared types that say nothing about the format, so a text upload with one of them is read as plain text.
+const GENERIC_MIME_TYPES = ['', 'text/plain', 'application/octet-stream'];
+
+export function getExtractor(format: DocumentFormat): DocumentExtractor {
+  return EXTRACTORS.find(extractor => extractor.format === format)!;
+}
+
+/**
+ * Chooses the extractor for an upload, or resolves to null when the format isn't supported.
+ * Binary formats are recognised by signature; text is matched by extension, then content, then declared MIME type.
+ */
+export function detectExtractor(buffer: Buffer, declaredType: string, fileName: string): DocumentExtractor | null {
+  const sniffed = EXTRACTORS.find(extractor => extractor.sniff?.(buffer));
+  if (sniffed) return sniffed;
+
+  const text = decodeText(buffer);
+  if (text === null) return null; // Binary, and not a format we know
+
+  const mimeType = declaredType.split(';')[0].trim().toLowerCase();
+  const extension = fileName.toLowerCase().match(/\.[a-z0-9]+$/)?.[0] ?? '';
+  const textExtractors = EXTRACTORS.filter(extractor => !extractor.sniff);
+  const findTextExtractor = (matches: (format: DocumentFormat) => boolean) =>
+    textExtractors.find(extractor => matches(extractor.format)) ?? null;
+
+  return findTextExtractor(format => DOCUMENT_FORMATS[format].extensions.includes(extension))
+    ?? (looksLikeHtml(text) ? htmlExtractor : null)
+    ?? findTextExtractor(format => DOCUMENT_FORMATS[format].mimeTypes.includes(mimeType))
+    ?? (GENERIC_MIME_TYPES.includes(mimeType) || mimeType.startsWith('text/') ? textExtractor : null);
+}
@@ -0,0 +1,50 @@
+// src/lib/extractors/limits.ts
+// Upload limits. Each one has its own error code so clients can tell the user which limit they hit.
+
+export type UploadLimits = {
+  maxBytes: number;
+  maxPages: number; // PDFs only; other formats are bounded by maxChars
+  maxChars: number; // Extracted text
+  parseTimeoutMs: number;
+};
+
+export const UPLOAD_LIMITS: UploadLimits = {
+  maxBytes: Number(process.env.UPLOAD_MAX_BYTES) || 20 * 1024 * 1024,
+  maxPages: Number(process.env.UPLOAD_MAX_PAGES) || 500,
+  maxChars: Number(process.env.UPLOAD_MAX_CHARS) || 2_000_000,
+  parseTimeoutMs: Number(process.env.UPLOAD_PARSE_TIMEOUT_MS) || 30_000,
+};
+
+// Heap ceiling for the parser worker, so a hostile file can't exhaust the server's memory either.
+export const PARSER_MAX_HEAP_MB = Number(process.env.UPLOAD_PARSER_MAX_HEAP_MB) || 512;
+
+export type UploadErrorCode =
+  | 'FILE_TOO_LARGE'
+  | 'TOO_MANY_PAGES'
+  | 'TEXT_TOO_LONG'
+  | 'PARSE_TIMEOUT'
+  | 'UNSUPPORTED_FILE_TYPE'
+  | 'INVALID_FILE';
+
+export const UPLOAD_ERROR_STATUS: Record<UploadErrorCode, number> = {
+  FILE_TOO_LARGE: 413,
+  TOO_MANY_PAGES: 413,
+  TEXT_TOO_LONG: 413,
+  PARSE_TIMEOUT: 422,
+  UNSUPPORTED_FILE_TYPE: 415,
+  INVALID_FILE: 400,
+};
+
+// Thrown (and passed back from the parser worker) when an upload is refused.
+export class UploadRejectedError extends Error {
+  constructor(public readonly code: UploadErrorCode, message: string) {
+    super(message);
+    this.name = 'UploadRejectedError';
+  }
+}
+
+const formatMegabytes = (bytes: number) => `${Math.round(bytes / (1024 * 1024) * 10) / 10} MB`;
+
+export function fileTooLargeError(limits: UploadLimits = UPLOAD_LIMITS): UploadRejectedError {
+  return new UploadRejectedError('FILE_TOO_LARGE', `The file is larger than the ${formatMegabytes(limits.maxBytes)} upload limit.`);
+}
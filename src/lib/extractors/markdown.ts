@@ -0,0 +1,34 @@
+// src/lib/extractors/markdown.ts
+import type { DocumentExtractor } from './types';
+import { joinSections, splitIntoSections } from './sections';
+import { decodeTextOrThrow } from './text';
+
+const HEADING_PATTERN = /^#{1,3}\s+\S/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+// Starts a new section at each level 1-3 heading outside code fences. The Markdown itself is kept; the model reads it fine.
+function splitAtHeadings(markdown: string): string[] {
+  const sections: string[] = [];
+  let current: string[] = [];
+  let inFence = false;
+
+  for (const line of markdown.split('\n')) {
+    if (FENCE_PATTERN.test(line)) inFence = !inFence;
+    if (!inFence && HEADING_PATTERN.test(line) && current.some(l => l.trim())) {
+      sections.push(current.join('\n'));
+      current = [];
+    }
+    current.push(line);
+  }
+  sections.push(current.join('\n'));
+  return sections.flatMap(section => splitIntoSections(section));
+}
+
+export const markdownExtractor: DocumentExtractor = {
+  format: 'markdown',
+  async extract(buffer) {
+    const markdown = decodeTextOrThrow(buffer).replace(/^---\n[\s\S]*?\n---\n/, ''); // Drop YAML front matter
+    const title = markdown.match(/^#\s+(.+)$/m)?.[1].replace(/#+\s*$/, '').trim() ?? null;
+    return { ...joinSections(splitAtHeadings(markdown)), metadata: { format: 'markdown', title } };
+  },
+};
@@ -0,0 +1,37 @@
+// src/lib/extractors/sections.ts
+// Splitting helpers shared by the formats that have no pages of their own.
+
+// Roughly two chunks' worth, so a section citation still points at a readable span.
+export const MAX_SECTION_LENGTH = 3000;
+
+/** Splits text into sections of whole paragraphs, each at most `maxLength` characters where possible. */
+export function splitIntoSections(text: string, maxLength: number = MAX_SECTION_LENGTH): string[] {
+  const sections: string[] = [];
+  let current = '';
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const trimmed = paragraph.trim();
+    if (!trimmed) continue;
+    if (current && current.length + trimmed.length + 2 > maxLength) {
+      sections.push(current);
+      current = '';
+    }
+    // A single oversized paragraph is cut at line breaks (or hard) rather than kept whole
+    let remaining = trimmed;
+    while (remaining.length > maxLength) {
+      const cut = remaining.lastIndexOf('\n', maxLength);
+      const end = cut > maxLength / 2 ? cut : maxLength;
+      sections.push(remaining.slice(0, end).trim());
+      remaining = remaining.slice(end).trim();
+    }
+    current = current ? `${current}\n\n${remaining}` : remaining;
+  }
+
+  if (current) sections.push(current);
+  return sections;
+}
+
+// Combines the sections into the document text and page count of an ExtractedDocument.
+export function joinSections(sections: string[]): { pages: string[]; text: string; pageCount: number } {
+  return { pages: sections, text: sections.join('\n\n'), pageCount: sections.length };
+}
@@ -0,0 +1,32 @@
+// src/lib/extractors/text.ts
+import type { DocumentExtractor } from './types';
+import { joinSections, splitIntoSections } from './sections';
+
+const utf8Decoder = new TextDecoder('utf-8', { fatal: true });
+
+/** Decodes a UTF-8 text upload, or resolves to null for anything binary (invalid UTF-8 or NUL bytes). */
+export function decodeText(buffer: Buffer): string | null {
+  try {
+    const text = utf8Decoder.decode(buffer);
+    if (text.includes('\u0000')) return null;
+    return text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  } catch {
+    return null;
+  }
+}
+
+export function decodeTextOrThrow(buffer: Buffer): string {
+  const text = decodeText(buffer);
+  if (text === null) {
+    throw new Error('Invalid text file: the content is not UTF-8 text.');
+  }
+  return text;
+}
+
+export const textExtractor: DocumentExtractor = {
+  format: 'text',
+  async extract(buffer) {
+    const sections = splitIntoSections(decodeTextOrThrow(buffer));
+    return { ...joinSections(sections), metadata: { format: 'text', title: null } };
+  },
+};
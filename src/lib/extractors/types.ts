@@ -0,0 +1,29 @@
+// src/lib/extractors/types.ts
+import type { DocumentFormat } from './formats';
+
+// Stored on documents.metadata.
+export type DocumentMetadata = {
+  format: DocumentFormat;
+  title: string | null;
+  columns?: string[]; // CSV only
+  rowCount?: number; // CSV only, excluding the header
+};
+
+// The normalised shape every extractor produces.
+export type ExtractedDocument = {
+  pages: string[]; // Pages for PDFs, sections for everything else; pages[0] is number 1
+  text: string;
+  pageCount: number;
+  metadata: DocumentMetadata;
+};
+
+export type ExtractOptions = {
+  maxPages?: number; // Paginated formats stop rendering after this many pages; pageCount still reports the total
+};
+
+export interface DocumentExtractor {
+  format: DocumentFormat;
+  // Binary formats are recognised from their leading bytes, whatever type or name the upload claims
+  sniff?: (buffer: Buffer) => boolean;
+  extract: (buffer: Buffer, options?: ExtractOptions) => Promise<ExtractedDocument>;
+}
@@ -0,0 +1,183 @@
+// src/lib/feedback.ts
+// Thumbs-up / thumbs-down ratings on answers, stored against the turn in `chat_feedback`, and the admin review of
+// negatively rated exchanges. Each turn also records the persona and model settings that produced it
+// (`chat_messages.generation`) so a bad answer can be traced back to its prompt.
+import type { createSupabaseServerClient } from '@/lib/supabase/server';
+import type { createSupabaseAdminClient } from '@/lib/supabase/admin';
+import type { ChatSettings } from '@/lib/llm/settings';
+import type { RetrievalRecord } from '@/lib/retrieval';
+
+type SupabaseServerClient = ReturnType<typeof createSupabaseServerClient>;
+type SupabaseAdminClient = ReturnType<typeof createSupabaseAdminClient>;
+
+export type FeedbackRating = 'up' | 'down';
+
+export type FeedbackReason = 'wrong' | 'not_in_document' | 'unsafe' | 'too_long';
+
+export const FEEDBACK_REASONS: FeedbackReason[] = ['wrong', 'not_in_document', 'unsafe', 'too_long'];
+
+export const FEEDBACK_REASON_LABELS: Record<FeedbackReason, string> = {
+  wrong: 'Wrong',
+  not_in_document: 'Not in document',
+  unsafe: 'Unsafe',
+  too_long: 'Too long',
+};
+
+export const MAX_FEEDBACK_COMMENT_LENGTH = 2000;
+
+export const isFeedbackReason = (value: unknown): value is FeedbackReason => FEEDBACK_REASONS.includes(value as FeedbackReason);
+
+export type TurnFeedback = {
+  rating: FeedbackRating;
+  reasons: FeedbackReason[]; // Only given with a thumbs-down
+  comment: string | null;
+};
+
+export const FEEDBACK_COLUMNS = 'rating, reasons, comment';
+
+// What produced an answer, saved on the turn when it is generated. Turns from before this was kept have none.
+export type GenerationRecord = {
+  settings: ChatSettings;
+  persona: { id: string; name: string; systemInstruction: string };
+};
+
+export function validateFeedbackInput(body: unknown): { feedback: TurnFeedback } | { error: string } {
+  if (typeof body !== 'object' || body === null) {
+    return { error: 'Request body must be a JSON object.' };
+  }
+  const { rating, reasons = [], comment = null } = body as Record<string, unknown>;
+  if (rating !== 'up' && rating !== 'down') {
+    return { error: 'rating must be "up" or "down".' };
+  }
+  if (!Array.isArray(reasons) || !reasons.every(isFeedbackReason)) {
+    return { error: `reasons must be a list of: ${FEEDBACK_REASONS.join(', ')}.` };
+  }
+  if (rating === 'up' && reasons.length > 0) {
+    return { error: 'Reasons can only be given with a thumbs-down.' };
+  }
+  if (comment !== null && typeof comment !== 'string') {
+    return { error: 'comment must be a string or null.' };
+  }
+  const trimmed = typeof comment === 'string' ? comment.trim() || null : null;
+  if (trimmed && trimmed.length > MAX_FEEDBACK_COMMENT_LENGTH) {
+    return { error: `comment must be at most ${MAX_FEEDBACK_COMMENT_LENGTH} characters.` };
+  }
+  return { feedback: { rating, reasons: Array.from(new Set(reasons)), comment: trimmed } };
+}
+
+/** The user's feedback on each of the turns that has some, keyed by turn id. */
+export async function loadTurnFeedback(supabase: SupabaseServerClient, turnIds: string[]): Promise<Map<string, TurnFeedback>> {
+  const feedback = new Map<string, TurnFeedback>();
+  if (turnIds.length === 0) return feedback;
+  const { data, error } = await supabase
+    .from('chat_feedback')
+    .select(`chat_message_id, ${FEEDBACK_COLUMNS}`)
+    .in('chat_message_id', turnIds);
+  if (error) {
+    throw new Error('Failed to load feedback. ' + error.message);
+  }
+  for (const { chat_message_id, ...rest } of data as (TurnFeedback & { chat_message_id: string })[]) {
+    feedback.set(chat_message_id, rest);
+  }
+  return feedback;
+}
+
+export const REVIEW_PAGE_SIZE = 20;
+
+export type FeedbackReviewItem = {
+  turnId: string;
+  ratedAt: string;
+  reasons: FeedbackReason[];
+  comment: string | null;
+  askedAt: string;
+  userQuery: string;
+  botResponse: string | null;
+  pdfContextUsed: boolean;
+  documents: { id: string; name: string }[];
+  generation: GenerationRecord | null;
+  retrievalStrategy: RetrievalRecord['strategy'] | null;
+  citationCount: number;
+};
+
+export type FeedbackReview = {
+  items: FeedbackReviewItem[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+type ReviewRow = {
+  chat_message_id: string;
+  reasons: FeedbackReason[];
+  comment: string | null;
+  updated_at: string;
+  chat_messages: {
+    created_at: string;
+    user_query: string;
+    bot_response: string | null;
+    pdf_context_used: boolean;
+    document_ids: string[] | null;
+    generation: GenerationRecord | null;
+    retrieval: RetrievalRecord | null;
+    citations: unknown[] | null;
+  };
+};
+
+/**
+ * Thumbs-down exchanges across all users, most recently rated first, optionally only those tagged with `reason`.
+ * Deleted turns are left out. Reads through the service-role client: callers must have checked for an admin.
+ */
+export async function listNegativeFeedback(
+  admin: SupabaseAdminClient,
+  { reason, page }: { reason: FeedbackReason | null; page: number },
+): Promise<FeedbackReview> {
+  const from = (page - 1) * REVIEW_PAGE_SIZE;
+  let query = admin
+    .from('chat_feedback')
+    .select(
+      'chat_message_id, reasons, comment, updated_at, chat_messages!inner(created_at, user_query, bot_response, pdf_context_used, document_ids, generation, retrieval, citations)',
+      { count: 'exact' },
+    )
+    .eq('rating', 'down')
+    .is('chat_messages.deleted_at', null);
+  if (reason) {
+    query = query.contains('reasons', [reason]);
+  }
+  const { data, count, error } = await query
+    .order('updated_at', { ascending: false })
+    .range(from, from + REVIEW_PAGE_SIZE - 1);
+  if (error) {
+    throw new Error('Failed to load feedback for review. ' + error.message);
+  }
+  const rows = data as unknown as ReviewRow[];
+
+  const documentIds = Array.from(new Set(rows.flatMap(row => row.chat_messages.document_ids ?? [])));
+  const documentNames = new Map<string, string>();
+  if (documentIds.length > 0) {
+    const { data: documents, error: documentsError } = await admin.from('documents').select('id, name').in('id', documentIds);
+    if (documentsError) {
+      throw new Error('Failed to load document names. ' + documentsError.message);
+    }
+    for (const document of documents as { id: string; name: string }[]) documentNames.set(document.id, document.name);
+  }
+
+  return {
+    items: rows.map(({ chat_message_id, reasons, comment, updated_at, chat_messages: turn }) => ({
+      turnId: chat_message_id,
+      ratedAt: updated_at,
+      reasons,
+      comment,
+      askedAt: turn.created_at,
+      userQuery: turn.user_query,
+      botResponse: turn.bot_response,
+      pdfContextUsed: turn.pdf_context_used,
+      documents: (turn.document_ids ?? []).map(id => ({ id, name: documentNames.get(id) ?? 'Deleted document' })),
+      generation: turn.generation,
+      retrievalStrategy: turn.retrieval?.strategy ?? null,
+      citationCount: turn.citations?.length ?? 0,
+    })),
+    total: count ?? rows.length,
+    page,
+    pageSize: REVIEW_PAGE_SIZE,
+  };
+}
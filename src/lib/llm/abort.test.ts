@@ -0,0 +1,39 @@
+// src/lib/llm/abort.test.ts
+import { describe, expect, it } from 'vitest';
+import { untilAborted } from './abort';
+
+async function* numbers(count: number) {
+  for (let i = 1; i <= count; i++) yield i;
+}
+
+async function collect<T>(source: AsyncIterable<T>): Promise<T[]> {
+  const values: T[] = [];
+  for await (const value of source) values.push(value);
+  return values;
+}
+
+describe('untilAborted', () => {
+  it('passes everything through without a signal, or one that never fires', async () => {
+    expect(await collect(untilAborted(numbers(3)))).toEqual([1, 2, 3]);
+    expect(await collect(untilAborted(numbers(3), new AbortController().signal))).toEqual([1, 2, 3]);
+  });
+
+  it('yields nothing once the signal has already fired', async () => {
+    expect(await collect(untilAborted(numbers(3), AbortSignal.abort()))).toEqual([]);
+  });
+
+  it('stops without waiting for a chunk that never arrives', async () => {
+    const controller = new AbortController();
+    async function* stalls() {
+      yield 'first';
+      await new Promise(() => {});
+    }
+
+    const values: string[] = [];
+    for await (const value of untilAborted(stalls(), controller.signal)) {
+      values.push(value);
+      controller.abort();
+    }
+    expect(values).toEqual(['first']);
+  });
+});
@@ -0,0 +1,28 @@
+// src/lib/llm/abort.ts
+// Stopping a streamed reply when the request's signal fires (the user pressed Stop or went away).
+
+/**
+ * Yields from `source` until `signal` aborts. A chunk still on its way when that happens isn't waited for, and the
+ * source is told to finish so it can release its resources.
+ */
+export async function* untilAborted<T>(source: AsyncIterable<T>, signal?: AbortSignal): AsyncGenerator<T> {
+  if (!signal) {
+    yield* source;
+    return;
+  }
+  const iterator = source[Symbol.asyncIterator]();
+  const aborted = new Promise<null>(resolve => {
+    if (signal.aborted) resolve(null);
+    else signal.addEventListener('abort', () => resolve(null), { once: true });
+  });
+  for (;;) {
+    const next = await Promise.race([iterator.next(), aborted]);
+    if (!next) {
+      // Not awaited: a generator only finishes once the read it is waiting on comes back
+      void iterator.return?.()?.catch(() => undefined);
+      return;
+    }
+    if (next.done) return;
+    yield next.value;
+  }
+}
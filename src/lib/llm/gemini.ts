@@ -0,0 +1,139 @@
+// src/lib/llm/gemini.ts
+import {
+  GoogleGenerativeAI, HarmCategory, HarmBlockThreshold, FinishReason, TaskType,
+  type Content, type GenerateContentResponse, type SafetyRating,
+} from '@google/generative-ai';
+import { untilAborted } from './abort';
+import { generationConfigFor } from './settings';
+import type { LlmProvider, LlmRequest, LlmResult, LlmFinishReason, LlmSafetyRating } from './types';
+
+const safetySettings = [
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_MEDIUM_AND_ABOVE },
+];
+
+const GEMINI_EMBEDDING_MODEL = process.env.GEMINI_EMBEDDING_MODEL || 'text-embedding-004';
+const GEMINI_EMBEDDING_BATCH_SIZE = 100; // API limit per batchEmbedContents call
+
+const FINISH_REASONS: Partial<Record<FinishReason, LlmFinishReason>> = {
+  [FinishReason.STOP]: 'stop',
+  [FinishReason.MAX_TOKENS]: 'max_tokens',
+  [FinishReason.SAFETY]: 'safety',
+  [FinishReason.RECITATION]: 'recitation',
+};
+
+function toContents({ prompt, history = [] }: LlmRequest): Content[] {
+  return [
+    ...history.map(message => ({ role: message.role, parts: [{ text: message.text }] })),
+    { role: 'user', parts: [{ text: prompt }] },
+  ];
+}
+
+// Reads the candidate's text directly: response.text() throws on blocked responses.
+function responseText(response: GenerateContentResponse): string {
+  return response.candidates?.[0]?.content?.parts?.map(part => part.text ?? '').join('') ?? '';
+}
+
+// A response after which nothing more will come: the prompt was rejected or the candidate was cut off.
+function isWithheld(response: GenerateContentResponse): boolean {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  return !!response.promptFeedback?.blockReason
+    || finishReason === FinishReason.SAFETY
+    || finishReason === FinishReason.RECITATION;
+}
+
+const toSafetyRatings = (ratings: SafetyRating[] | undefined): LlmSafetyRating[] =>
+  (ratings ?? []).map(({ category, probability }) => ({ category, probability }));
+
+function toResult(response: GenerateContentResponse | null, text: string): LlmResult {
+  const blockReason = response?.promptFeedback?.blockReason;
+  const candidate = response?.candidates?.[0];
+  const usage = response?.usageMetadata;
+
+  let finishReason: LlmFinishReason = 'stop';
+  let detail: string | null = null;
+  let safetyRatings: LlmSafetyRating[] = [];
+  if (blockReason) {
+    console.warn(`Gemini: Prompt blocked. Reason: ${blockReason}. Ratings:`, response?.promptFeedback?.safetyRatings);
+    finishReason = 'blocked';
+    detail = blockReason;
+    safetyRatings = toSafetyRatings(response?.promptFeedback?.safetyRatings);
+  } else if (candidate?.finishReason) {
+    finishReason = FINISH_REASONS[candidate.finishReason] ?? 'other';
+    detail = candidate.finishReason;
+    if (finishReason !== 'stop') {
+      console.warn(`Gemini: Response generation stopped. Reason: ${candidate.finishReason}. Ratings:`, candidate.safetyRatings);
+      safetyRatings = toSafetyRatings(candidate.safetyRatings);
+    }
+  }
+
+  return {
+    // Withheld candidates may carry partial text; it is never shown
+    text: finishReason === 'blocked' || finishReason === 'safety' || finishReason === 'recitation' ? '' : text,
+    finishReason,
+    detail,
+    safetyRatings,
+    usage: usage
+      ? { promptTokens: usage.promptTokenCount, completionTokens: usage.candidatesTokenCount, totalTokens: usage.totalTokenCount }
+      : null,
+  };
+}
+
+export function createGeminiProvider(apiKey: string, modelName: string): LlmProvider {
+  const genAI = new GoogleGenerativeAI(apiKey);
+  const modelFor = ({ settings, systemInstruction }: LlmRequest) => genAI.getGenerativeModel({
+    model: modelName,
+    systemInstruction,
+    generationConfig: generationConfigFor(settings),
+    safetySettings,
+  });
+  const embeddingModel = genAI.getGenerativeModel({ model: GEMINI_EMBEDDING_MODEL });
+
+  return {
+    name: `gemini:${modelName}`,
+
+    async generate(request) {
+      const { response } = await modelFor(request).generateContent({ contents: toContents(request) });
+      return toResult(response, responseText(response));
+    },
+
+    // This SDK version can't cancel its fetch, so an aborted reply is no longer read but Gemini finishes generating it.
+    async *stream(request) {
+      if (request.signal?.aborted) return;
+      const { stream } = await modelFor(request).generateContentStream({ contents: toContents(request) });
+      let text = '';
+      let lastChunk: GenerateContentResponse | null = null;
+      for await (const chunk of untilAborted(stream, request.signal)) {
+        lastChunk = chunk;
+        if (isWithheld(chunk)) break;
+        const chunkText = responseText(chunk);
+        if (chunkText) {
+          text += chunkText;
+          yield { type: 'text', text: chunkText };
+        }
+      }
+      if (request.signal?.aborted) return;
+      yield { type: 'finish', result: toResult(lastChunk, text) };
+    },
+
+    async countTokens(request) {
+      const { totalTokens } = await modelFor(request).countTokens({ contents: toContents(request) });
+      return totalTokens;
+    },
+
+    async embed(texts, task) {
+      const taskType = task === 'query' ? TaskType.RETRIEVAL_QUERY : TaskType.RETRIEVAL_DOCUMENT;
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += GEMINI_EMBEDDING_BATCH_SIZE) {
+        const batch = texts.slice(i, i + GEMINI_EMBEDDING_BATCH_SIZE);
+        const { embeddings } = await embeddingModel.batchEmbedContents({
+          requests: batch.map(text => ({ content: { role: 'user', parts: [{ text }] }, taskType })),
+        });
+        vectors.push(...embeddings.map(embedding => embedding.values));
+      }
+      return vectors;
+    },
+  };
+}
@@ -0,0 +1,55 @@
+// src/lib/llm/index.ts
+// The model behind chat, titles, memory summaries and embeddings, chosen by LLM_PROVIDER.
+import { readFileSync } from 'node:fs';
+import { createGeminiProvider } from './gemini';
+import { createMockProvider, type MockScript } from './mock';
+import { LLM_MODEL } from './settings';
+import type { LlmProvider } from './types';
+
+export * from './types';
+export { estimateTokens } from './tokens';
+export * from './settings';
+export * from './results';
+
+export const LLM_PROVIDER = process.env.LLM_PROVIDER || 'gemini';
+
+// MOCK_LLM_SCRIPT points at a JSON file shaped like MockScript.
+function loadMockScript(path: string | undefined): MockScript | undefined {
+  if (!path) return undefined;
+  try {
+    return JSON.parse(readFileSync(path, 'utf8')) as MockScript;
+  } catch (error: unknown) {
+    console.error(`Could not read MOCK_LLM_SCRIPT "${path}"; using unscripted mock replies.`, error);
+    return undefined;
+  }
+}
+
+const providers = new Map<string, LlmProvider | null>();
+
+/**
+ * The configured provider for `model` (which callers take from the allow-list in ./settings),
+ * or null when it cannot be used (e.g. a missing API key).
+ */
+export function getLlmProvider(model: string = LLM_MODEL): LlmProvider | null {
+  if (providers.has(model)) return providers.get(model) ?? null;
+
+  let provider: LlmProvider | null;
+  switch (LLM_PROVIDER) {
+    case 'gemini':
+      if (!process.env.GEMINI_API_KEY) {
+        console.error("CRITICAL: Gemini API key is not defined.");
+        provider = null;
+      } else {
+        provider = createGeminiProvider(process.env.GEMINI_API_KEY, model);
+      }
+      break;
+    case 'mock':
+      provider = createMockProvider(loadMockScript(process.env.MOCK_LLM_SCRIPT), model);
+      break;
+    default:
+      console.error(`CRITICAL: Unknown LLM_PROVIDER "${LLM_PROVIDER}". Expected "gemini" or "mock".`);
+      provider = null;
+  }
+  providers.set(model, provider);
+  return provider;
+}
@@ -0,0 +1,119 @@
+// src/lib/llm/mock.test.ts
+import { describe, expect, it } from 'vitest';
+import { createMockProvider } from './mock';
+import type { LlmProvider, LlmRequest, LlmStreamEvent } from './types';
+
+async function collect(provider: LlmProvider, request: LlmRequest): Promise<LlmStreamEvent[]> {
+  const events: LlmStreamEvent[] = [];
+  for await (const event of provider.stream(request)) events.push(event);
+  return events;
+}
+
+const textOf = (events: LlmStreamEvent[]) => events.map(event => event.type === 'text' ? event.text : '').join('');
+
+const LONG_REPLY = 'one two three four five six seven eight nine ten eleven twelve';
+
+describe('createMockProvider', () => {
+  it('derives a reply from the prompt when there is no script', async () => {
+    const provider = createMockProvider();
+    const result = await provider.generate({ prompt: 'Hello there', history: [{ role: 'user', text: 'Hi' }, { role: 'model', text: 'Hey' }] });
+    expect(result).toEqual({
+      text: 'Mock reply to a 3-token prompt after 2 earlier turns.',
+      finishReason: 'stop',
+      detail: null,
+      safetyRatings: [],
+      usage: { promptTokens: 3 + 1 + 1, completionTokens: 14, totalTokens: 19 },
+    });
+    expect(provider.name).toBe('mock:mock');
+  });
+
+  it('streams the same reply in chunks of four words, then finishes', async () => {
+    const provider = createMockProvider({ responses: [{ text: LONG_REPLY }, { text: LONG_REPLY }] });
+    const events = await collect(provider, { prompt: 'Count' });
+    expect(events.filter(event => event.type === 'text')).toHaveLength(3);
+    expect(textOf(events)).toBe(LONG_REPLY);
+    expect(events.at(-1)).toEqual({ type: 'finish', result: await provider.generate({ prompt: 'Count' }) });
+  });
+
+  it('stops streaming once the request is aborted, without a finish event', async () => {
+    const provider = createMockProvider({ responses: [{ text: LONG_REPLY }] });
+    const controller = new AbortController();
+    const events: LlmStreamEvent[] = [];
+    for await (const event of provider.stream({ prompt: 'Count', signal: controller.signal })) {
+      events.push(event);
+      controller.abort();
+    }
+    expect(events).toEqual([{ type: 'text', text: 'one two three four ' }]);
+  });
+
+  describe('directives', () => {
+    it('[mock:blocked] rejects the prompt before generating anything', async () => {
+      const provider = createMockProvider();
+      const request = { prompt: 'Tell me [mock:blocked]' };
+      const result = await provider.generate(request);
+      expect(result).toMatchObject({ text: '', finishReason: 'blocked', detail: 'SAFETY', usage: { completionTokens: 0 } });
+      expect(result.safetyRatings).toEqual([{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'HIGH' }]);
+
+      const events = await collect(provider, request);
+      expect(events).toEqual([{ type: 'finish', result }]);
+    });
+
+    it('[mock:safety] withholds the reply after streaming part of it', async () => {
+      const provider = createMockProvider({ responses: [{ match: 'story', text: LONG_REPLY }] });
+      const request = { prompt: 'A story [MOCK:SAFETY]' };
+      const result = await provider.generate(request);
+      expect(result).toMatchObject({ text: '', finishReason: 'safety', detail: 'SAFETY' });
+      expect(result.safetyRatings).toHaveLength(1);
+      expect(result.usage?.completionTokens).toBeGreaterThan(0); // The withheld text was still generated
+
+      const events = await collect(provider, request);
+      expect(textOf(events)).toBe('one two three four five six ');
+      expect(events.at(-1)).toEqual({ type: 'finish', result });
+    });
+
+    it('[mock:max_tokens] stops the reply part-way', async () => {
+      const provider = createMockProvider({ responses: [{ match: 'count', text: LONG_REPLY }] });
+      const result = await provider.generate({ prompt: 'count [mock:max_tokens]' });
+      expect(result).toMatchObject({ finishReason: 'max_tokens', detail: 'MAX_TOKENS', safetyRatings: [] });
+      expect(LONG_REPLY.startsWith(result.text)).toBe(true);
+      expect(result.text.length).toBeLessThan(LONG_REPLY.length);
+
+      const events = await collect(provider, { prompt: 'count [mock:max_tokens]' });
+      expect(textOf(events)).toBe(result.text);
+    });
+
+    it('stops at the requested output limit without a directive', async () => {
+      const provider = createMockProvider({ responses: [{ match: 'count', text: LONG_REPLY }] });
+      const result = await provider.generate({ prompt: 'count', settings: { maxOutputTokens: 4 } });
+      expect(result.finishReason).toBe('max_tokens');
+      expect(result.text).toBe('one two three ');
+    });
+  });
+
+  describe('scripts', () => {
+    it('uses queued replies once each, in order, then falls back to derived replies', async () => {
+      const provider = createMockProvider({ responses: [{ text: 'First' }, { text: 'Second', finishReason: 'recitation' }] });
+      expect((await provider.generate({ prompt: 'a' })).text).toBe('First');
+      expect(await provider.generate({ prompt: 'b' })).toMatchObject({ text: '', finishReason: 'recitation', detail: 'RECITATION' });
+      expect((await provider.generate({ prompt: 'c' })).text).toMatch(/^Mock reply to a/);
+    });
+
+    it('answers every matching prompt from a rule without using up the queue', async () => {
+      const provider = createMockProvider({ responses: [{ match: 'weather', text: 'Sunny' }, { text: 'Queued' }] });
+      expect((await provider.generate({ prompt: 'What is the weather?' })).text).toBe('Sunny');
+      expect((await provider.generate({ prompt: 'weather again' })).text).toBe('Sunny');
+      expect((await provider.generate({ prompt: 'Something else' })).text).toBe('Queued');
+    });
+
+    it('lets a scripted finish reason override a directive in the prompt', async () => {
+      const provider = createMockProvider({ responses: [{ match: 'weather', text: 'Sunny', finishReason: 'stop' }] });
+      expect(await provider.generate({ prompt: 'weather [mock:blocked]' })).toMatchObject({ text: 'Sunny', finishReason: 'stop' });
+    });
+  });
+
+  it('embeds related texts closer together than unrelated ones', async () => {
+    const [a, b, c] = await createMockProvider().embed(['refund policy for orders', 'orders refund', 'weather in Paris'], 'document');
+    const similarity = (x: number[], y: number[]) => x.reduce((sum, value, i) => sum + value * y[i], 0);
+    expect(similarity(a, b)).toBeGreaterThan(similarity(a, c));
+  });
+});
@@ -0,0 +1,131 @@
+// src/lib/llm/mock.ts
+// Offline, deterministic stand-in for a real model — for local development, demos and tests without an API key.
+// Replies come from a script when one is given; otherwise each reply is derived from the prompt. Prompts can force
+// the failure modes the app has to handle:
+//   [mock:blocked]     the prompt is rejected before anything is generated
+//   [mock:safety]      the reply is cut off for safety part-way through (streams send some text first)
+//   [mock:max_tokens]  the reply stops at the output limit
+import { estimateTokens } from './tokens';
+import type { LlmProvider, LlmRequest, LlmResult, LlmFinishReason } from './types';
+
+export type MockResponse = {
+  match?: string; // Answers every prompt containing this text; the rest are used once each, in order, by any call (titles too)
+  text: string;
+  finishReason?: LlmFinishReason; // Defaults to 'stop'
+};
+
+export type MockScript = {
+  responses: MockResponse[];
+};
+
+const DIRECTIVE_PATTERN = /\[mock:(blocked|safety|max_tokens)\]/i;
+const EMBEDDING_DIMENSIONS = 256;
+const STREAM_CHUNK_WORDS = 4;
+
+// FNV-1a; only needs to be stable across runs.
+function hash(text: string): number {
+  let value = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    value ^= text.charCodeAt(i);
+    value = Math.imul(value, 0x01000193);
+  }
+  return value >>> 0;
+}
+
+// Bag-of-words vector hashed into a fixed number of buckets, so related texts still score as similar.
+function embedText(text: string): number[] {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+    vector[hash(word) % EMBEDDING_DIMENSIONS] += 1;
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm ? vector.map(value => value / norm) : vector;
+}
+
+function promptTokens({ prompt, history = [], systemInstruction = '' }: LlmRequest): number {
+  return estimateTokens(systemInstruction) + estimateTokens(prompt) + history.reduce((sum, message) => sum + estimateTokens(message.text), 0);
+}
+
+// Keeps whole words up to roughly `maxTokens`.
+function truncateToTokens(text: string, maxTokens: number): string {
+  const words = text.split(/(?<=\s)/);
+  let truncated = '';
+  for (const word of words) {
+    if (estimateTokens(truncated + word) > maxTokens) break;
+    truncated += word;
+  }
+  return truncated;
+}
+
+export function createMockProvider(script: MockScript = { responses: [] }, model: string = 'mock'): LlmProvider {
+  const rules = script.responses.filter(response => response.match !== undefined);
+  const queue = script.responses.filter(response => response.match === undefined);
+  let nextInQueue = 0;
+
+  function reply(request: LlmRequest): { text: string; finishReason: LlmFinishReason } {
+    const scripted = rules.find(rule => request.prompt.includes(rule.match!)) ?? queue[nextInQueue];
+    if (scripted && !scripted.match) nextInQueue++;
+
+    const directive = request.prompt.match(DIRECTIVE_PATTERN)?.[1].toLowerCase() as LlmFinishReason | undefined;
+    const text = scripted?.text
+      ?? `Mock reply to a ${estimateTokens(request.prompt)}-token prompt after ${request.history?.length ?? 0} earlier turns.`;
+    let finishReason = scripted?.finishReason ?? directive ?? 'stop';
+
+    const maxOutputTokens = request.settings?.maxOutputTokens;
+    if (finishReason === 'stop' && maxOutputTokens && estimateTokens(text) > maxOutputTokens) {
+      finishReason = 'max_tokens';
+    }
+    if (finishReason === 'max_tokens') {
+      return { text: truncateToTokens(text, maxOutputTokens ?? Math.ceil(estimateTokens(text) / 2)), finishReason };
+    }
+    return { text, finishReason };
+  }
+
+  function toResult(request: LlmRequest, text: string, finishReason: LlmFinishReason): LlmResult {
+    const withheld = finishReason === 'blocked' || finishReason === 'safety' || finishReason === 'recitation';
+    const completionTokens = finishReason === 'blocked' ? 0 : estimateTokens(text);
+    const prompt = promptTokens(request);
+    return {
+      text: withheld ? '' : text,
+      finishReason,
+      // Same reason codes Gemini reports; a blocked prompt is always blocked for safety
+      detail: finishReason === 'stop' ? null : finishReason === 'blocked' ? 'SAFETY' : finishReason.toUpperCase(),
+      safetyRatings: finishReason === 'blocked' || finishReason === 'safety'
+        ? [{ category: 'HARM_CATEGORY_DANGEROUS_CONTENT', probability: 'HIGH' }]
+        : [],
+      usage: { promptTokens: prompt, completionTokens, totalTokens: prompt + completionTokens },
+    };
+  }
+
+  return {
+    name: `mock:${model}`,
+
+    async generate(request) {
+      const { text, finishReason } = reply(request);
+      return toResult(request, text, finishReason);
+    },
+
+    async *stream(request) {
+      const { text, finishReason } = reply(request);
+      if (finishReason !== 'blocked') {
+        const words = text.split(/(?<=\s)/);
+        // A safety cut-off happens part-way through, after some text has already gone out
+        const shownWords = finishReason === 'safety' || finishReason === 'recitation' ? Math.floor(words.length / 2) : words.length;
+        for (let i = 0; i < shownWords; i += STREAM_CHUNK_WORDS) {
+          if (request.signal?.aborted) return;
+          yield { type: 'text', text: words.slice(i, Math.min(i + STREAM_CHUNK_WORDS, shownWords)).join('') };
+        }
+      }
+      if (request.signal?.aborted) return;
+      yield { type: 'finish', result: toResult(request, text, finishReason) };
+    },
+
+    async countTokens(request) {
+      return promptTokens(request);
+    },
+
+    async embed(texts) {
+      return texts.map(embedText);
+    },
+  };
+}
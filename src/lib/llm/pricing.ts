@@ -0,0 +1,51 @@
+// src/lib/llm/pricing.ts
+// Per-model token prices, used to put a cost on every stored turn. The defaults are list prices for prompts up to
+// 128k tokens. LLM_PRICES (JSON, USD per million tokens) overrides them or adds models, e.g.
+// {"gemini-1.5-flash-latest": {"input": 0.075, "output": 0.3}}. Turns on a model without a price get no cost.
+
+export type ModelPrice = {
+  input: number; // USD per million prompt tokens
+  output: number; // USD per million output tokens
+};
+
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'gemini-1.5-flash-latest': { input: 0.075, output: 0.3 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro-latest': { input: 1.25, output: 5 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-pro': { input: 0.5, output: 1.5 },
+  mock: { input: 0, output: 0 },
+};
+
+const isPrice = (value: unknown): value is ModelPrice =>
+  typeof value === 'object' && value !== null
+  && [(value as ModelPrice).input, (value as ModelPrice).output].every(n => typeof n === 'number' && Number.isFinite(n) && n >= 0);
+
+function loadPriceOverrides(raw: string | undefined): Record<string, ModelPrice> {
+  if (!raw) return {};
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) throw new Error('expected an object of models');
+    const prices: Record<string, ModelPrice> = {};
+    for (const [model, price] of Object.entries(parsed)) {
+      if (isPrice(price)) {
+        prices[model] = { input: price.input, output: price.output };
+      } else {
+        console.error(`LLM_PRICES: ignoring "${model}"; expected { "input": number, "output": number }.`);
+      }
+    }
+    return prices;
+  } catch (error: unknown) {
+    console.error('Could not read LLM_PRICES; using the default prices.', error);
+    return {};
+  }
+}
+
+export const MODEL_PRICES: Record<string, ModelPrice> = { ...DEFAULT_PRICES, ...loadPriceOverrides(process.env.LLM_PRICES) };
+
+/** Cost in USD (to a millionth of a dollar) of a call to `model`, or null when it has no price. */
+export function tokenCost(model: string, promptTokens: number, outputTokens: number): number | null {
+  const price = MODEL_PRICES[model];
+  if (!price) return null;
+  return Math.round(promptTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
@@ -0,0 +1,52 @@
+// src/lib/llm/results.test.ts
+import { describe, expect, it, vi } from 'vitest';
+import { createMockProvider } from './mock';
+import { describeEmptyResponse, isWithheld } from './results';
+import type { LlmResult } from './types';
+
+const generate = (prompt: string) => createMockProvider().generate({ prompt });
+
+const result = (overrides: Partial<LlmResult>): LlmResult =>
+  ({ text: '', finishReason: 'stop', detail: null, safetyRatings: [], usage: null, ...overrides });
+
+describe('isWithheld', () => {
+  it('is true for blocked prompts and withheld replies only', async () => {
+    expect(isWithheld(await generate('[mock:blocked]'))).toBe(true);
+    expect(isWithheld(await generate('[mock:safety]'))).toBe(true);
+    expect(isWithheld(result({ finishReason: 'recitation' }))).toBe(true);
+    expect(isWithheld(await generate('[mock:max_tokens]'))).toBe(false);
+    expect(isWithheld(await generate('hello'))).toBe(false);
+    expect(isWithheld(result({ finishReason: 'other' }))).toBe(false);
+  });
+});
+
+describe('describeEmptyResponse', () => {
+  it('asks the user to rephrase a prompt blocked for safety', async () => {
+    expect(describeEmptyResponse(await generate('[mock:blocked]')))
+      .toEqual({ message: 'Your query was blocked due to safety concerns. Please rephrase.', status: 400 });
+  });
+
+  it('gives the reason for a prompt blocked for anything else', () => {
+    expect(describeEmptyResponse(result({ finishReason: 'blocked', detail: 'PROHIBITED_CONTENT' })))
+      .toEqual({ message: 'There was an issue with the prompt. Reason: PROHIBITED_CONTENT.', status: 400 });
+  });
+
+  it('reports a reply withheld for safety', async () => {
+    expect(describeEmptyResponse(await generate('[mock:safety]')))
+      .toEqual({ message: 'The generated response was blocked due to safety concerns. Please try a different query.', status: 400 });
+  });
+
+  it('reports incomplete replies with the reason code', async () => {
+    expect(describeEmptyResponse(await generate('[mock:max_tokens]')).message).toBe('Response generation incomplete. Reason: MAX_TOKENS. Try a shorter query or PDF.');
+    expect(describeEmptyResponse(result({ finishReason: 'recitation', detail: 'RECITATION' })).status).toBe(400);
+    expect(describeEmptyResponse(result({ finishReason: 'other', detail: 'OTHER' })).status).toBe(400);
+  });
+
+  it('treats an empty reply that finished normally, or no reply at all, as a server error', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(describeEmptyResponse(result({}))).toEqual({ message: 'I received an empty response from the AI. Could you try rephrasing?', status: 500 });
+    expect(describeEmptyResponse(null).status).toBe(500);
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
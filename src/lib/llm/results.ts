@@ -0,0 +1,28 @@
+// src/lib/llm/results.ts
+// How the chat route treats a finished reply, whichever provider produced it.
+import type { LlmResult } from './types';
+
+// Replies withheld by the provider: partial text from these is discarded rather than shown or saved.
+export function isWithheld({ finishReason }: LlmResult): boolean {
+  return finishReason === 'blocked' || finishReason === 'safety' || finishReason === 'recitation';
+}
+
+// Maps an empty or blocked reply to a user-facing message and status code.
+// Shared by the JSON and streaming paths so both report safety blocks the same way.
+export function describeEmptyResponse(result: LlmResult | null): { message: string; status: number } {
+  switch (result?.finishReason) {
+    case 'blocked':
+      return result.detail === 'SAFETY'
+        ? { message: "Your query was blocked due to safety concerns. Please rephrase.", status: 400 }
+        : { message: `There was an issue with the prompt. Reason: ${result.detail}.`, status: 400 };
+    case 'safety':
+      return { message: "The generated response was blocked due to safety concerns. Please try a different query.", status: 400 };
+    case 'max_tokens':
+    case 'recitation':
+    case 'other':
+      return { message: `Response generation incomplete. Reason: ${result.detail}. Try a shorter query or PDF.`, status: 400 };
+    default:
+      console.warn("LLM returned an empty text response. Result:", JSON.stringify(result, null, 2));
+      return { message: "I received an empty response from the AI. Could you try rephrasing?", status: 500 }; // Potentially an internal AI error
+  }
+}
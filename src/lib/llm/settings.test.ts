@@ -0,0 +1,27 @@
+// src/lib/llm/settings.test.ts
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GENERATION_SETTINGS, generationConfigFor, validateChatSettings } from './settings';
+
+describe('generationConfigFor', () => {
+  it('sends the defaults, topK 1 included, when nothing is changed', () => {
+    expect(generationConfigFor()).toEqual(DEFAULT_GENERATION_SETTINGS);
+    expect(generationConfigFor({ temperature: 0.7, topP: 1, maxOutputTokens: 512 })).toEqual({ ...DEFAULT_GENERATION_SETTINGS, maxOutputTokens: 512 });
+  });
+
+  it('leaves topK out once temperature or top-p is changed, so they take effect', () => {
+    expect(generationConfigFor({ temperature: 1.2, topP: 1, maxOutputTokens: 2048 })).toEqual({ temperature: 1.2, topP: 1, maxOutputTokens: 2048 });
+    expect(generationConfigFor({ temperature: 0.7, topP: 0.9 })).not.toHaveProperty('topK');
+  });
+
+  it('keeps a topK the caller sets', () => {
+    expect(generationConfigFor({ temperature: 1.2, topK: 40 })).toMatchObject({ temperature: 1.2, topK: 40 });
+  });
+});
+
+describe('validateChatSettings', () => {
+  it('fills in defaults and refuses values out of bounds', () => {
+    expect(validateChatSettings({ temperature: 1.5 })).toMatchObject({ settings: { temperature: 1.5, topP: DEFAULT_GENERATION_SETTINGS.topP } });
+    expect(validateChatSettings({ topP: 2 })).toEqual({ error: 'settings.topP must be a number between 0 and 1.' });
+    expect(validateChatSettings({ maxOutputTokens: 100.5 })).toEqual({ error: 'settings.maxOutputTokens must be an integer between 64 and 8192.' });
+  });
+});
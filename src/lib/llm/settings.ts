@@ -0,0 +1,127 @@
+// src/lib/llm/settings.ts
+// Per-conversation model choice and generation settings, checked against a server-side allow-list and bounds.
+// Kept free of SDK imports: the chat page bundles it through src/lib/personas.ts.
+import type { LlmGenerationSettings } from './types';
+
+export const DEFAULT_GENERATION_SETTINGS: LlmGenerationSettings = {
+  temperature: 0.7,
+  topK: 1,
+  topP: 1,
+  maxOutputTokens: 2048, // For gemini-pro, up to 8192 for gemini-1.5-flash
+};
+
+/**
+ * The generation config sent to the model. Default settings keep the original topK of 1, but topK 1 picks the most
+ * likely token every time, so it is left out (the model's own default applies) once temperature or top-p is changed.
+ */
+export function generationConfigFor(settings: Partial<LlmGenerationSettings> = {}): Partial<LlmGenerationSettings> {
+  const config: Partial<LlmGenerationSettings> = { ...DEFAULT_GENERATION_SETTINGS, ...settings };
+  const samplingChanged = config.temperature !== DEFAULT_GENERATION_SETTINGS.temperature || config.topP !== DEFAULT_GENERATION_SETTINGS.topP;
+  if (samplingChanged && settings.topK === undefined) {
+    delete config.topK;
+  }
+  return config;
+}
+
+export type ChatSettings = {
+  model: string;
+  temperature: number;
+  maxOutputTokens: number;
+  topP: number;
+};
+
+export type ChatModelOption = {
+  id: string;
+  label: string;
+};
+
+type NumericSetting = Exclude<keyof ChatSettings, 'model'>;
+
+export type ChatSettingBounds = Record<NumericSetting, { min: number; max: number; step: number }>;
+
+// What the settings panel needs to render its controls.
+export type ChatSettingsOptions = {
+  models: ChatModelOption[];
+  bounds: ChatSettingBounds;
+  defaults: ChatSettings;
+};
+
+export const CHAT_SETTING_BOUNDS: ChatSettingBounds = {
+  temperature: { min: 0, max: 2, step: 0.1 },
+  maxOutputTokens: { min: 64, max: 8192, step: 64 }, // 8192 is the Gemini 1.5 output ceiling
+  topP: { min: 0, max: 1, step: 0.05 },
+};
+
+const MODEL_LABELS: Record<string, string> = {
+  'gemini-1.5-flash-latest': 'Gemini 1.5 Flash (fast)',
+  'gemini-1.5-pro-latest': 'Gemini 1.5 Pro (deep analysis)',
+  mock: 'Mock (offline)',
+};
+
+const DEFAULT_MODELS: Record<string, string[]> = {
+  gemini: ['gemini-1.5-flash-latest', 'gemini-1.5-pro-latest'],
+  mock: ['mock'],
+};
+
+const LLM_PROVIDER = process.env.LLM_PROVIDER || 'gemini';
+export const LLM_MODEL = process.env.LLM_MODEL || (LLM_PROVIDER === 'mock' ? 'mock' : 'gemini-1.5-flash-latest');
+
+// LLM_MODELS is a comma-separated allow-list; the default model is always on it.
+export const CHAT_MODELS: ChatModelOption[] = Array.from(new Set([
+  LLM_MODEL,
+  ...(process.env.LLM_MODELS?.split(',').map(model => model.trim()).filter(Boolean) ?? DEFAULT_MODELS[LLM_PROVIDER] ?? []),
+])).map(id => ({ id, label: MODEL_LABELS[id] ?? id }));
+
+export const DEFAULT_CHAT_SETTINGS: ChatSettings = {
+  model: LLM_MODEL,
+  temperature: DEFAULT_GENERATION_SETTINGS.temperature,
+  maxOutputTokens: DEFAULT_GENERATION_SETTINGS.maxOutputTokens,
+  topP: DEFAULT_GENERATION_SETTINGS.topP,
+};
+
+export function getChatSettingsOptions(): ChatSettingsOptions {
+  return { models: CHAT_MODELS, bounds: CHAT_SETTING_BOUNDS, defaults: DEFAULT_CHAT_SETTINGS };
+}
+
+/**
+ * Checks user-supplied settings; fields left out keep their defaults.
+ * Returns an error message naming the first invalid field instead of clamping, so the user sees what was refused.
+ */
+export function validateChatSettings(input: unknown): { settings: ChatSettings } | { error: string } {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { error: 'settings must be an object.' };
+  }
+  const values = input as Record<string, unknown>;
+  const settings: ChatSettings = { ...DEFAULT_CHAT_SETTINGS };
+
+  if (values.model !== undefined) {
+    if (typeof values.model !== 'string' || !CHAT_MODELS.some(model => model.id === values.model)) {
+      return { error: `settings.model must be one of: ${CHAT_MODELS.map(model => model.id).join(', ')}.` };
+    }
+    settings.model = values.model;
+  }
+
+  for (const key of Object.keys(CHAT_SETTING_BOUNDS) as NumericSetting[]) {
+    const value = values[key];
+    if (value === undefined) continue;
+    const { min, max } = CHAT_SETTING_BOUNDS[key];
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max
+        || (key === 'maxOutputTokens' && !Number.isInteger(value))) {
+      return { error: `settings.${key} must be a${key === 'maxOutputTokens' ? 'n integer' : ' number'} between ${min} and ${max}.` };
+    }
+    settings[key] = value;
+  }
+
+  return { settings };
+}
+
+// Settings saved on a conversation may predate a change to the allow-list or bounds; those fall back to the defaults.
+export function resolveStoredChatSettings(stored: unknown): ChatSettings {
+  if (stored === null || stored === undefined) return DEFAULT_CHAT_SETTINGS;
+  const result = validateChatSettings(stored);
+  if ('error' in result) {
+    console.warn(`Stored chat settings are no longer valid (${result.error}); using the defaults.`);
+    return DEFAULT_CHAT_SETTINGS;
+  }
+  return result.settings;
+}
@@ -0,0 +1,6 @@
+// src/lib/llm/tokens.ts
+
+// Rough heuristic (~4 characters per token) — avoids a countTokens round-trip per request.
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
@@ -0,0 +1,61 @@
+// src/lib/llm/types.ts
+
+// One earlier turn of the conversation.
+export type LlmMessage = {
+  role: 'user' | 'model';
+  text: string;
+};
+
+export type LlmGenerationSettings = {
+  temperature: number;
+  topK: number;
+  topP: number;
+  maxOutputTokens: number;
+};
+
+export type LlmRequest = {
+  prompt: string;
+  history?: LlmMessage[]; // Oldest first
+  systemInstruction?: string;
+  settings?: Partial<LlmGenerationSettings>;
+  signal?: AbortSignal; // Stops a stream: no more events, not even the finish event
+};
+
+// stop: finished normally; max_tokens: cut off at the output limit; safety / recitation: the reply was withheld;
+// blocked: the prompt itself was rejected, so nothing was generated.
+export type LlmFinishReason = 'stop' | 'max_tokens' | 'safety' | 'recitation' | 'blocked' | 'other';
+
+export type LlmUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+// How likely the provider judged a prompt or reply to be harmful in one category, e.g. HARM_CATEGORY_HARASSMENT: HIGH.
+export type LlmSafetyRating = {
+  category: string;
+  probability: string;
+};
+
+export type LlmResult = {
+  text: string;
+  finishReason: LlmFinishReason;
+  detail: string | null; // The provider's own reason code (e.g. Gemini's "SAFETY"), for messages and logs
+  safetyRatings: LlmSafetyRating[]; // Set when the prompt was blocked or the reply cut off, for the moderation log
+  usage: LlmUsage | null;
+};
+
+export type LlmStreamEvent =
+  | { type: 'text'; text: string }
+  | { type: 'finish'; result: LlmResult }; // Always last; result.text is the whole reply
+
+export type EmbeddingTask = 'document' | 'query';
+
+export interface LlmProvider {
+  name: string; // "<provider>:<model>"
+  generate(request: LlmRequest): Promise<LlmResult>;
+  // Stopping early is done by breaking out of the loop or aborting request.signal; no finish event is sent then.
+  stream(request: LlmRequest): AsyncGenerator<LlmStreamEvent>;
+  countTokens(request: LlmRequest): Promise<number>;
+  embed(texts: string[], task: EmbeddingTask): Promise<number[][]>;
+}
@@ -0,0 +1,126 @@
+// src/lib/moderation.ts
+// Log of prompts the model refused on safety grounds, for admins. `/api/chat` records one event in `safety_events`
+// when Gemini blocks the prompt (BlockReason.SAFETY) or cuts the reply off (FinishReason.SAFETY), with the user's
+// question and the safety ratings behind the block. Users can add events about themselves but not read them.
+import type { createSupabaseServerClient } from '@/lib/supabase/server';
+import type { createSupabaseAdminClient } from '@/lib/supabase/admin';
+import type { LlmResult, LlmSafetyRating } from '@/lib/llm';
+import { loadUserEmails } from '@/lib/admin';
+
+type SupabaseServerClient = ReturnType<typeof createSupabaseServerClient>;
+type SupabaseAdminClient = ReturnType<typeof createSupabaseAdminClient>;
+
+// prompt: the question was rejected before anything was generated; response: the reply was withheld part-way.
+export type SafetyBlockKind = 'prompt' | 'response';
+
+export const SAFETY_BLOCK_KINDS: SafetyBlockKind[] = ['prompt', 'response'];
+
+export const SAFETY_BLOCK_KIND_LABELS: Record<SafetyBlockKind, string> = {
+  prompt: 'Prompt blocked',
+  response: 'Reply withheld',
+};
+
+export const isSafetyBlockKind = (value: unknown): value is SafetyBlockKind => SAFETY_BLOCK_KINDS.includes(value as SafetyBlockKind);
+
+/** Whether a result was a safety block, and of which kind. Blocks for other reasons (e.g. recitation) aren't logged. */
+export function safetyBlockKind(result: LlmResult): SafetyBlockKind | null {
+  if (result.finishReason === 'blocked' && result.detail === 'SAFETY') return 'prompt';
+  if (result.finishReason === 'safety') return 'response';
+  return null;
+}
+
+/** Adds a safety block to the log. Failures are logged rather than thrown: the user still gets the block message. */
+export async function recordSafetyEvent(
+  supabase: SupabaseServerClient,
+  event: { userId: string; conversationId: string | null; prompt: string; model: string; kind: SafetyBlockKind; result: LlmResult },
+): Promise<void> {
+  const { error } = await supabase.from('safety_events').insert({
+    user_id: event.userId,
+    conversation_id: event.conversationId,
+    kind: event.kind,
+    prompt: event.prompt,
+    model: event.model,
+    reason: event.result.detail,
+    safety_ratings: event.result.safetyRatings,
+  });
+  if (error) {
+    console.error('Error recording safety event:', error);
+  }
+}
+
+export const SAFETY_LOG_PAGE_SIZE = 25;
+
+export type SafetyEvent = {
+  id: string;
+  createdAt: string;
+  userId: string;
+  email: string | null; // null once the user has been deleted
+  conversationId: string | null;
+  kind: SafetyBlockKind;
+  prompt: string;
+  model: string;
+  reason: string | null;
+  safetyRatings: LlmSafetyRating[];
+};
+
+export type SafetyLog = {
+  items: SafetyEvent[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+type SafetyEventRow = {
+  id: string;
+  created_at: string;
+  user_id: string;
+  conversation_id: string | null;
+  kind: SafetyBlockKind;
+  prompt: string;
+  model: string;
+  reason: string | null;
+  safety_ratings: LlmSafetyRating[];
+};
+
+/** A page of the log, newest first. Reads through the service-role client: callers must have checked for an admin. */
+export async function listSafetyEvents(
+  admin: SupabaseAdminClient,
+  { kind, userId, page, pageSize = SAFETY_LOG_PAGE_SIZE }: { kind: SafetyBlockKind | null; userId: string | null; page: number; pageSize?: number },
+): Promise<SafetyLog> {
+  const from = (page - 1) * pageSize;
+  let query = admin
+    .from('safety_events')
+    .select('id, created_at, user_id, conversation_id, kind, prompt, model, reason, safety_ratings', { count: 'exact' });
+  if (kind) {
+    query = query.eq('kind', kind);
+  }
+  if (userId) {
+    query = query.eq('user_id', userId);
+  }
+  const { data, count, error } = await query
+    .order('created_at', { ascending: false })
+    .range(from, from + pageSize - 1);
+  if (error) {
+    throw new Error('Failed to load the safety log. ' + error.message);
+  }
+  const rows = data as SafetyEventRow[];
+  const emails = await loadUserEmails(admin, Array.from(new Set(rows.map(row => row.user_id))));
+
+  return {
+    items: rows.map(row => ({
+      id: row.id,
+      createdAt: row.created_at,
+      userId: row.user_id,
+      email: emails.get(row.user_id) ?? null,
+      conversationId: row.conversation_id,
+      kind: row.kind,
+      prompt: row.prompt,
+      model: row.model,
+      reason: row.reason,
+      safetyRatings: row.safety_ratings ?? [],
+    })),
+    total: count ?? rows.length,
+    page,
+    pageSize,
+  };
+}
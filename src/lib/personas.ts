@@ -0,0 +1,129 @@
+// src/lib/personas.ts
+// Named instruction sets ("Legal reviewer", "Explain like I'm new") that a conversation is answered in.
+// Each user's personas live in the `personas` table; the built-in default persona is defined here.
+import type { createSupabaseServerClient } from '@/lib/supabase/server';
+import { validateChatSettings, type ChatSettings } from '@/lib/llm/settings';
+
+type SupabaseServerClient = ReturnType<typeof createSupabaseServerClient>;
+
+export type Persona = {
+  id: string;
+  name: string;
+  system_instruction: string;
+  settings: ChatSettings | null; // Default model and settings for conversations using it; null keeps the current ones
+  default_document: { id: string; name: string } | null; // Attached when the persona is chosen and nothing else is
+  built_in: boolean;
+};
+
+export const DEFAULT_PERSONA_ID = 'default';
+
+// The document-grounding instructions the chat route has always used.
+export const DEFAULT_PERSONA: Persona = {
+  id: DEFAULT_PERSONA_ID,
+  name: 'Document assistant',
+  system_instruction: [
+    'You are a helpful assistant that answers questions, often about documents the user has attached.',
+    'When document excerpts are provided, base your answer on them. If the answer is not found in the excerpts, state that explicitly.',
+    'Do not make up information not present in the documents if the question implies it should come from them.',
+    'Use our earlier conversation to interpret follow-up questions.',
+  ].join('\n'),
+  settings: null,
+  default_document: null,
+  built_in: true,
+};
+
+export const PERSONA_COLUMNS = 'id, name, system_instruction, settings, default_document:documents(id, name)';
+
+export const MAX_PERSONA_NAME_LENGTH = 60;
+export const MAX_SYSTEM_INSTRUCTION_LENGTH = 8000;
+
+// Without generated DB types the embedded document can't be inferred
+export function toPersona(row: unknown): Persona {
+  return { ...(row as Omit<Persona, 'built_in'>), built_in: false };
+}
+
+export async function listPersonas(supabase: SupabaseServerClient, userId: string): Promise<Persona[]> {
+  const { data, error } = await supabase
+    .from('personas')
+    .select(PERSONA_COLUMNS)
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+  if (error) {
+    throw new Error('Failed to fetch personas. ' + error.message);
+  }
+  return [DEFAULT_PERSONA, ...(data ?? []).map(toPersona)];
+}
+
+/**
+ * Returns the user's persona with `personaId`, or the built-in default for null / "default".
+ * Resolves to null when the id doesn't exist or belongs to someone else.
+ */
+export async function resolvePersona(
+  supabase: SupabaseServerClient,
+  userId: string,
+  personaId: string | null,
+): Promise<Persona | null> {
+  if (!personaId || personaId === DEFAULT_PERSONA_ID) return DEFAULT_PERSONA;
+
+  const { data, error } = await supabase
+    .from('personas')
+    .select(PERSONA_COLUMNS)
+    .eq('id', personaId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) {
+    console.error('Error loading persona:', error);
+    return null;
+  }
+  return data ? toPersona(data) : null;
+}
+
+export type PersonaChanges = {
+  name?: string;
+  system_instruction?: string;
+  settings?: ChatSettings | null;
+  default_document_id?: string | null;
+};
+
+/**
+ * Checks a create (all of name and system instruction required) or update (any subset) request body.
+ * The default document's ownership is checked by the caller, which has the database client.
+ */
+export function validatePersonaInput(body: unknown, { partial }: { partial: boolean }): { changes: PersonaChanges } | { error: string } {
+  if (typeof body !== 'object' || body === null) {
+    return { error: 'Request body must be a JSON object.' };
+  }
+  const input = body as Record<string, unknown>;
+  const changes: PersonaChanges = {};
+
+  if (input.name !== undefined || !partial) {
+    const name = typeof input.name === 'string' ? input.name.replace(/\s+/g, ' ').trim() : '';
+    if (!name || name.length > MAX_PERSONA_NAME_LENGTH) {
+      return { error: `Name is required and must be at most ${MAX_PERSONA_NAME_LENGTH} characters.` };
+    }
+    changes.name = name;
+  }
+  if (input.systemInstruction !== undefined || !partial) {
+    const instruction = typeof input.systemInstruction === 'string' ? input.systemInstruction.trim() : '';
+    if (!instruction || instruction.length > MAX_SYSTEM_INSTRUCTION_LENGTH) {
+      return { error: `System instruction is required and must be at most ${MAX_SYSTEM_INSTRUCTION_LENGTH} characters.` };
+    }
+    changes.system_instruction = instruction;
+  }
+  if (input.settings !== undefined) {
+    if (input.settings === null) {
+      changes.settings = null;
+    } else {
+      const result = validateChatSettings(input.settings);
+      if ('error' in result) return { error: result.error };
+      changes.settings = result.settings;
+    }
+  }
+  if (input.defaultDocumentId !== undefined) {
+    if (input.defaultDocumentId !== null && typeof input.defaultDocumentId !== 'string') {
+      return { error: 'defaultDocumentId must be a document id or null.' };
+    }
+    changes.default_document_id = input.defaultDocumentId;
+  }
+  return { changes };
+}
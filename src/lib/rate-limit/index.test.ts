@@ -0,0 +1,177 @@
+// src/lib/rate-limit/index.test.ts
+import { describe, expect, it } from 'vitest';
+import {
+  RATE_LIMITS,
+  checkRequestRate,
+  clientIp,
+  consumeDailyMessage,
+  createInMemoryRateLimitStore,
+  getQuotaStatus,
+  getQuotaStatuses,
+  rateLimitedResponse,
+  recordTokenUsage,
+  type RateLimitDecision,
+} from './index';
+
+const NOON = Date.parse('2024-05-01T12:00:00.000Z');
+const bucket = { capacity: 3, refillPerSecond: 0.5 };
+
+function refused(decision: RateLimitDecision) {
+  if (decision.allowed) throw new Error('Expected the request to be refused.');
+  return decision;
+}
+
+describe('token buckets', () => {
+  it('allows a full burst, then refuses until a token has refilled', async () => {
+    const store = createInMemoryRateLimitStore();
+    for (const remaining of [2, 1, 0]) {
+      expect(await store.takeToken('k', bucket, NOON)).toEqual({ allowed: true, remaining, retryAfterSeconds: 0 });
+    }
+    expect(await store.takeToken('k', bucket, NOON)).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 2 });
+    expect(await store.takeToken('k', bucket, NOON + 1000)).toEqual({ allowed: false, remaining: 0, retryAfterSeconds: 1 });
+    expect((await store.takeToken('k', bucket, NOON + 2000)).allowed).toBe(true);
+    expect((await store.takeToken('k', bucket, NOON + 2000)).allowed).toBe(false);
+  });
+
+  it('refills no further than the burst size', async () => {
+    const store = createInMemoryRateLimitStore();
+    await store.takeToken('k', bucket, NOON);
+    const later = NOON + 60 * 60 * 1000;
+    for (let i = 0; i < bucket.capacity; i++) expect((await store.takeToken('k', bucket, later)).allowed).toBe(true);
+    expect((await store.takeToken('k', bucket, later)).allowed).toBe(false);
+  });
+
+  it('keeps separate buckets per key', async () => {
+    const store = createInMemoryRateLimitStore();
+    for (let i = 0; i < bucket.capacity; i++) await store.takeToken('a', bucket, NOON);
+    expect((await store.takeToken('a', bucket, NOON)).allowed).toBe(false);
+    expect((await store.takeToken('b', bucket, NOON)).allowed).toBe(true);
+  });
+});
+
+describe('clientIp', () => {
+  const request = (forwardedFor?: string) =>
+    new Request('http://localhost/api/chat', { headers: forwardedFor === undefined ? {} : { 'x-forwarded-for': forwardedFor } });
+
+  it('takes the address appended by the trusted proxy, not one the client sent', () => {
+    expect(clientIp(request('203.0.113.7'))).toBe('203.0.113.7');
+    expect(clientIp(request('1.2.3.4, 203.0.113.7'))).toBe('203.0.113.7');
+    expect(clientIp(request('spoofed, 1.2.3.4,203.0.113.7 '))).toBe('203.0.113.7');
+  });
+
+  it('skips the entries added by further trusted proxies', () => {
+    expect(clientIp(request('1.2.3.4, 203.0.113.7, 10.0.0.2'), 2)).toBe('203.0.113.7');
+    expect(clientIp(request('203.0.113.7, 10.0.0.2'), 3)).toBe('203.0.113.7');
+  });
+
+  it('ignores X-Real-IP and falls back to a shared bucket without the header', () => {
+    expect(clientIp(new Request('http://localhost/', { headers: { 'x-real-ip': '1.2.3.4' } }))).toBe('unknown');
+    expect(clientIp(request(''))).toBe('unknown');
+  });
+});
+
+describe('checkRequestRate', () => {
+  it('refuses once the user has used their burst, with the wait in seconds', async () => {
+    const store = createInMemoryRateLimitStore();
+    for (let i = 0; i < RATE_LIMITS.user.capacity; i++) {
+      expect(await checkRequestRate('user-1', `10.0.0.${i}`, store, NOON)).toEqual({ allowed: true });
+    }
+    const decision = refused(await checkRequestRate('user-1', '10.0.1.1', store, NOON));
+    expect(decision.code).toBe('RATE_LIMITED');
+    expect(decision.retryAfterSeconds).toBe(Math.ceil(1 / RATE_LIMITS.user.refillPerSecond));
+    expect(decision.message).toContain(`${decision.retryAfterSeconds} seconds`);
+  });
+
+  it('refuses an IP shared by many users once its own burst is used', async () => {
+    const store = createInMemoryRateLimitStore();
+    for (let i = 0; i < RATE_LIMITS.ip.capacity; i++) {
+      expect((await checkRequestRate(`user-${i}`, '10.0.0.1', store, NOON)).allowed).toBe(true);
+    }
+    expect(refused(await checkRequestRate('another-user', '10.0.0.1', store, NOON)).retryAfterSeconds)
+      .toBe(Math.ceil(1 / RATE_LIMITS.ip.refillPerSecond));
+  });
+});
+
+describe('daily quotas', () => {
+  it('allows exactly the daily number of messages', async () => {
+    const store = createInMemoryRateLimitStore();
+    await store.addDailyUsage('user-1', '2024-05-01', { messages: RATE_LIMITS.dailyMessages - 1 });
+    expect(await consumeDailyMessage('user-1', store, NOON)).toEqual({ allowed: true });
+
+    const decision = refused(await consumeDailyMessage('user-1', store, NOON));
+    expect(decision.code).toBe('DAILY_MESSAGE_QUOTA_EXCEEDED');
+    expect(decision.retryAfterSeconds).toBe(12 * 60 * 60); // Until midnight UTC
+    expect((await store.getDailyUsage('user-1', '2024-05-01')).messages).toBe(RATE_LIMITS.dailyMessages); // Refusals aren't counted
+  });
+
+  it('lets only the quota through when messages arrive at the same time', async () => {
+    const store = createInMemoryRateLimitStore();
+    await store.addDailyUsage('user-1', '2024-05-01', { messages: RATE_LIMITS.dailyMessages - 2 });
+
+    // Every call reads the counter before any of them writes it, as parallel requests to a shared store can
+    const stale = await store.getDailyUsage('user-1', '2024-05-01');
+    const racingStore = { ...store, getDailyUsage: async () => stale };
+    const decisions = await Promise.all(Array.from({ length: 5 }, () => consumeDailyMessage('user-1', racingStore, NOON)));
+
+    expect(decisions.filter(decision => decision.allowed)).toHaveLength(2);
+    expect((await store.getDailyUsage('user-1', '2024-05-01')).messages).toBe(RATE_LIMITS.dailyMessages);
+  });
+
+  it('allows messages until the token quota is reached, not just exceeded', async () => {
+    const store = createInMemoryRateLimitStore();
+    await recordTokenUsage('user-1', RATE_LIMITS.dailyTokens - 1, store, NOON);
+    expect((await consumeDailyMessage('user-1', store, NOON)).allowed).toBe(true);
+
+    await recordTokenUsage('user-1', 1, store, NOON);
+    expect(refused(await consumeDailyMessage('user-1', store, NOON)).code).toBe('DAILY_TOKEN_QUOTA_EXCEEDED');
+  });
+
+  it('starts again at midnight UTC', async () => {
+    const store = createInMemoryRateLimitStore();
+    const lastSecond = Date.parse('2024-05-01T23:59:59.000Z');
+    await store.addDailyUsage('user-1', '2024-05-01', { messages: RATE_LIMITS.dailyMessages, tokens: RATE_LIMITS.dailyTokens });
+
+    expect(refused(await consumeDailyMessage('user-1', store, lastSecond)).retryAfterSeconds).toBe(1);
+    expect(await consumeDailyMessage('user-1', store, lastSecond + 1000)).toEqual({ allowed: true });
+    expect(await store.getDailyUsage('user-1', '2024-05-02')).toEqual({ messages: 1, tokens: 0 });
+  });
+
+  it('counts days in UTC whatever the local offset of the timestamp', async () => {
+    const store = createInMemoryRateLimitStore();
+    await consumeDailyMessage('user-1', store, Date.parse('2024-05-01T23:30:00-05:00')); // 04:30 UTC on May 2nd
+    expect(await store.getDailyUsage('user-1', '2024-05-02')).toEqual({ messages: 1, tokens: 0 });
+  });
+
+  it('reports usage, what is left and when it resets', async () => {
+    const store = createInMemoryRateLimitStore();
+    await consumeDailyMessage('user-1', store, NOON);
+    await recordTokenUsage('user-1', RATE_LIMITS.dailyTokens + 10, store, NOON);
+
+    expect(await getQuotaStatus('user-1', store, NOON)).toEqual({
+      messages: { used: 1, limit: RATE_LIMITS.dailyMessages, remaining: RATE_LIMITS.dailyMessages - 1 },
+      tokens: { used: RATE_LIMITS.dailyTokens + 10, limit: RATE_LIMITS.dailyTokens, remaining: 0 },
+      resetsAt: '2024-05-02T00:00:00.000Z',
+    });
+    expect((await getQuotaStatus('user-1', store, Date.parse('2024-05-02T00:00:00.000Z'))).messages.used).toBe(0);
+  });
+
+  it('reports several users at once, including those without usage today', async () => {
+    const store = createInMemoryRateLimitStore();
+    await consumeDailyMessage('user-1', store, NOON);
+    await consumeDailyMessage('user-1', store, NOON);
+
+    const statuses = await getQuotaStatuses(['user-1', 'user-2'], store, NOON);
+    expect([...statuses.keys()]).toEqual(['user-1', 'user-2']);
+    expect(statuses.get('user-1')).toEqual(await getQuotaStatus('user-1', store, NOON));
+    expect(statuses.get('user-2')?.messages).toEqual({ used: 0, limit: RATE_LIMITS.dailyMessages, remaining: RATE_LIMITS.dailyMessages });
+  });
+});
+
+describe('rateLimitedResponse', () => {
+  it('answers 429 with Retry-After in whole seconds and the refusal code', async () => {
+    const response = rateLimitedResponse({ allowed: false, code: 'RATE_LIMITED', message: 'Too many requests.', retryAfterSeconds: 3 });
+    expect(response.status).toBe(429);
+    expect(response.headers.get('Retry-After')).toBe('3');
+    expect(await response.json()).toEqual({ error: 'Too many requests.', code: 'RATE_LIMITED' });
+  });
+});
@@ -0,0 +1,188 @@
+// src/lib/rate-limit/index.ts
+// Per-user and per-IP token buckets against bursts, plus daily message and token quotas per user.
+import { NextResponse } from 'next/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/admin';
+import { createInMemoryRateLimitStore, type DailyUsage, type RateLimitStore, type TokenBucketConfig } from './store';
+import { createSupabaseRateLimitStore } from './supabase-store';
+
+export * from './store';
+
+const perMinute = (requests: number) => requests / 60;
+
+export const RATE_LIMITS = {
+  user: {
+    capacity: Number(process.env.RATE_LIMIT_USER_BURST) || 10,
+    refillPerSecond: perMinute(Number(process.env.RATE_LIMIT_USER_PER_MINUTE) || 20),
+  } satisfies TokenBucketConfig,
+  ip: {
+    capacity: Number(process.env.RATE_LIMIT_IP_BURST) || 30,
+    refillPerSecond: perMinute(Number(process.env.RATE_LIMIT_IP_PER_MINUTE) || 60),
+  } satisfies TokenBucketConfig,
+  dailyMessages: Number(process.env.DAILY_MESSAGE_QUOTA) || 200,
+  dailyTokens: Number(process.env.DAILY_TOKEN_QUOTA) || 500_000,
+};
+
+export type RateLimitCode = 'RATE_LIMITED' | 'DAILY_MESSAGE_QUOTA_EXCEEDED' | 'DAILY_TOKEN_QUOTA_EXCEEDED';
+
+export type RateLimitDecision =
+  | { allowed: true }
+  | { allowed: false; code: RateLimitCode; message: string; retryAfterSeconds: number };
+
+export type QuotaStatus = {
+  messages: { used: number; limit: number; remaining: number };
+  tokens: { used: number; limit: number; remaining: number };
+  resetsAt: string; // Quotas reset at midnight UTC
+};
+
+let defaultStore: RateLimitStore | null = null;
+
+// Counters live in Postgres so every instance sees the same ones. RATE_LIMIT_STORE=memory keeps them in this process
+// instead (tests always do), for local development without the rate-limit tables.
+export function getRateLimitStore(): RateLimitStore {
+  defaultStore ??= process.env.RATE_LIMIT_STORE === 'memory' || process.env.NODE_ENV === 'test'
+    ? createInMemoryRateLimitStore()
+    : createSupabaseRateLimitStore(createSupabaseAdminClient());
+  return defaultStore;
+}
+
+// Quota days are UTC dates.
+function quotaDay(now: number): string {
+  return new Date(now).toISOString().slice(0, 10);
+}
+
+function secondsUntilQuotaReset(now: number): number {
+  const midnight = new Date(now);
+  midnight.setUTCHours(24, 0, 0, 0);
+  return Math.ceil((midnight.getTime() - now) / 1000);
+}
+
+// Each proxy appends the address it received the request from to X-Forwarded-For, so only the last
+// TRUSTED_PROXY_HOPS entries were written by servers we run; anything to their left came from the client.
+// One hop covers Next.js on its own (it appends the socket address) and hosts such as Vercel that set the header.
+const TRUSTED_PROXY_HOPS = Number(process.env.TRUSTED_PROXY_HOPS) || 1;
+
+/** The client address as seen by the outermost trusted proxy. */
+export function clientIp(request: Request, trustedHops: number = TRUSTED_PROXY_HOPS): string {
+  const addresses = (request.headers.get('x-forwarded-for') ?? '').split(',').map(address => address.trim()).filter(Boolean);
+  return addresses[Math.max(0, addresses.length - trustedHops)] || 'unknown';
+}
+
+/** Takes a token from both the user's and the client IP's bucket. */
+export async function checkRequestRate(
+  userId: string,
+  ip: string,
+  store: RateLimitStore = getRateLimitStore(),
+  now: number = Date.now(),
+): Promise<RateLimitDecision> {
+  for (const [key, bucket] of [[`ip:${ip}`, RATE_LIMITS.ip], [`user:${userId}`, RATE_LIMITS.user]] as const) {
+    const result = await store.takeToken(key, bucket, now);
+    if (!result.allowed) {
+      return {
+        allowed: false,
+        code: 'RATE_LIMITED',
+        message: `Too many requests. Please wait ${result.retryAfterSeconds} seconds and try again.`,
+        retryAfterSeconds: result.retryAfterSeconds,
+      };
+    }
+  }
+  return { allowed: true };
+}
+
+/**
+ * Counts one more message against the user's daily quotas, or refuses it when they are used up. The message is counted
+ * first and the quota checked against the new total, so parallel requests can't all pass a check made before any of
+ * them was counted; a refused message is taken off again.
+ */
+export async function consumeDailyMessage(
+  userId: string,
+  store: RateLimitStore = getRateLimitStore(),
+  now: number = Date.now(),
+): Promise<RateLimitDecision> {
+  const day = quotaDay(now);
+  const usage = await store.addDailyUsage(userId, day, { messages: 1 });
+  const retryAfterSeconds = secondsUntilQuotaReset(now);
+
+  if (usage.messages > RATE_LIMITS.dailyMessages || usage.tokens >= RATE_LIMITS.dailyTokens) {
+    await store.addDailyUsage(userId, day, { messages: -1 });
+  }
+  if (usage.messages > RATE_LIMITS.dailyMessages) {
+    return {
+      allowed: false,
+      code: 'DAILY_MESSAGE_QUOTA_EXCEEDED',
+      message: `You have used all ${RATE_LIMITS.dailyMessages} messages for today. The quota resets at midnight UTC.`,
+      retryAfterSeconds,
+    };
+  }
+  if (usage.tokens >= RATE_LIMITS.dailyTokens) {
+    return {
+      allowed: false,
+      code: 'DAILY_TOKEN_QUOTA_EXCEEDED',
+      message: 'You have used your token allowance for today. The quota resets at midnight UTC.',
+      retryAfterSeconds,
+    };
+  }
+  return { allowed: true };
+}
+
+// Tokens are counted after the reply, so the request that crosses the token quota still completes.
+export async function recordTokenUsage(
+  userId: string,
+  tokens: number,
+  store: RateLimitStore = getRateLimitStore(),
+  now: number = Date.now(),
+): Promise<void> {
+  await store.addDailyUsage(userId, quotaDay(now), { tokens });
+}
+
+function toQuotaStatus(usage: DailyUsage, now: number): QuotaStatus {
+  const status = (used: number, limit: number) => ({ used, limit, remaining: Math.max(0, limit - used) });
+  return {
+    messages: status(usage.messages, RATE_LIMITS.dailyMessages),
+    tokens: status(usage.tokens, RATE_LIMITS.dailyTokens),
+    resetsAt: new Date(now + secondsUntilQuotaReset(now) * 1000).toISOString(),
+  };
+}
+
+export async function getQuotaStatus(
+  userId: string,
+  store: RateLimitStore = getRateLimitStore(),
+  now: number = Date.now(),
+): Promise<QuotaStatus> {
+  return toQuotaStatus(await store.getDailyUsage(userId, quotaDay(now)), now);
+}
+
+/** Today's quota use for several users, read in one go. */
+export async function getQuotaStatuses(
+  userIds: string[],
+  store: RateLimitStore = getRateLimitStore(),
+  now: number = Date.now(),
+): Promise<Map<string, QuotaStatus>> {
+  const usage = await store.listDailyUsage(userIds, quotaDay(now));
+  return new Map(userIds.map(userId => [userId, toQuotaStatus(usage.get(userId) ?? { messages: 0, tokens: 0 }, now)]));
+}
+
+export function rateLimitedResponse(decision: Extract<RateLimitDecision, { allowed: false }>) {
+  return NextResponse.json(
+    { error: decision.message, code: decision.code },
+    { status: 429, headers: { 'Retry-After': String(decision.retryAfterSeconds) } },
+  );
+}
+
+/**
+ * Applies the burst limits (and, for metered routes, the daily quotas) to a request from a signed-in user.
+ * Resolves to the 429 response to send, or null when the request may go ahead.
+ */
+export async function enforceRateLimits(
+  request: Request,
+  userId: string,
+  { dailyQuota = false }: { dailyQuota?: boolean } = {},
+): Promise<NextResponse | null> {
+  const rate = await checkRequestRate(userId, clientIp(request));
+  if (!rate.allowed) return rateLimitedResponse(rate);
+
+  if (dailyQuota) {
+    const quota = await consumeDailyMessage(userId);
+    if (!quota.allowed) return rateLimitedResponse(quota);
+  }
+  return null;
+}
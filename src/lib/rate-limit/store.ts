@@ -0,0 +1,82 @@
+// src/lib/rate-limit/store.ts
+// Storage for rate-limit state. The app uses the Postgres store (supabase-store.ts), which every server process
+// shares; the in-memory store counts for this process only and is meant for tests and local development.
+
+export type TokenBucketConfig = {
+  capacity: number; // Burst size
+  refillPerSecond: number;
+};
+
+export type TokenBucketResult = {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number; // 0 when allowed
+};
+
+export type DailyUsage = {
+  messages: number;
+  tokens: number;
+};
+
+export interface RateLimitStore {
+  // Takes one token from the bucket at `key`, refilling it for the time elapsed since it was last used.
+  takeToken(key: string, bucket: TokenBucketConfig, now: number): Promise<TokenBucketResult>;
+  getDailyUsage(userId: string, day: string): Promise<DailyUsage>;
+  // Usage for several users at once (the admin user list); users with none yet are left out.
+  listDailyUsage(userIds: string[], day: string): Promise<Map<string, DailyUsage>>;
+  addDailyUsage(userId: string, day: string, usage: Partial<DailyUsage>): Promise<DailyUsage>;
+}
+
+// Buckets idle this long have refilled completely, so forgetting them changes nothing.
+const IDLE_BUCKET_MS = 60 * 60 * 1000;
+const MAX_BUCKETS = 10_000;
+
+export function createInMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number }>();
+  const usageByDay = new Map<string, Map<string, DailyUsage>>();
+
+  return {
+    async takeToken(key, { capacity, refillPerSecond }, now) {
+      if (buckets.size > MAX_BUCKETS) {
+        for (const [bucketKey, { updatedAt }] of buckets) {
+          if (now - updatedAt > IDLE_BUCKET_MS) buckets.delete(bucketKey);
+        }
+      }
+
+      const bucket = buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+      bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * refillPerSecond);
+      bucket.updatedAt = now;
+      buckets.set(key, bucket);
+
+      if (bucket.tokens >= 1) {
+        bucket.tokens -= 1;
+        return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterSeconds: 0 };
+      }
+      return { allowed: false, remaining: 0, retryAfterSeconds: Math.ceil((1 - bucket.tokens) / refillPerSecond) };
+    },
+
+    async getDailyUsage(userId, day) {
+      return { ...(usageByDay.get(day)?.get(userId) ?? { messages: 0, tokens: 0 }) };
+    },
+
+    async listDailyUsage(userIds, day) {
+      const dayUsage = usageByDay.get(day);
+      return new Map(userIds.flatMap(userId => {
+        const usage = dayUsage?.get(userId);
+        return usage ? [[userId, { ...usage }] as const] : [];
+      }));
+    },
+
+    async addDailyUsage(userId, day, { messages = 0, tokens = 0 }) {
+      if (!usageByDay.has(day)) {
+        usageByDay.clear(); // Only today's counters matter; drop earlier days as soon as a new one starts
+        usageByDay.set(day, new Map());
+      }
+      const dayUsage = usageByDay.get(day)!;
+      const current = dayUsage.get(userId) ?? { messages: 0, tokens: 0 };
+      const updated = { messages: current.messages + messages, tokens: current.tokens + tokens };
+      dayUsage.set(userId, updated);
+      return { ...updated };
+    },
+  };
+}
@@ -0,0 +1,69 @@
+// src/lib/rate-limit/supabase-store.ts
+// RateLimitStore on Postgres, shared by every server process. Buckets and daily counters are updated inside database
+// functions, each a single upsert, so concurrent requests can't read the same value and both write it back.
+// Both tables are only reachable through the service role (see *Rate limits* in the README).
+import type { createSupabaseAdminClient } from '@/lib/supabase/admin';
+import type { DailyUsage, RateLimitStore, TokenBucketResult } from './store';
+
+type SupabaseAdminClient = ReturnType<typeof createSupabaseAdminClient>;
+
+type TokenBucketRow = { allowed: boolean; remaining: number; retry_after_seconds: number };
+
+export function createSupabaseRateLimitStore(admin: SupabaseAdminClient): RateLimitStore {
+  return {
+    async takeToken(key, { capacity, refillPerSecond }, now): Promise<TokenBucketResult> {
+      const { data, error } = await admin
+        .rpc('take_rate_limit_token', {
+          bucket_key: key,
+          capacity,
+          refill_per_second: refillPerSecond,
+          taken_at: new Date(now).toISOString(),
+        })
+        .single();
+      if (error) {
+        throw new Error('Failed to check the rate limit. ' + error.message);
+      }
+      const row = data as TokenBucketRow;
+      return { allowed: row.allowed, remaining: row.remaining, retryAfterSeconds: row.retry_after_seconds };
+    },
+
+    async getDailyUsage(userId, day): Promise<DailyUsage> {
+      const { data, error } = await admin
+        .from('daily_usage')
+        .select('messages, tokens')
+        .eq('user_id', userId)
+        .eq('day', day)
+        .maybeSingle();
+      if (error) {
+        throw new Error('Failed to load daily usage. ' + error.message);
+      }
+      return { messages: Number(data?.messages ?? 0), tokens: Number(data?.tokens ?? 0) };
+    },
+
+    async listDailyUsage(userIds, day): Promise<Map<string, DailyUsage>> {
+      const usage = new Map<string, DailyUsage>();
+      if (userIds.length === 0) return usage;
+      const { data, error } = await admin
+        .from('daily_usage')
+        .select('user_id, messages, tokens')
+        .in('user_id', userIds)
+        .eq('day', day);
+      if (error) {
+        throw new Error('Failed to load daily usage. ' + error.message);
+      }
+      for (const row of data) usage.set(row.user_id, { messages: Number(row.messages), tokens: Number(row.tokens) });
+      return usage;
+    },
+
+    async addDailyUsage(userId, day, { messages = 0, tokens = 0 }): Promise<DailyUsage> {
+      const { data, error } = await admin
+        .rpc('add_daily_usage', { usage_user_id: userId, usage_day: day, message_count: messages, token_count: tokens })
+        .single();
+      if (error) {
+        throw new Error('Failed to record daily usage. ' + error.message);
+      }
+      const row = data as DailyUsage;
+      return { messages: Number(row.messages), tokens: Number(row.tokens) };
+    },
+  };
+}
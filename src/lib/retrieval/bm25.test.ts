@@ -0,0 +1,62 @@
+// src/lib/retrieval/bm25.test.ts
+import { describe, expect, it } from 'vitest';
+import { createBm25Index, tokenize } from './bm25';
+
+describe('tokenize', () => {
+  it('lowercases words and numbers in any script and drops punctuation and stopwords', () => {
+    expect(tokenize('What is the Café price in 2024?')).toEqual(['café', 'price', '2024']);
+    expect(tokenize('Größe, Straße; 東京')).toEqual(['größe', 'straße', '東京']);
+    expect(tokenize('the of and')).toEqual([]);
+  });
+});
+
+describe('createBm25Index', () => {
+  const texts = [
+    'The invoice total is due in March.',
+    'Shipping costs are listed on the invoice.',
+    'Our refund policy covers damaged goods.',
+  ];
+
+  it('scores every text in order, with 0 where no query term matches', () => {
+    const scores = createBm25Index(texts).score('refund policy');
+    expect(scores).toHaveLength(3);
+    expect(scores[0]).toBe(0);
+    expect(scores[1]).toBe(0);
+    expect(scores[2]).toBeGreaterThan(0);
+  });
+
+  it('scores nothing for a query made only of stopwords', () => {
+    expect(createBm25Index(texts).score('what is the')).toEqual([0, 0, 0]);
+  });
+
+  it('weights rare terms above common ones', () => {
+    const [invoiceAndMarch, invoiceOnly] = createBm25Index(texts).score('invoice march');
+    expect(invoiceAndMarch).toBeGreaterThan(invoiceOnly);
+    const index = createBm25Index(['invoice march', 'invoice shipping', 'invoice refund']);
+    const [common] = index.score('invoice');
+    const [rare] = index.score('march');
+    expect(rare).toBeGreaterThan(common);
+    expect(common).toBeGreaterThan(0); // A term in every text still counts for something
+  });
+
+  it('ranks more occurrences higher, with diminishing returns', () => {
+    const [once, twice, thrice] = createBm25Index(['cat dog bird fish', 'cat cat bird fish', 'cat cat cat fish', 'mouse']).score('cat');
+    expect(twice).toBeGreaterThan(once);
+    expect(thrice).toBeGreaterThan(twice);
+    expect(thrice - twice).toBeLessThan(twice - once);
+  });
+
+  it('ranks a match in a short text above the same match in a long one', () => {
+    const [short, long] = createBm25Index(['budget report', 'budget report with many more words in it', 'other']).score('budget');
+    expect(short).toBeGreaterThan(long);
+  });
+
+  it('counts a repeated query term once', () => {
+    const index = createBm25Index(texts);
+    expect(index.score('refund refund refund')).toEqual(index.score('refund'));
+  });
+
+  it('handles an empty index', () => {
+    expect(createBm25Index([]).score('anything')).toEqual([]);
+  });
+});
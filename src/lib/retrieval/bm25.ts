@@ -0,0 +1,61 @@
+// src/lib/retrieval/bm25.ts
+// Small in-memory BM25 index over a document's chunks. Built per query; documents are small enough.
+
+const K1 = 1.2;
+const B = 0.75;
+
+// Common words that would otherwise dominate short questions ("what is the ...")
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'how', 'i', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which', 'who', 'why', 'with',
+]);
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+    .filter(token => !STOPWORDS.has(token));
+}
+
+export type Bm25Index = {
+  // One score per indexed text, in the order they were given; 0 means no query term matched.
+  score: (query: string) => number[];
+};
+
+export function createBm25Index(texts: string[]): Bm25Index {
+  const termFrequencies = texts.map(text => {
+    const frequencies = new Map<string, number>();
+    for (const token of tokenize(text)) {
+      frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+    }
+    return frequencies;
+  });
+  const lengths = texts.map(text => tokenize(text).length);
+  const averageLength = lengths.reduce((sum, length) => sum + length, 0) / Math.max(texts.length, 1);
+
+  const documentFrequency = new Map<string, number>();
+  for (const frequencies of termFrequencies) {
+    for (const term of frequencies.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  const idf = (term: string): number => {
+    const df = documentFrequency.get(term) ?? 0;
+    return Math.log(1 + (texts.length - df + 0.5) / (df + 0.5));
+  };
+
+  return {
+    score(query: string) {
+      const queryTerms = Array.from(new Set(tokenize(query)));
+      return termFrequencies.map((frequencies, i) => {
+        let score = 0;
+        for (const term of queryTerms) {
+          const tf = frequencies.get(term);
+          if (!tf) continue;
+          const norm = tf + K1 * (1 - B + B * (lengths[i] / (averageLength || 1)));
+          score += idf(term) * (tf * (K1 + 1)) / norm;
+        }
+        return score;
+      });
+    },
+  };
+}
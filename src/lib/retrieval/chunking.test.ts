@@ -0,0 +1,50 @@
+// src/lib/retrieval/chunking.test.ts
+import { describe, expect, it } from 'vitest';
+import { chunkPages } from './chunking';
+
+// Every word names its page ("p2w7"), so a chunk's pages can be read off its text
+const page = (number: number, words: number) => Array.from({ length: words }, (_, i) => `p${number}w${i + 1}`).join(' ');
+const pageOf = (word: string) => Number(word.match(/^p(\d+)w/)![1]);
+
+describe('chunkPages', () => {
+  it('keeps a short document in one chunk covering all its pages', () => {
+    expect(chunkPages(['First page.', 'Second page.'])).toEqual([
+      { chunkIndex: 0, pageStart: 1, pageEnd: 2, text: 'First page.\n\nSecond page.' },
+    ]);
+  });
+
+  it('maps each chunk to the pages its first and last words are on', () => {
+    const chunks = chunkPages([page(1, 30), page(2, 30), page(3, 30)], 100, 20);
+    expect(chunks.length).toBeGreaterThan(3);
+    chunks.forEach((chunk, i) => {
+      const words = chunk.text.split(/\s+/);
+      expect(chunk.chunkIndex).toBe(i);
+      expect(chunk.pageStart).toBe(pageOf(words[0]));
+      expect(chunk.pageEnd).toBe(pageOf(words.at(-1)!));
+    });
+    expect(chunks.some(chunk => chunk.pageStart < chunk.pageEnd)).toBe(true);
+    expect(chunks.at(-1)!.pageEnd).toBe(3);
+  });
+
+  it('breaks between words and overlaps consecutive chunks', () => {
+    const chunks = chunkPages([page(1, 60)], 100, 20);
+    const allWords = new Set(page(1, 60).split(' '));
+    for (const chunk of chunks) {
+      for (const word of chunk.text.split(/\s+/)) expect(allWords.has(word)).toBe(true);
+    }
+    for (let i = 1; i < chunks.length; i++) {
+      const firstWord = chunks[i].text.split(' ')[0];
+      expect(chunks[i - 1].text.split(' ')).toContain(firstWord);
+    }
+  });
+
+  it('skips blank pages when deciding where a chunk starts and ends', () => {
+    expect(chunkPages(['', 'Only text.', '   '])).toEqual([{ chunkIndex: 0, pageStart: 2, pageEnd: 2, text: 'Only text.' }]);
+    expect(chunkPages(['One.', '  ', 'Three.'])[0]).toMatchObject({ pageStart: 1, pageEnd: 3 });
+  });
+
+  it('returns no chunks for an empty document', () => {
+    expect(chunkPages([])).toEqual([]);
+    expect(chunkPages(['', ' \n '])).toEqual([]);
+  });
+});
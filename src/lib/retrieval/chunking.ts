@@ -0,0 +1,70 @@
+// src/lib/retrieval/chunking.ts
+// Splits a document into overlapping chunks that remember which pages they came from.
+
+export type DocumentChunk = {
+  chunkIndex: number;
+  pageStart: number; // 1-based, inclusive
+  pageEnd: number;
+  text: string;
+};
+
+export const CHUNK_SIZE_CHARS = 1500;
+export const CHUNK_OVERLAP_CHARS = 200;
+
+const PAGE_SEPARATOR = '\n\n';
+
+export function chunkPages(
+  pages: string[],
+  chunkSize: number = CHUNK_SIZE_CHARS,
+  overlap: number = CHUNK_OVERLAP_CHARS,
+): DocumentChunk[] {
+  // Lay the pages out end to end and remember where each one starts
+  const pageOffsets: number[] = [];
+  let fullText = '';
+  pages.forEach((pageText, i) => {
+    if (i > 0) fullText += PAGE_SEPARATOR;
+    pageOffsets.push(fullText.length);
+    fullText += pageText;
+  });
+
+  const pageAt = (offset: number): number => {
+    let page = 0;
+    while (page + 1 < pageOffsets.length && pageOffsets[page + 1] <= offset) page++;
+    return page + 1;
+  };
+
+  const chunks: DocumentChunk[] = [];
+  let start = 0;
+  while (start < fullText.length) {
+    let end = Math.min(start + chunkSize, fullText.length);
+    if (end < fullText.length) {
+      // Prefer to break on whitespace in the second half of the window rather than mid-word
+      let breakAt = end;
+      while (breakAt > start + chunkSize / 2 && !/\s/.test(fullText[breakAt])) breakAt--;
+      if (breakAt > start + chunkSize / 2) end = breakAt;
+    }
+
+    const rawChunk = fullText.slice(start, end);
+    const text = rawChunk.trim();
+    if (text) {
+      const leadingWhitespace = rawChunk.length - rawChunk.trimStart().length;
+      const trailingWhitespace = rawChunk.length - rawChunk.trimEnd().length;
+      chunks.push({
+        chunkIndex: chunks.length,
+        pageStart: pageAt(start + leadingWhitespace),
+        pageEnd: pageAt(end - 1 - trailingWhitespace),
+        text,
+      });
+    }
+
+    if (end >= fullText.length) break;
+
+    // Step back by the overlap, then forward to the next word boundary
+    let nextStart = Math.max(end - overlap, start + 1);
+    const nextBreak = fullText.slice(nextStart, end).search(/\s/);
+    if (nextBreak !== -1) nextStart += nextBreak + 1;
+    start = nextStart;
+  }
+
+  return chunks;
+}
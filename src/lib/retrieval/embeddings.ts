@@ -0,0 +1,35 @@
+// src/lib/retrieval/embeddings.ts
+// Optional dense retrieval. Off unless RETRIEVAL_EMBEDDINGS is set; BM25 works on its own.
+import { getLlmProvider } from '@/lib/llm';
+
+export interface EmbeddingProvider {
+  name: string;
+  embedDocuments(texts: string[]): Promise<number[][]>;
+  embedQuery(text: string): Promise<number[]>;
+}
+
+// Embeddings come from the configured LLM provider. Any value turns them on; "gemini" is what older setups used.
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  const llm = process.env.RETRIEVAL_EMBEDDINGS ? getLlmProvider() : null;
+  if (!llm) return null;
+  return {
+    name: llm.name,
+    embedDocuments: texts => llm.embed(texts, 'document'),
+    async embedQuery(text) {
+      const [vector] = await llm.embed([text], 'query');
+      return vector;
+    },
+  };
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,205 @@
+// src/lib/retrieval/index.ts
+// Chunk indexing at upload time and top-k chunk selection at question time.
+import type { createSupabaseServerClient } from '@/lib/supabase/server';
+import { loadDocumentPages, type StoredDocument } from '@/lib/documents';
+import { documentUnit, type DocumentUnit } from '@/lib/extractors/formats';
+import { chunkPages } from './chunking';
+import { createBm25Index } from './bm25';
+import { cosineSimilarity, getEmbeddingProvider } from './embeddings';
+
+type SupabaseServerClient = ReturnType<typeof createSupabaseServerClient>;
+
+// At most this many chunks are sent, and never more characters than the budget.
+export const RETRIEVAL_TOP_K = Number(process.env.RETRIEVAL_TOP_K) || 8;
+export const RETRIEVAL_CONTEXT_CHAR_BUDGET = Number(process.env.RETRIEVAL_CONTEXT_CHAR_BUDGET) || 30000;
+
+// Reciprocal rank fusion constant for combining BM25 and embedding rankings.
+const RRF_K = 60;
+
+type StoredChunk = {
+  id: string;
+  document_id: string;
+  chunk_index: number;
+  page_start: number;
+  page_end: number;
+  text: string;
+  embedding: number[] | null;
+};
+
+export type RetrievedChunk = Omit<StoredChunk, 'embedding'> & { document_name: string; unit: DocumentUnit; score: number };
+
+// Stored on chat_messages.retrieval so retrieval quality can be inspected per answer.
+export type RetrievalRecord = {
+  // full_document: everything fit the budget; leading: nothing matched, so the start of each document was used
+  strategy: 'full_document' | 'bm25' | 'hybrid' | 'leading';
+  chunks: { id: string; document_id: string; chunk_index: number; page_start: number; page_end: number; score: number }[];
+};
+
+/** Splits the pages into chunks, embeds them when an embedding provider is configured, and stores them. */
+export async function indexDocumentChunks(
+  supabase: SupabaseServerClient,
+  userId: string,
+  documentId: string,
+  pages: string[],
+): Promise<void> {
+  const chunks = chunkPages(pages);
+  if (chunks.length === 0) return;
+
+  const embeddingProvider = getEmbeddingProvider();
+  let embeddings: number[][] | null = null;
+  if (embeddingProvider) {
+    try {
+      embeddings = await embeddingProvider.embedDocuments(chunks.map(chunk => chunk.text));
+    } catch (error) {
+      // Lexical retrieval still works without vectors
+      console.warn(`Retrieval: embedding with ${embeddingProvider.name} failed; indexing without embeddings.`, error);
+    }
+  }
+
+  const { error } = await supabase
+    .from('document_chunks')
+    .insert(chunks.map((chunk, i) => ({
+      document_id: documentId,
+      user_id: userId,
+      chunk_index: chunk.chunkIndex,
+      page_start: chunk.pageStart,
+      page_end: chunk.pageEnd,
+      text: chunk.text,
+      embedding: embeddings?.[i] ?? null,
+    })));
+
+  if (error) {
+    throw new Error('Failed to index document chunks. ' + error.message);
+  }
+}
+
+async function loadChunks(supabase: SupabaseServerClient, documentId: string): Promise<StoredChunk[]> {
+  const { data, error } = await supabase
+    .from('document_chunks')
+    .select('id, document_id, chunk_index, page_start, page_end, text, embedding')
+    .eq('document_id', documentId)
+    .order('chunk_index', { ascending: true });
+
+  if (error) {
+    throw new Error('Failed to load document chunks. ' + error.message);
+  }
+  return data as StoredChunk[];
+}
+
+// Documents stored before chunking existed are indexed on first use.
+async function reindexFromStorage(supabase: SupabaseServerClient, userId: string, document: StoredDocument): Promise<StoredChunk[]> {
+  const pages = await loadDocumentPages(supabase, document);
+  await indexDocumentChunks(supabase, userId, document.id, pages);
+  return loadChunks(supabase, document.id);
+}
+
+function rankChunks(chunks: StoredChunk[], query: string, queryEmbedding: number[] | null): number[] {
+  const bm25Scores = createBm25Index(chunks.map(chunk => chunk.text)).score(query);
+  if (!queryEmbedding) return bm25Scores;
+
+  // Fuse by rank rather than raw score; BM25 and cosine scores live on different scales
+  const rankOf = (scores: number[]) => {
+    const order = scores.map((score, i) => ({ score, i })).sort((a, b) => b.score - a.score);
+    const ranks: number[] = [];
+    order.forEach(({ i }, rank) => { ranks[i] = rank; });
+    return ranks;
+  };
+  const bm25Ranks = rankOf(bm25Scores);
+  const embeddingRanks = rankOf(chunks.map(chunk => cosineSimilarity(queryEmbedding, chunk.embedding ?? [])));
+  return chunks.map((_, i) =>
+    (bm25Scores[i] > 0 ? 1 / (RRF_K + bm25Ranks[i]) : 0) + 1 / (RRF_K + embeddingRanks[i])
+  );
+}
+
+/**
+ * Picks the chunks of `documents` most relevant to `query` that fit the prompt budget, in document order.
+ * All documents are ranked together, so a comparison question can pull from each of them.
+ * Documents that fit the budget together are returned whole.
+ */
+export async function retrieveDocumentChunks(
+  supabase: SupabaseServerClient,
+  userId: string,
+  documents: StoredDocument[],
+  query: string,
+): Promise<{ chunks: RetrievedChunk[]; record: RetrievalRecord }> {
+  const chunks: StoredChunk[] = [];
+  for (const document of documents) {
+    let documentChunks = await loadChunks(supabase, document.id);
+    if (documentChunks.length === 0) {
+      documentChunks = await reindexFromStorage(supabase, userId, document);
+    }
+    chunks.push(...documentChunks);
+  }
+
+  const documentsById = new Map(documents.map(document => [document.id, document]));
+  const documentOrder = new Map(documents.map((document, i) => [document.id, i]));
+  const toRetrievedChunk = (chunk: StoredChunk, score: number): RetrievedChunk => {
+    const { id, document_id, chunk_index, page_start, page_end, text } = chunk;
+    const document = documentsById.get(document_id);
+    return {
+      id, document_id, document_name: document?.name ?? '', unit: documentUnit(document?.mime_type ?? ''),
+      chunk_index, page_start, page_end, text, score,
+    };
+  };
+
+  const totalChars = chunks.reduce((sum, chunk) => sum + chunk.text.length, 0);
+  let strategy: RetrievalRecord['strategy'];
+  let selected: RetrievedChunk[] = [];
+
+  if (totalChars <= RETRIEVAL_CONTEXT_CHAR_BUDGET) {
+    strategy = 'full_document';
+    selected = chunks.map(chunk => toRetrievedChunk(chunk, 0));
+  } else {
+    const embeddingProvider = getEmbeddingProvider();
+    let queryEmbedding: number[] | null = null;
+    if (embeddingProvider && chunks.every(chunk => chunk.embedding)) {
+      try {
+        queryEmbedding = await embeddingProvider.embedQuery(query);
+      } catch (error) {
+        console.warn(`Retrieval: query embedding with ${embeddingProvider.name} failed; using BM25 only.`, error);
+      }
+    }
+
+    const scores = rankChunks(chunks, query, queryEmbedding);
+    const anyMatch = scores.some(score => score > 0);
+    strategy = !anyMatch ? 'leading' : queryEmbedding ? 'hybrid' : 'bm25';
+
+    // With no match at all, fall back to reading from the start of each document in turn
+    const candidates = chunks
+      .map((chunk, i) => toRetrievedChunk(chunk, scores[i]))
+      .filter(chunk => !anyMatch || chunk.score > 0);
+    if (anyMatch) {
+      candidates.sort((a, b) => b.score - a.score);
+    } else {
+      candidates.sort((a, b) => a.chunk_index - b.chunk_index || (documentOrder.get(a.document_id) ?? 0) - (documentOrder.get(b.document_id) ?? 0));
+    }
+
+    let usedChars = 0;
+    for (const chunk of candidates) {
+      if (selected.length >= RETRIEVAL_TOP_K) break;
+      if (usedChars + chunk.text.length > RETRIEVAL_CONTEXT_CHAR_BUDGET) continue;
+      selected.push(chunk);
+      usedChars += chunk.text.length;
+    }
+    selected.sort((a, b) => (documentOrder.get(a.document_id) ?? 0) - (documentOrder.get(b.document_id) ?? 0) || a.chunk_index - b.chunk_index);
+  }
+
+  return {
+    chunks: selected,
+    record: {
+      strategy,
+      chunks: selected.map(({ id, document_id, chunk_index, page_start, page_end, score }) => ({ id, document_id, chunk_index, page_start, page_end, score })),
+    },
+  };
+}
+
+export function formatPageRange(chunk: { page_start: number; page_end: number }, unit: DocumentUnit = 'page'): string {
+  return chunk.page_start === chunk.page_end ? `${unit} ${chunk.page_start}` : `${unit}s ${chunk.page_start}-${chunk.page_end}`;
+}
+
+// Renders the selected chunks as excerpts labelled with their document name and pages (or sections).
+export function formatChunksForPrompt(chunks: RetrievedChunk[]): string {
+  return chunks
+    .map(chunk => `[Excerpt from "${chunk.document_name}", ${formatPageRange(chunk, chunk.unit)}]\n${chunk.text}`)
+    .join('\n\n');
+}
@@ -0,0 +1,144 @@
+// src/lib/shares.ts
+// Read-only share links: a snapshot of a conversation (the branch shown when it was shared) published at
+// /share/<token>. Snapshots hold no document text unless the owner opts in: citation quotes and cited pages are
+// left out, leaving only the document names and page numbers.
+import { randomBytes } from 'crypto';
+import type { createSupabaseServerClient } from '@/lib/supabase/server';
+import type { DocumentUnit } from '@/lib/extractors/formats';
+import { collectChatArchive } from '@/lib/archive';
+import { loadDocument, loadDocumentPages } from '@/lib/documents';
+
+type SupabaseServerClient = ReturnType<typeof createSupabaseServerClient>;
+
+export const SHARE_COLUMNS = 'id, token, conversation_id, include_document_text, expires_at, revoked_at, created_at';
+
+export const MAX_SHARE_EXPIRY_DAYS = 365;
+
+// Cited pages are included up to this length when the owner shares document text
+const MAX_SHARED_EXCERPT_LENGTH = 3000;
+
+export type ConversationShare = {
+  id: string;
+  token: string;
+  conversation_id: string;
+  include_document_text: boolean;
+  expires_at: string | null;
+  revoked_at: string | null;
+  created_at: string;
+};
+
+export type SharedCitation = {
+  documentName: string;
+  unit: DocumentUnit;
+  page: number;
+  quote: string | null; // null unless document text is shared
+  excerpt: string | null; // Text of the cited page, likewise
+};
+
+export type SharedTurn = {
+  createdAt: string;
+  userQuery: string;
+  botResponse: string | null;
+  pdfContextUsed: boolean;
+  documents: string[]; // Names of the documents the question was asked against
+  citations: SharedCitation[];
+};
+
+export type ConversationSnapshot = {
+  title: string | null;
+  sharedAt: string;
+  includesDocumentText: boolean;
+  turns: SharedTurn[];
+};
+
+export type ShareInput = {
+  conversationId: string;
+  expiresInDays: number | null;
+  includeDocumentText: boolean;
+};
+
+export function validateShareInput(body: unknown): { input: ShareInput } | { error: string } {
+  if (typeof body !== 'object' || body === null) {
+    return { error: 'Request body must be a JSON object.' };
+  }
+  const { conversationId, expiresInDays = null, includeDocumentText = false } = body as Record<string, unknown>;
+  if (typeof conversationId !== 'string' || !conversationId) {
+    return { error: 'conversationId is required.' };
+  }
+  if (expiresInDays !== null && (!Number.isInteger(expiresInDays) || (expiresInDays as number) < 1 || (expiresInDays as number) > MAX_SHARE_EXPIRY_DAYS)) {
+    return { error: `expiresInDays must be a whole number from 1 to ${MAX_SHARE_EXPIRY_DAYS}, or null for a link that doesn't expire.` };
+  }
+  if (typeof includeDocumentText !== 'boolean') {
+    return { error: 'includeDocumentText must be a boolean.' };
+  }
+  return { input: { conversationId, expiresInDays: expiresInDays as number | null, includeDocumentText } };
+}
+
+// 192 random bits, URL-safe: the token is the only thing guarding a share.
+export function generateShareToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+// Text of every cited page, keyed "<documentId>:<page>", from the owner's documents.
+async function loadCitedPages(supabase: SupabaseServerClient, userId: string, cited: { documentId: string; page: number }[]): Promise<Map<string, string>> {
+  const excerpts = new Map<string, string>();
+  for (const documentId of Array.from(new Set(cited.map(citation => citation.documentId)))) {
+    const document = await loadDocument(supabase, userId, documentId);
+    if (!document) continue; // Deleted since it was cited
+    const pages = await loadDocumentPages(supabase, document);
+    for (const { page } of cited.filter(citation => citation.documentId === documentId)) {
+      const text = pages[page - 1];
+      if (text) excerpts.set(`${documentId}:${page}`, text.slice(0, MAX_SHARED_EXCERPT_LENGTH));
+    }
+  }
+  return excerpts;
+}
+
+/**
+ * Snapshots the branch of the conversation being shown. Resolves to null when the conversation doesn't exist;
+ * the snapshot has no turns when nothing has been asked yet.
+ */
+export async function buildConversationSnapshot(
+  supabase: SupabaseServerClient,
+  userId: string,
+  conversationId: string,
+  { includeDocumentText }: { includeDocumentText: boolean },
+): Promise<ConversationSnapshot | null> {
+  const archive = await collectChatArchive(supabase, userId, { conversationId, from: null, to: null, pdfContextUsed: null, documentId: null });
+  if (!archive) return null;
+  const conversation = archive.conversations[0];
+  const turns = conversation?.turns ?? [];
+
+  const excerpts = includeDocumentText
+    ? await loadCitedPages(supabase, userId, turns.flatMap(turn => turn.citations))
+    : new Map<string, string>();
+
+  return {
+    title: conversation?.title ?? null,
+    sharedAt: archive.exportedAt,
+    includesDocumentText: includeDocumentText,
+    turns: turns.map(turn => ({
+      createdAt: turn.createdAt,
+      userQuery: turn.userQuery,
+      botResponse: turn.botResponse,
+      pdfContextUsed: turn.pdfContextUsed,
+      documents: turn.documents.map(document => document.name),
+      citations: turn.citations.map(citation => ({
+        documentName: citation.documentName,
+        unit: citation.unit,
+        page: citation.page,
+        quote: includeDocumentText ? citation.quote : null,
+        excerpt: excerpts.get(`${citation.documentId}:${citation.page}`) ?? null,
+      })),
+    })),
+  };
+}
+
+/** The snapshot behind a share token, for anyone holding the link; null once it is revoked, expired or deleted. */
+export async function loadSharedConversation(supabase: SupabaseServerClient, token: string): Promise<ConversationSnapshot | null> {
+  const { data, error } = await supabase.rpc('get_conversation_share', { share_token: token });
+  if (error) {
+    throw new Error('Failed to load shared conversation. ' + error.message);
+  }
+  return (data as ConversationSnapshot | null) ?? null;
+}
@@ -0,0 +1,15 @@
+// src/lib/supabase/admin.ts
+// Service-role client for server-side jobs and admin views that act on every user's data. It bypasses row-level
+// security, so it must never read or write data on a regular user's behalf; admin pages check the role first.
+import { createClient } from '@supabase/supabase-js';
+
+export function createSupabaseAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set.');
+  }
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
@@ -0,0 +1,42 @@
+// src/lib/urls.test.ts
+import { describe, expect, it } from 'vitest';
+import { sameOriginRedirect, siteUrl } from './urls';
+
+const base = new URL('https://app.example/auth/confirm?token_hash=abc&type=magiclink');
+const redirect = (next: string | null) => sameOriginRedirect(next, base, '/chatbot').toString();
+
+describe('sameOriginRedirect', () => {
+  it('keeps paths on this site, with their query', () => {
+    expect(redirect('/chatbot?panel=workspaces')).toBe('https://app.example/chatbot?panel=workspaces');
+    expect(redirect('/admin/users')).toBe('https://app.example/admin/users');
+  });
+
+  it('falls back without a target', () => {
+    expect(redirect(null)).toBe('https://app.example/chatbot');
+    expect(redirect('')).toBe('https://app.example/chatbot');
+  });
+
+  it.each([
+    'https://evil.example/',
+    '//evil.example',
+    '/\\evil.example',
+    '\\\\evil.example',
+    '/\t/evil.example',
+    '/%0a/evil.example'.replace('%0a', '\n'),
+    'javascript:alert(1)',
+    'http://app.example/chatbot', // Same host, other scheme
+  ])('refuses to leave the site for %j', next => {
+    expect(redirect(next)).toBe('https://app.example/chatbot');
+  });
+});
+
+describe('siteUrl', () => {
+  it('puts the path on the configured site', () => {
+    expect(siteUrl('/auth/confirm', 'https://app.example')?.toString()).toBe('https://app.example/auth/confirm');
+    expect(siteUrl('/auth/confirm', 'https://app.example/ignored/')?.toString()).toBe('https://app.example/auth/confirm');
+  });
+
+  it.each([undefined, '', 'app.example', 'javascript:alert(1)'])('has no link without a usable site (%j)', configured => {
+    expect(siteUrl('/auth/confirm', configured)).toBeNull();
+  });
+});
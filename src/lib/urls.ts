@@ -0,0 +1,30 @@
+// src/lib/urls.ts
+// Redirect targets taken from query strings, and links to the app from outside it.
+
+/**
+ * Resolves a `next`-style parameter against the current page, or falls back when it would leave the site. Checking
+ * the resolved origin (rather than the string) catches forms browsers treat as other hosts, e.g. `/\evil.example`.
+ */
+export function sameOriginRedirect(next: string | null, base: URL, fallback: string): URL {
+  if (!next || /[\\\u0000-\u001f\u007f]/.test(next)) return new URL(fallback, base);
+  try {
+    const target = new URL(next, base);
+    return target.origin === base.origin ? target : new URL(fallback, base);
+  } catch {
+    return new URL(fallback, base);
+  }
+}
+
+/**
+ * `path` on the app's public address, `SITE_URL`, for links sent out of band such as in emails. A request's own URL
+ * can't be used for those: its host comes from headers the client controls. Null when `SITE_URL` isn't an http(s) URL.
+ */
+export function siteUrl(path: string, configured: string | undefined = process.env.SITE_URL): URL | null {
+  if (!configured) return null;
+  try {
+    const site = new URL(configured);
+    return site.protocol === 'https:' || site.protocol === 'http:' ? new URL(path, site) : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,234 @@
+// src/lib/usage.ts
+// Token and cost accounting. Every stored turn records its model, prompt and output tokens (from the provider's
+// usage metadata), latency, whether document retrieval was used and its cost from the price table in
+// src/lib/llm/pricing.ts. Admins see per-day and per-user totals at /admin/usage and can download them as CSV; the
+// admin dashboard charts daily traffic from here too.
+import type { createSupabaseAdminClient } from '@/lib/supabase/admin';
+import { estimateTokens, type LlmRequest, type LlmResult } from '@/lib/llm';
+import { tokenCost } from '@/lib/llm/pricing';
+import { parseDateParam } from '@/lib/chat-search';
+import { loadUserEmails } from '@/lib/admin';
+
+type SupabaseAdminClient = ReturnType<typeof createSupabaseAdminClient>;
+
+// Columns saved on each chat_messages row.
+export type TurnUsageColumns = {
+  model: string;
+  prompt_tokens: number;
+  output_tokens: number;
+  latency_ms: number;
+  retrieval_used: boolean;
+  cost_usd: number | null; // null when the model has no price
+  usage_estimated: boolean; // Stopped streams report no usage, so their counts are estimated from the text
+};
+
+export function turnUsageColumns({ model, llmRequest, replyText, result, latencyMs, retrievalUsed }: {
+  model: string;
+  llmRequest: LlmRequest;
+  replyText: string;
+  result: LlmResult | undefined;
+  latencyMs: number;
+  retrievalUsed: boolean;
+}): TurnUsageColumns {
+  const usage = result?.usage;
+  const promptText = [llmRequest.systemInstruction ?? '', ...(llmRequest.history ?? []).map(message => message.text), llmRequest.prompt].join('\n');
+  const promptTokens = usage?.promptTokens ?? estimateTokens(promptText);
+  const outputTokens = usage?.completionTokens ?? estimateTokens(replyText);
+  return {
+    model,
+    prompt_tokens: promptTokens,
+    output_tokens: outputTokens,
+    latency_ms: Math.max(0, Math.round(latencyMs)),
+    retrieval_used: retrievalUsed,
+    cost_usd: tokenCost(model, promptTokens, outputTokens),
+    usage_estimated: !usage,
+  };
+}
+
+// Longest range the usage page and CSV export cover at once.
+export const MAX_USAGE_RANGE_DAYS = 366;
+const DEFAULT_USAGE_RANGE_DAYS = 30;
+
+export type UsageRange = { from: string; to: string }; // ISO timestamps, inclusive
+
+/** Reads ?from=&to= (dates or timestamps); the range defaults to the last 30 days. */
+export function parseUsageRange(params: URLSearchParams, now: Date = new Date()): { range: UsageRange } | { error: string } {
+  const to = parseDateParam(params.get('to'), { endOfDay: true });
+  const from = parseDateParam(params.get('from'), { endOfDay: false });
+  if (from === undefined || to === undefined) {
+    return { error: 'from and to must be dates (YYYY-MM-DD) or ISO timestamps.' };
+  }
+  const end = to ?? now.toISOString();
+  const start = from ?? new Date(new Date(end).getTime() - DEFAULT_USAGE_RANGE_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  if (start > end) {
+    return { error: 'from must not be after to.' };
+  }
+  if (new Date(end).getTime() - new Date(start).getTime() > MAX_USAGE_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+    return { error: `The range can span at most ${MAX_USAGE_RANGE_DAYS} days.` };
+  }
+  return { range: { from: start, to: end } };
+}
+
+export type UsageTotals = {
+  turns: number;
+  retrievalTurns: number; // Turns answered from documents
+  promptTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  retrievalCostUsd: number;
+  unpricedTurns: number; // Turns on models without a price, not included in the cost
+  averageLatencyMs: number | null;
+};
+
+export type UsageSummary = {
+  range: UsageRange;
+  total: UsageTotals;
+  byDay: (UsageTotals & { day: string })[]; // Oldest first; UTC days
+  byUser: (UsageTotals & { userId: string; email: string | null })[]; // Most expensive first
+};
+
+// One row of the usage_summary database function: a user's turns on one UTC day, with or without retrieval.
+type UsageSummaryRow = {
+  day: string;
+  user_id: string;
+  retrieval_used: boolean;
+  turns: number;
+  prompt_tokens: number;
+  output_tokens: number;
+  cost_usd: number | string; // numeric arrives as a string
+  unpriced_turns: number;
+  latency_ms: number;
+};
+
+type Accumulator = Omit<UsageTotals, 'averageLatencyMs'> & { latencyMs: number };
+
+const emptyAccumulator = (): Accumulator => ({
+  turns: 0, retrievalTurns: 0, promptTokens: 0, outputTokens: 0, costUsd: 0, retrievalCostUsd: 0, unpricedTurns: 0, latencyMs: 0,
+});
+
+function addRow(totals: Accumulator, row: UsageSummaryRow) {
+  const turns = Number(row.turns);
+  const cost = Number(row.cost_usd);
+  totals.turns += turns;
+  totals.promptTokens += Number(row.prompt_tokens);
+  totals.outputTokens += Number(row.output_tokens);
+  totals.costUsd += cost;
+  totals.unpricedTurns += Number(row.unpriced_turns);
+  totals.latencyMs += Number(row.latency_ms);
+  if (row.retrieval_used) {
+    totals.retrievalTurns += turns;
+    totals.retrievalCostUsd += cost;
+  }
+}
+
+function finish({ latencyMs, ...totals }: Accumulator): UsageTotals {
+  return {
+    ...totals,
+    costUsd: Math.round(totals.costUsd * 1_000_000) / 1_000_000,
+    retrievalCostUsd: Math.round(totals.retrievalCostUsd * 1_000_000) / 1_000_000,
+    averageLatencyMs: totals.turns > 0 ? Math.round(latencyMs / totals.turns) : null,
+  };
+}
+
+/** Per-day and per-user totals for the range. Reads through the service-role client: callers must have checked for an admin. */
+export async function loadUsageSummary(admin: SupabaseAdminClient, range: UsageRange): Promise<UsageSummary> {
+  const { data, error } = await admin.rpc('usage_summary', { start_at: range.from, end_at: range.to });
+  if (error) {
+    throw new Error('Failed to load usage. ' + error.message);
+  }
+  const rows = data as UsageSummaryRow[];
+
+  const total = emptyAccumulator();
+  const byDay = new Map<string, Accumulator>();
+  const byUser = new Map<string, Accumulator>();
+  for (const row of rows) {
+    addRow(total, row);
+    if (!byDay.has(row.day)) byDay.set(row.day, emptyAccumulator());
+    addRow(byDay.get(row.day)!, row);
+    if (!byUser.has(row.user_id)) byUser.set(row.user_id, emptyAccumulator());
+    addRow(byUser.get(row.user_id)!, row);
+  }
+  const emails = await loadUserEmails(admin, Array.from(byUser.keys()));
+
+  return {
+    range,
+    total: finish(total),
+    byDay: Array.from(byDay, ([day, totals]) => ({ day, ...finish(totals) })).sort((a, b) => a.day.localeCompare(b.day)),
+    byUser: Array.from(byUser, ([userId, totals]) => ({ userId, email: emails.get(userId) ?? null, ...finish(totals) }))
+      .sort((a, b) => b.costUsd - a.costUsd || b.turns - a.turns),
+  };
+}
+
+export type UsageGrouping = 'day' | 'user';
+
+// Quotes fields that need it, and defuses text a spreadsheet would read as a formula.
+const csvField = (value: string | number | null) => {
+  const text = value === null ? '' : typeof value === 'string' && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const TOTALS_HEADER = ['turns', 'retrieval_turns', 'prompt_tokens', 'output_tokens', 'cost_usd', 'retrieval_cost_usd', 'unpriced_turns', 'average_latency_ms'];
+
+const totalsFields = (totals: UsageTotals) => [
+  totals.turns, totals.retrievalTurns, totals.promptTokens, totals.outputTokens,
+  totals.costUsd, totals.retrievalCostUsd, totals.unpricedTurns, totals.averageLatencyMs,
+];
+
+/** The per-day or per-user table as CSV, one header row then one row per day or user. */
+export function usageCsv(summary: UsageSummary, groupBy: UsageGrouping): string {
+  const rows = groupBy === 'day'
+    ? [['day', ...TOTALS_HEADER], ...summary.byDay.map(day => [day.day, ...totalsFields(day)])]
+    : [['user_id', 'email', ...TOTALS_HEADER], ...summary.byUser.map(user => [user.userId, user.email, ...totalsFields(user)])];
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// Periods the admin dashboard's traffic charts can show, in days.
+export const TRAFFIC_PERIODS = [7, 30, 90];
+
+/** The last `days` UTC days, today included. */
+export function trafficRange(days: number, now: Date = new Date()): UsageRange {
+  const start = new Date(now);
+  start.setUTCHours(0, 0, 0, 0);
+  start.setUTCDate(start.getUTCDate() - (days - 1));
+  return { from: start.toISOString(), to: now.toISOString() };
+}
+
+export type TrafficDay = {
+  day: string; // UTC date
+  turns: number;
+  activeUsers: number;
+  documentTurns: number; // Turns answered with document context
+  safetyBlocks: number; // Prompts blocked and replies withheld (see src/lib/moderation.ts)
+};
+
+// One row of the daily_traffic database function; days without turns or blocks have none.
+type TrafficRow = {
+  day: string;
+  turns: number;
+  active_users: number;
+  document_turns: number;
+  safety_blocks: number;
+};
+
+/** Traffic per UTC day of the range, oldest first, with quiet days as zeros. Callers must have checked for an admin. */
+export async function loadDailyTraffic(admin: SupabaseAdminClient, range: UsageRange): Promise<TrafficDay[]> {
+  const { data, error } = await admin.rpc('daily_traffic', { start_at: range.from, end_at: range.to });
+  if (error) {
+    throw new Error('Failed to load traffic. ' + error.message);
+  }
+  const rows = new Map((data as TrafficRow[]).map(row => [row.day, row]));
+
+  const days: TrafficDay[] = [];
+  for (const date = new Date(range.from.slice(0, 10)); date.toISOString() <= range.to; date.setUTCDate(date.getUTCDate() + 1)) {
+    const day = date.toISOString().slice(0, 10);
+    const row = rows.get(day);
+    days.push({
+      day,
+      turns: Number(row?.turns ?? 0),
+      activeUsers: Number(row?.active_users ?? 0),
+      documentTurns: Number(row?.document_turns ?? 0),
+      safetyBlocks: Number(row?.safety_blocks ?? 0),
+    });
+  }
+  return days;
+}
@@ -0,0 +1,125 @@
+// src/lib/workspaces.ts
+// Team workspaces: members with a role share a document library that any of them can attach to their own
+// conversations. Conversations stay private. Row-level security enforces the same rules (see the README); the
+// routes check roles first so they can answer with a clear 403 or 404.
+import type { createSupabaseServerClient } from '@/lib/supabase/server';
+import { createSupabaseAdminClient } from '@/lib/supabase/admin';
+
+type SupabaseServerClient = ReturnType<typeof createSupabaseServerClient>;
+
+// owner: manages members and invitations; editor: also adds documents to the library; viewer: reads and attaches them
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export const WORKSPACE_ROLES: WorkspaceRole[] = ['owner', 'editor', 'viewer'];
+
+export const MAX_WORKSPACE_NAME_LENGTH = 80;
+
+export const INVITATION_EXPIRY_DAYS = 14;
+
+export type Workspace = {
+  id: string;
+  name: string;
+  role: WorkspaceRole; // The current user's role
+  created_at: string;
+};
+
+export type WorkspaceMember = {
+  user_id: string;
+  email: string | null;
+  role: WorkspaceRole;
+  created_at: string;
+};
+
+export type WorkspaceInvitation = {
+  id: string;
+  workspace_id: string;
+  workspace_name?: string; // Set on the invitee's own list
+  email: string;
+  role: WorkspaceRole;
+  created_at: string;
+  expires_at: string;
+};
+
+export const MEMBER_COLUMNS = 'user_id, email, role, created_at';
+export const INVITATION_COLUMNS = 'id, workspace_id, email, role, created_at, expires_at';
+
+export const isWorkspaceRole = (value: unknown): value is WorkspaceRole => WORKSPACE_ROLES.includes(value as WorkspaceRole);
+
+export function normaliseWorkspaceName(name: unknown): string | null {
+  if (typeof name !== 'string') return null;
+  const trimmed = name.replace(/\s+/g, ' ').trim();
+  return trimmed && trimmed.length <= MAX_WORKSPACE_NAME_LENGTH ? trimmed : null;
+}
+
+export function normaliseEmail(email: unknown): string | null {
+  if (typeof email !== 'string') return null;
+  const trimmed = email.trim().toLowerCase();
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(trimmed) && trimmed.length <= 320 ? trimmed : null;
+}
+
+/** The user's role in the workspace, or null when they aren't a member (or it doesn't exist). */
+export async function workspaceRole(supabase: SupabaseServerClient, userId: string, workspaceId: string): Promise<WorkspaceRole | null> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('role')
+    .eq('workspace_id', workspaceId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) {
+    throw new Error('Failed to check workspace membership. ' + error.message);
+  }
+  return (data?.role as WorkspaceRole | undefined) ?? null;
+}
+
+export async function memberWorkspaceIds(supabase: SupabaseServerClient, userId: string): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('workspace_members')
+    .select('workspace_id')
+    .eq('user_id', userId);
+  if (error) {
+    throw new Error('Failed to load workspaces. ' + error.message);
+  }
+  return (data as { workspace_id: string }[]).map(row => row.workspace_id);
+}
+
+/**
+ * PostgREST `or` filter for the documents a user can use: their personal library plus the libraries of their
+ * workspaces. Documents they added to a workspace they have since left are not included.
+ */
+export async function accessibleDocumentsFilter(supabase: SupabaseServerClient, userId: string): Promise<string> {
+  const workspaceIds = await memberWorkspaceIds(supabase, userId);
+  const personal = `and(user_id.eq.${userId},workspace_id.is.null)`;
+  return workspaceIds.length > 0 ? `${personal},workspace_id.in.(${workspaceIds.join(',')})` : personal;
+}
+
+// Whether an invitation email went out, and if not, why: the invitation itself exists either way.
+export type InvitationEmailResult = { sent: true } | { sent: false; reason: string };
+
+/**
+ * Emails an invitation through Supabase Auth. An address without an account gets an invite email that signs them up;
+ * one with an account gets a magic link that signs them in. Both links lead to `redirectTo`.
+ */
+export async function sendInvitationEmail(email: string, redirectTo: string): Promise<InvitationEmailResult> {
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return { sent: false, reason: 'invitation emails are not set up on this server' };
+  }
+  try {
+    const admin = createSupabaseAdminClient();
+    const { error } = await admin.auth.admin.inviteUserByEmail(email, { redirectTo });
+    if (!error) return { sent: true };
+    if (error.code !== 'email_exists') {
+      console.warn(`Workspace invitation email to ${email} not sent:`, error.message);
+      return { sent: false, reason: error.message };
+    }
+
+    const { error: linkError } = await admin.auth.signInWithOtp({ email, options: { shouldCreateUser: false, emailRedirectTo: redirectTo } });
+    if (linkError) {
+      console.warn(`Workspace invitation sign-in link to ${email} not sent:`, linkError.message);
+      return { sent: false, reason: linkError.message };
+    }
+    return { sent: true };
+  } catch (error: unknown) {
+    console.warn(`Workspace invitation email to ${email} not sent:`, error);
+    return { sent: false, reason: error instanceof Error ? error.message : 'the email service could not be reached' };
+  }
+}
@@ -1,8 +1,15 @@
 // src/middleware.ts
 import { createServerClient, type CookieOptions } from '@supabase/ssr';
 import { NextResponse, type NextRequest } from 'next/server';
+import { isAdmin } from '@/lib/admin';
 
 export async function middleware(request: NextRequest) {
+  // Shared conversation links are public: they are read without a session, so none is looked up or refreshed
+  const publicRoutes = ['/share/'];
+  if (publicRoutes.some(route => request.nextUrl.pathname.startsWith(route))) {
+    return NextResponse.next();
+  }
+
   let response = NextResponse.next({
     request: {
       headers: request.headers,
@@ -51,7 +58,7 @@ export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
   // Define protected routes
-  const protectedRoutes = ['/chatbot']; // Add any other routes you want to protect
+  const protectedRoutes = ['/chatbot', '/admin']; // Add any other routes you want to protect
   const isProtectedRoute = protectedRoutes.some(route => pathname.startsWith(route));
 
   // Define auth routes (users should be redirected away if logged in)
@@ -63,6 +70,22 @@ export async function middleware(request: NextRequest) {
     return NextResponse.redirect(new URL('/login', request.url));
   }
 
+  // Admin pages and APIs need the admin role claim. The claim in the session's token is only updated when the token
+  // is refreshed, so the pages and routes check the user record again.
+  const adminRoutes = ['/admin', '/api/admin/'];
+  const jobRoutes = ['/api/admin/purge']; // Called by a scheduler with its own secret rather than a session
+  const isAdminRoute = adminRoutes.some(route => pathname.startsWith(route)) && !jobRoutes.some(route => pathname.startsWith(route));
+
+  if (isAdminRoute && !isAdmin(session?.user)) {
+    if (pathname.startsWith('/api/')) {
+      return session
+        ? NextResponse.json({ error: 'Forbidden: Only admins can use this route.' }, { status: 403 })
+        : NextResponse.json({ error: 'Unauthorized: You must be logged in.' }, { status: 401 });
+    }
+    // Requests without a session were already sent to the login page above
+    return NextResponse.redirect(new URL('/chatbot', request.url));
+  }
+
   if (isAuthRoute && session) {
     // User is authenticated and trying to access login/register
     return NextResponse.redirect(new URL('/chatbot', request.url)); // or '/' or a dashboard page
@@ -0,0 +1,19 @@
+// vitest.config.mts
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url)),
+      // Imported as ESM, pdf-parse's entry point runs its debug mode (see next.config.ts); the library itself doesn't
+      'pdf-parse': 'pdf-parse/lib/pdf-parse.js',
+    },
+  },
+  css: { postcss: {} }, // Components import stylesheets; the app's Tailwind config isn't needed to render them
+  esbuild: { jsx: 'automatic' }, // tsconfig keeps JSX for Next.js to compile
+  test: {
+    include: ['src/**/*.test.{ts,tsx}'],
+    environment: 'node',
+  },
+});